@@ -0,0 +1,104 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { BUSINESS_CARD_GRID } from '../cardLayouts';
+import { POINTS_PER_INCH } from '../printLayout';
+import { ProfileCardGenerator } from '../profileCardGenerator';
+import { CardGenerationOptions } from '../types';
+import { RecordingCanvas } from './fixtures/canvas';
+import { createProfile } from './fixtures/profile';
+
+jest.mock('canvas', () => require('./fixtures/canvas').canvasModule);
+
+interface Box {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+describe('BusinessCardLayout', () => {
+  let directory: string;
+
+  beforeAll(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'business-card-'));
+  });
+
+  afterAll(() => fs.remove(directory));
+
+  /**
+   * Render a business card and return where the banner and avatar were drawn
+   */
+  async function render(options: CardGenerationOptions): Promise<{ banner: Box; avatar: Box; texts: Box[] }> {
+    const result = await new ProfileCardGenerator().generateCard(
+      { profileData: createProfile(), profileImagePath: '/tmp/avatar.jpg', bannerImagePath: '/tmp/banner.jpg' },
+      { cardStyle: 'business', bannerFit: 'fill', ...options },
+      path.join(directory, `business.${options.outputFormat || 'png'}`)
+    );
+
+    expect(result.error).toBeUndefined();
+    const { images, texts } = RecordingCanvas.contexts[RecordingCanvas.contexts.length - 1];
+    const banner = images.find(image => image.image.src.endsWith('banner.jpg'));
+    const avatar = images.find(image => image.image.src.endsWith('avatar.jpg'));
+    return { banner: banner!, avatar: avatar!, texts };
+  }
+
+  /**
+   * The 56x32 unit grid, as large as fits in the frame and centered in it
+   */
+  function getGrid(frame: Box) {
+    const width = frame.right - frame.left;
+    const height = frame.bottom - frame.top;
+    const unit = Math.min(width / BUSINESS_CARD_GRID.columns, height / BUSINESS_CARD_GRID.rows);
+    return {
+      unit,
+      left: frame.left + (width - BUSINESS_CARD_GRID.columns * unit) / 2,
+      top: frame.top + (height - BUSINESS_CARD_GRID.rows * unit) / 2
+    };
+  }
+
+  function expectGridPlacement({ banner, avatar, texts }: { banner: Box; avatar: Box; texts: Box[] }, card: Box, frame: Box): void {
+    const { unit, left, top } = getGrid(frame);
+    const bannerBottom = top + (BUSINESS_CARD_GRID.rows / 2 - 7) * unit;
+
+    // The banner spans the card down to 7 units above the center line
+    expect(banner.left).toBeCloseTo(card.left);
+    expect(banner.top).toBeCloseTo(card.top);
+    expect(banner.right).toBeCloseTo(card.right);
+    expect(banner.bottom).toBeCloseTo(bannerBottom);
+
+    // The 11-unit avatar sits 1 unit below the banner and 1.5 units from the left
+    expect(avatar.left).toBeCloseTo(left + 1.5 * unit);
+    expect(avatar.top).toBeCloseTo(bannerBottom + unit);
+    expect(avatar.right - avatar.left).toBeCloseTo(11 * unit);
+    expect(avatar.bottom - avatar.top).toBeCloseTo(11 * unit);
+
+    expect(texts.length).toBeGreaterThan(0);
+    for (const text of texts) {
+      expect(text.left).toBeGreaterThanOrEqual(left - 0.01);
+      expect(text.right).toBeLessThanOrEqual(left + BUSINESS_CARD_GRID.columns * unit + 0.01);
+      expect(text.bottom).toBeLessThanOrEqual(top + BUSINESS_CARD_GRID.rows * unit + 0.01);
+    }
+  }
+
+  it.each([
+    ['the 3.5x2" preset', 1050, 600],
+    ['a wider card', 1200, 630],
+    ['a taller card', 560, 400],
+    ['a small card', 350, 200]
+  ])('places the banner and avatar on the unit grid for %s', async (_, width, height) => {
+    const card = { left: 0, top: 0, right: width, bottom: height };
+
+    expectGridPlacement(await render({ width, height }), card, card);
+  });
+
+  it.each([0.125, 0.25])('places the grid on the trim box of a PDF with a %s" bleed', async bleed => {
+    const drawn = await render({ outputFormat: 'pdf', print: { bleed } });
+    // Recorded in points: the artwork runs into the bleed, the grid fills the 3.5x2" trim
+    const card = { left: 0, top: 0, right: (3.5 + bleed * 2) * POINTS_PER_INCH, bottom: (2 + bleed * 2) * POINTS_PER_INCH };
+    const trim = { left: bleed * POINTS_PER_INCH, top: bleed * POINTS_PER_INCH, right: (3.5 + bleed) * POINTS_PER_INCH, bottom: (2 + bleed) * POINTS_PER_INCH };
+
+    expect(getGrid(trim).unit).toBeCloseTo(4.5);
+    expectGridPlacement(drawn, card, trim);
+  });
+});
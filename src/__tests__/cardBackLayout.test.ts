@@ -0,0 +1,116 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { POINTS_PER_INCH } from '../printLayout';
+import { ProfileCardGenerator } from '../profileCardGenerator';
+import { QrCodeRenderer } from '../qrCode';
+import { CardGenerationOptions } from '../types';
+import { RecordingCanvas } from './fixtures/canvas';
+import { createProfile } from './fixtures/profile';
+
+jest.mock('canvas', () => require('./fixtures/canvas').canvasModule);
+
+describe('double-sided cards', () => {
+  const assets = { profileData: createProfile(), profileImagePath: '/tmp/avatar.jpg', bannerImagePath: '/tmp/banner.jpg' };
+  const back = { contactLines: ['hello@hhaider.dev', '+44 20 7946 0000'], logoPath: '/tmp/logo.png' };
+  let directory: string;
+
+  beforeAll(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'card-back-'));
+  });
+
+  afterAll(() => fs.remove(directory));
+
+  beforeEach(() => {
+    RecordingCanvas.contexts = [];
+  });
+
+  const generate = (fileName: string, options: CardGenerationOptions) =>
+    new ProfileCardGenerator().generateCard(assets, options, path.join(directory, fileName));
+
+  it('writes the back next to the front with a _back suffix', async () => {
+    const result = await generate('card.png', { doubleSided: true, back });
+
+    expect(result.error).toBeUndefined();
+    expect(result.outputPath).toBe(path.join(directory, 'card.png'));
+    expect(result.backOutputPath).toBe(path.join(directory, 'card_back.png'));
+    expect(await fs.readFile(result.backOutputPath!, 'utf8')).toBe('image 1200x630 pages:1');
+  });
+
+  it('keeps the extension of SVG output on the back', async () => {
+    // SVG output embeds image files, so leave the images out
+    const result = await new ProfileCardGenerator().generateCard(
+      { profileData: assets.profileData },
+      { outputFormat: 'svg', doubleSided: true, back: { contactLines: back.contactLines } },
+      path.join(directory, 'card.svg')
+    );
+
+    expect(result.backOutputPath).toBe(path.join(directory, 'card_back.svg'));
+    const svg = await fs.readFile(result.backOutputPath!, 'utf8');
+    expect(svg).toContain('<svg');
+    expect(svg).toContain('hello@hhaider.dev');
+  });
+
+  it('writes no back for single-sided cards', async () => {
+    const result = await generate('single.png', { back });
+
+    expect(result.backOutputPath).toBeUndefined();
+    expect(await fs.pathExists(path.join(directory, 'single_back.png'))).toBe(false);
+    expect(RecordingCanvas.contexts).toHaveLength(1);
+  });
+
+  it('draws the logo, name, contact lines and bio on the back only', async () => {
+    await generate('sides.png', { doubleSided: true, back });
+    const [front, backSide] = RecordingCanvas.contexts.map(ctx => ctx.texts.map(text => text.text).join(' '));
+
+    expect(front).not.toContain('hello@hhaider.dev');
+    expect(backSide).toContain('Hamzah Haider');
+    expect(backSide).toContain('@hhaider__');
+    expect(backSide).toContain('hello@hhaider.dev');
+    expect(backSide).toContain('+44 20 7946 0000');
+    expect(backSide).toContain('Building things on the web');
+    expect(RecordingCanvas.contexts[1].images.map(image => image.image.src)).toEqual(['/tmp/logo.png']);
+  });
+
+  it('still draws the back when the logo fails to load', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const result = await generate('no-logo.png', { doubleSided: true, back: { ...back, logoPath: '/tmp/missing-logo.png' } });
+
+    expect(result.success).toBe(true);
+    expect(warn).toHaveBeenCalledWith('Failed to load back logo:', expect.any(Error));
+    expect(RecordingCanvas.contexts[1].images).toEqual([]);
+    expect(RecordingCanvas.contexts[1].texts.map(text => text.text)).toContain('hello@hhaider.dev');
+    warn.mockRestore();
+  });
+
+  it('links the back QR code to the profile unless the back sets a URL', async () => {
+    const draw = jest.spyOn(QrCodeRenderer, 'draw');
+
+    await generate('qr.png', { doubleSided: true, back });
+    await generate('qr-url.png', { doubleSided: true, back: { ...back, qrCode: { url: 'https://hhaider.dev' } } });
+
+    expect(draw.mock.calls.map(call => call[1])).toEqual(['https://twitter.com/hhaider__', 'https://hhaider.dev']);
+    draw.mockRestore();
+  });
+
+  it('puts the back on the second page of a single PDF', async () => {
+    const result = await generate('card.pdf', { outputFormat: 'pdf', doubleSided: true, back });
+
+    expect(result.backOutputPath).toBeUndefined();
+    expect(await fs.pathExists(path.join(directory, 'card_back.pdf'))).toBe(false);
+    expect((await fs.readFile(result.outputPath!, 'utf8')).endsWith('pages:2')).toBe(true);
+
+    const { texts } = RecordingCanvas.contexts[0];
+    const onPage = (page: number) => texts.filter(text => text.page === page).map(text => text.text);
+    expect(onPage(0)).not.toContain('hello@hhaider.dev');
+    expect(onPage(1)).toContain('hello@hhaider.dev');
+
+    // The back keeps to the safe zone too: 1/8" bleed plus 1/8" safe zone
+    for (const text of texts.filter(text => text.page === 1)) {
+      expect(text.left).toBeGreaterThanOrEqual(0.25 * POINTS_PER_INCH - 0.01);
+      expect(text.top).toBeGreaterThanOrEqual(0.25 * POINTS_PER_INCH - 0.01);
+      expect(text.right).toBeLessThanOrEqual(3.5 * POINTS_PER_INCH + 0.01);
+      expect(text.bottom).toBeLessThanOrEqual(2 * POINTS_PER_INCH + 0.01);
+    }
+  });
+});
@@ -0,0 +1,136 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { CardLayout, CardLayoutRegistry } from '../cardLayouts';
+import { ProfileCardGenerator } from '../profileCardGenerator';
+import { RecordingCanvas, RecordingContext } from './fixtures/canvas';
+import { createProfile } from './fixtures/profile';
+
+jest.mock('canvas', () => require('./fixtures/canvas').canvasModule);
+
+describe('CardLayoutRegistry', () => {
+  const layout = (name: string): CardLayout => ({ name, render: async () => undefined });
+
+  afterEach(() => {
+    CardLayoutRegistry.unregister('neon');
+  });
+
+  it('registers the built-in layouts', () => {
+    expect(CardLayoutRegistry.list()).toEqual(expect.arrayContaining(['modern', 'classic', 'minimal', 'business']));
+  });
+
+  it('looks layouts up case-insensitively', () => {
+    const neon = layout('Neon');
+    CardLayoutRegistry.register(neon);
+
+    expect(CardLayoutRegistry.has('NEON')).toBe(true);
+    expect(CardLayoutRegistry.get('neon')).toBe(neon);
+  });
+
+  it('only replaces a layout when asked to', () => {
+    CardLayoutRegistry.register(layout('neon'));
+    const replacement = layout('neon');
+
+    expect(() => CardLayoutRegistry.register(replacement)).toThrow('Card style "neon" is already registered');
+    CardLayoutRegistry.register(replacement, true);
+    expect(CardLayoutRegistry.get('neon')).toBe(replacement);
+  });
+
+  it('unregisters layouts', () => {
+    CardLayoutRegistry.register(layout('neon'));
+
+    expect(CardLayoutRegistry.unregister('Neon')).toBe(true);
+    expect(CardLayoutRegistry.unregister('neon')).toBe(false);
+    expect(CardLayoutRegistry.has('neon')).toBe(false);
+  });
+
+  it('rejects layouts without a name or render function', () => {
+    expect(() => CardLayoutRegistry.register(layout(''))).toThrow('Invalid card layout');
+    expect(() => CardLayoutRegistry.register({ name: 'neon' } as CardLayout)).toThrow('Invalid card layout');
+  });
+
+  it('lists the available styles for unknown names', () => {
+    expect(() => CardLayoutRegistry.get('neon')).toThrow(/Unknown card style "neon"\. Available styles: modern, classic, minimal, business/);
+  });
+});
+
+describe('built-in layouts', () => {
+  const colors = { backgroundColor: '#ffffff', textColor: '#000000', secondaryTextColor: '#666666', accentColor: '#ff0000' };
+  let directory: string;
+
+  beforeAll(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'card-layouts-'));
+  });
+
+  afterAll(() => fs.remove(directory));
+
+  async function render(cardStyle: string): Promise<RecordingContext> {
+    RecordingCanvas.contexts = [];
+    const result = await new ProfileCardGenerator().generateCard(
+      { profileData: createProfile(), profileImagePath: '/tmp/avatar.jpg', bannerImagePath: '/tmp/banner.jpg' },
+      { cardStyle, bannerFit: 'fill', ...colors },
+      path.join(directory, `${cardStyle}.png`)
+    );
+
+    expect(result.error).toBeUndefined();
+    const [ctx] = RecordingCanvas.contexts;
+    for (const text of ctx.texts) {
+      expect(text.left).toBeGreaterThanOrEqual(0);
+      expect(text.top).toBeGreaterThanOrEqual(0);
+      expect(text.right).toBeLessThanOrEqual(1200);
+      expect(text.bottom).toBeLessThanOrEqual(630);
+    }
+    return ctx;
+  }
+
+  const find = (ctx: RecordingContext, text: string) => ctx.texts.find(drawn => drawn.text === text)!;
+  const center = (box: { left: number; right: number }) => (box.left + box.right) / 2;
+
+  it('centers the classic avatar, name, handle and stats under a full-width banner', async () => {
+    const ctx = await render('classic');
+    const banner = ctx.images.find(image => image.image.src.endsWith('banner.jpg'))!;
+    const avatar = ctx.images.find(image => image.image.src.endsWith('avatar.jpg'))!;
+    const name = find(ctx, 'Hamzah Haider');
+    const handle = find(ctx, '@hhaider__');
+    const labels = ['Followers', 'Following', 'Tweets'].map(label => find(ctx, label));
+
+    expect([banner.left, banner.top, banner.right]).toEqual([0, 0, 1200]);
+    // The avatar straddles the bottom edge of the banner
+    expect(avatar.top).toBeLessThan(banner.bottom);
+    expect(avatar.bottom).toBeGreaterThan(banner.bottom);
+    expect(center(avatar)).toBeCloseTo(600);
+    expect(center(name)).toBeCloseTo(600);
+    expect(center(handle)).toBeCloseTo(600);
+    expect(name.top).toBeGreaterThan(avatar.bottom - 1);
+    expect(handle.top).toBeGreaterThan(name.top);
+
+    // Stats share one row, left to right, with the middle column on the center line
+    expect(labels.every(label => label.top === labels[0].top)).toBe(true);
+    expect(labels[0].top).toBeGreaterThan(handle.bottom);
+    expect(labels.map(label => label.left)).toEqual([...labels.map(label => label.left)].sort((a, b) => a - b));
+    expect(center(labels[1])).toBeCloseTo(600);
+  });
+
+  it('draws the minimal avatar beside the name and the stats on one line, without a banner image', async () => {
+    const ctx = await render('minimal');
+    const avatar = ctx.images.find(image => image.image.src.endsWith('avatar.jpg'))!;
+    const name = find(ctx, 'Hamzah Haider');
+    const handle = find(ctx, '@hhaider__');
+    const stats = ['12.3K', 'Followers', '678', 'Following', '9K', 'Tweets'].map(text => find(ctx, text));
+
+    expect(ctx.images.map(image => image.image.src)).toEqual(['/tmp/avatar.jpg']);
+    // The banner is replaced by an accent stripe down the left edge
+    expect(ctx.rects).toContainEqual(expect.objectContaining({ left: 0, top: 0, bottom: 630, fillStyle: colors.accentColor }));
+
+    expect(name.left).toBeGreaterThan(avatar.right);
+    expect(handle.left).toBe(name.left);
+    expect(name.top).toBeGreaterThanOrEqual(avatar.top);
+    expect(handle.top).toBeGreaterThan(name.top);
+    expect(handle.top).toBeLessThan(avatar.bottom);
+
+    // One line of stats along the bottom, in order
+    expect(stats.every(stat => stat.top === stats[0].top)).toBe(true);
+    expect(stats[0].top).toBeGreaterThan(315);
+    expect(stats.map(stat => stat.left)).toEqual([...stats.map(stat => stat.left)].sort((a, b) => a - b));
+  });
+});
@@ -0,0 +1,100 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { CardLocale } from '../locale';
+import { ProfileCardGenerator } from '../profileCardGenerator';
+import { CardGenerationOptions, StatMetric, STAT_METRICS } from '../types';
+import { DrawnText, RecordingCanvas } from './fixtures/canvas';
+import { createProfile } from './fixtures/profile';
+
+// The recording canvas measures 0.6em per character, like the SVG tests
+jest.mock('canvas', () => require('./fixtures/canvas').canvasModule);
+
+const LABELS = ['Followers', 'Following', 'Tweets', 'Listed', 'Likes', 'Media'];
+
+describe('card stats', () => {
+  let directory: string;
+
+  beforeAll(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'card-stats-'));
+  });
+
+  afterAll(() => fs.remove(directory));
+
+  async function render(options: CardGenerationOptions, metrics = {}): Promise<DrawnText[]> {
+    RecordingCanvas.contexts = [];
+    const profileData = createProfile({
+      description: '',
+      public_metrics: { followers_count: 12345, following_count: 678, tweet_count: 9012, listed_count: 34, like_count: 5678, media_count: 90, ...metrics }
+    });
+    const result = await new ProfileCardGenerator().generateCard({ profileData }, options, path.join(directory, 'card.png'));
+
+    expect(result.error).toBeUndefined();
+    return RecordingCanvas.contexts[0].texts;
+  }
+
+  it.each(['modern', 'classic', 'minimal', 'business'])('draws the %s stats in the order given', async cardStyle => {
+    const texts = await render({ cardStyle, stats: ['likes', 'followers', 'media'] });
+    const labels = texts.filter(text => LABELS.includes(text.text));
+
+    expect(labels.map(text => text.text)).toEqual(['Likes', 'Followers', 'Media']);
+    expect(labels.map(text => text.left)).toEqual([...labels.map(text => text.left)].sort((a, b) => a - b));
+    expect(texts.map(text => text.text)).toEqual(expect.arrayContaining(['5.7K', '12.3K', '90']));
+    expect(texts.map(text => text.text)).not.toContain('678');
+  });
+
+  it('rejects unknown stats', async () => {
+    const result = await new ProfileCardGenerator().generateCard(
+      { profileData: createProfile() },
+      { stats: ['followers', 'views' as StatMetric] },
+      path.join(directory, 'unknown.png')
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe(`Invalid stat "views". Expected any of ${STAT_METRICS.join(', ')}`);
+  });
+
+  it('defaults to followers, following and tweets', async () => {
+    const texts = await render({});
+
+    expect(texts.filter(text => LABELS.includes(text.text)).map(text => text.text)).toEqual(['Followers', 'Following', 'Tweets']);
+  });
+
+  it.each(['modern', 'classic', 'minimal', 'business'])('keeps large %s counts from overlapping', async cardStyle => {
+    const huge = { followers_count: 987654321, following_count: 876543210, tweet_count: 765432109, listed_count: 654321, like_count: 543210987, media_count: 432109 };
+    const texts = await render({ cardStyle, stats: [...STAT_METRICS], locale: 'de' }, huge);
+    const labels = CardLocale.getLabels('de');
+    const expected = [
+      ...Object.values(huge).map(count => CardLocale.formatCount(count, 'de')),
+      ...STAT_METRICS.map(metric => labels[metric])
+    ];
+    const statTexts = texts.filter(text => expected.includes(text.text));
+
+    expect(statTexts.map(text => text.text).sort()).toEqual([...expected].sort());
+
+    // Texts on the same row, left to right, must not touch each other or run off the card
+    const rows = new Map<number, DrawnText[]>();
+    for (const text of statTexts) {
+      const row = Math.round(text.top);
+      rows.set(row, [...(rows.get(row) || []), text]);
+    }
+    for (const row of rows.values()) {
+      const sorted = row.sort((a, b) => a.left - b.left);
+      sorted.slice(1).forEach((text, index) => {
+        expect(text.left).toBeGreaterThanOrEqual(sorted[index].right);
+      });
+      expect(sorted[sorted.length - 1].right).toBeLessThanOrEqual(1200);
+    }
+  });
+
+  describe('parseStats', () => {
+    it('keeps the order of a --stats list', () => {
+      expect(ProfileCardGenerator.parseStats('likes, followers,,media')).toEqual(['likes', 'followers', 'media']);
+      expect(ProfileCardGenerator.parseStats(['listed', 'tweets'])).toEqual(['listed', 'tweets']);
+    });
+
+    it('rejects unknown metrics', () => {
+      expect(() => ProfileCardGenerator.parseStats('followers,views')).toThrow('Invalid stat "views". Expected any of followers, following, tweets, listed, likes, media');
+    });
+  });
+});
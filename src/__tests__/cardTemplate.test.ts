@@ -0,0 +1,166 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { CardTemplate, CardTemplateLoader } from '../cardTemplate';
+import { ProfileCardGenerator } from '../profileCardGenerator';
+import { TextFitter } from '../textFit';
+import { VerificationBadge } from '../verificationBadge';
+import { RecordingCanvas } from './fixtures/canvas';
+import { createProfile } from './fixtures/profile';
+
+jest.mock('canvas', () => require('./fixtures/canvas').canvasModule);
+
+describe('CardTemplateLoader', () => {
+  const template = (layers: unknown[]) => ({ name: 'test', width: 1200, height: 630, layers });
+
+  const errorsFor = (value: unknown): string[] => {
+    try {
+      CardTemplateLoader.validate(value, 'test.json');
+    } catch (error) {
+      return (error as Error).message.split('\n').slice(1).map(line => line.replace(/^  - /, ''));
+    }
+    throw new Error('Expected the template to be invalid');
+  };
+
+  it('loads the bundled template and resolves images next to it', async () => {
+    const templatePath = path.join(__dirname, '../../templates/modern.json');
+    const loaded = await CardTemplateLoader.load(templatePath);
+
+    expect(loaded.layers.length).toBeGreaterThan(0);
+    expect(loaded.baseDir).toBe(path.dirname(templatePath));
+  });
+
+  it('accepts one layer of each type', () => {
+    const value = template([
+      { type: 'image', source: 'avatar', x: 0, y: 0, width: 100, height: 100, shape: 'circle', focus: { x: 0.5, y: 0.2 } },
+      { type: 'text', field: 'name', x: 0, y: 0, font: { size: 32, weight: 700 } },
+      { type: 'shape', shape: 'line', x: 0, y: 0, width: 100, height: 0, stroke: '$divider' },
+      { type: 'badge', x: 0, y: 0, size: 24, visibleWhen: 'verified' }
+    ]);
+
+    expect(CardTemplateLoader.validate(value)).toBe(value);
+  });
+
+  it('reports the template\'s own fields', () => {
+    expect(errorsFor({ name: '', width: -1, layers: {} })).toEqual([
+      'name: expected a non-empty string, got ""',
+      'width: expected a positive number, got -1',
+      'height: is required',
+      'layers: expected an array of layers'
+    ]);
+  });
+
+  it('reports every layer problem with its index and id', () => {
+    expect(errorsFor(template([
+      { type: 'video', x: 0, y: 0 },
+      { id: 'title', type: 'text', x: 0, y: '10', opacity: 2, font: { size: 0, weight: 'heavy' } },
+      { type: 'image', source: 'avatar', x: 0, y: 0, width: 10, height: 10, fit: 'stretch', focus: { x: 1.5, y: 0 } },
+      { type: 'shape', shape: 'rect', x: 0, y: 0, width: 10, height: 10 },
+      'badge'
+    ]))).toEqual([
+      'layers[0].type: expected one of image, text, shape, badge, got "video"',
+      'layers[1] ("title").y: expected a number, got "10"',
+      'layers[1] ("title").opacity: expected a number between 0 and 1',
+      'layers[1] ("title"): a text layer needs either "field" or "text"',
+      'layers[1] ("title").font.size: expected a positive number, got 0',
+      'layers[1] ("title").font.weight: expected "normal", "bold" or a number',
+      'layers[2].fit: expected one of cover, contain, fill, got "stretch"',
+      'layers[2].focus.x: expected a number between 0 and 1',
+      'layers[3]: a shape layer needs a "fill" or a "stroke"',
+      'layers[4]: expected an object'
+    ]);
+  });
+
+  it('rejects unknown text fields', () => {
+    expect(errorsFor(template([{ type: 'text', field: 'email', x: 0, y: 0, font: { size: 12 } }]))[0])
+      .toMatch(/^layers\[0\]\.field: expected one of name, username, .*, got "email"$/);
+  });
+
+  it('rejects files that aren\'t JSON', async () => {
+    await expect(CardTemplateLoader.load(path.join(__dirname, '../../README.md'))).rejects.toThrow('is not valid JSON');
+  });
+});
+
+describe('TemplateLayout', () => {
+  const template: CardTemplate = {
+    name: 'badge',
+    width: 600,
+    height: 300,
+    layers: [{ type: 'badge', x: 20, y: 20, size: 32 }]
+  };
+  let directory: string;
+  let draw: jest.SpyInstance;
+
+  beforeAll(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'template-card-'));
+  });
+
+  afterAll(() => fs.remove(directory));
+
+  beforeEach(() => {
+    draw = jest.spyOn(VerificationBadge, 'draw');
+  });
+
+  afterEach(() => draw.mockRestore());
+
+  const render = (verified: boolean) => new ProfileCardGenerator().generateCard(
+    { profileData: createProfile({ verified, verified_type: verified ? 'business' : undefined }) },
+    { template },
+    path.join(directory, `badge-${verified}.png`)
+  );
+
+  it('draws the profile\'s badge in badge layers', async () => {
+    await render(true);
+
+    expect(draw).toHaveBeenCalledWith(expect.anything(), 'business', 20, 20, 32, undefined);
+  });
+
+  it('draws no badge for unverified profiles', async () => {
+    const result = await render(false);
+
+    expect(result.success).toBe(true);
+    expect(draw).not.toHaveBeenCalled();
+  });
+});
+
+describe('TemplateLayout text', () => {
+  let directory: string;
+
+  beforeAll(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'template-text-'));
+  });
+
+  afterAll(() => fs.remove(directory));
+
+  it('fits text layers without a maxWidth on one line inside the card', async () => {
+    const template: CardTemplate = {
+      name: 'text',
+      width: 600,
+      height: 315,
+      layers: [
+        { type: 'text', field: 'description', x: 400, y: 20, font: { size: 24 } },
+        { type: 'text', field: 'name', x: 100, y: 80, font: { size: 24 }, align: 'right' },
+        { type: 'text', field: 'username', x: 550, y: 140, font: { size: 24 }, align: 'center' }
+      ]
+    };
+    const fit = jest.spyOn(TextFitter, 'fit');
+    RecordingCanvas.contexts = [];
+
+    const result = await new ProfileCardGenerator().generateCard(
+      { profileData: createProfile({ description: 'A bio far too long for the room left on the right' }) },
+      { template },
+      path.join(directory, 'text.png')
+    );
+    const texts = RecordingCanvas.contexts[0].texts;
+
+    expect(result.success).toBe(true);
+    expect(fit).toHaveBeenCalledTimes(3);
+    expect(texts).toHaveLength(3);
+    expect(texts[0].text).toMatch(/…$/);
+    for (const text of texts) {
+      expect(text.left).toBeGreaterThanOrEqual(0);
+      expect(text.right).toBeLessThanOrEqual(1200);
+    }
+    fit.mockRestore();
+  });
+});
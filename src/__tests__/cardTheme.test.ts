@@ -0,0 +1,50 @@
+import { CardThemes, CARD_THEMES } from '../cardTheme';
+
+describe('CardThemes', () => {
+  describe('resolve', () => {
+    it('finds built-in themes case-insensitively', async () => {
+      await expect(CardThemes.resolve('Lights-Out')).resolves.toBe(CARD_THEMES['lights-out']);
+    });
+
+    it.each(['constructor', '__proto__', 'toString'])('rejects the Object.prototype key %s', async name => {
+      await expect(CardThemes.resolve(name)).rejects.toThrow(`Unknown theme "${name}"`);
+    });
+  });
+
+  describe('getValues', () => {
+    it('leaves out the theme name', () => {
+      expect(CardThemes.getValues(CARD_THEMES.dim)).toEqual({
+        backgroundColor: '#15202b',
+        textColor: '#f7f9f9',
+        secondaryTextColor: '#8b98a5',
+        accentColor: '#1d9bf0',
+        dividerColor: '#38444d'
+      });
+    });
+
+    it('leaves out unset values so they fall through to the defaults', () => {
+      expect(CardThemes.getValues({ name: 'mono', fontFamily: 'JetBrains Mono', avatarBorderWidth: 0 }))
+        .toEqual({ fontFamily: 'JetBrains Mono', avatarBorderWidth: 0 });
+    });
+  });
+
+  describe('validate', () => {
+    it('names the source when the theme has no name', () => {
+      expect(CardThemes.validate({ accentColor: '#ff0000' }, 'red.json')).toEqual({ name: 'red.json', accentColor: '#ff0000' });
+    });
+
+    it('lists every problem', () => {
+      expect(() => CardThemes.validate({ accentColour: '#ff0000', textColor: '', avatarBorderWidth: -1 }, 'broken.json'))
+        .toThrow([
+          'Invalid theme broken.json:',
+          '  - accentColour: unknown property, expected one of name, fontFamily, avatarBorderWidth, backgroundColor, textColor, secondaryTextColor, accentColor, dividerColor',
+          '  - textColor: expected a non-empty string, got ""',
+          '  - avatarBorderWidth: expected a number of at least 0, got -1'
+        ].join('\n'));
+    });
+
+    it('rejects non-objects', () => {
+      expect(() => CardThemes.validate([], 'list.json')).toThrow('Invalid theme list.json: expected a JSON object');
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import { ColorPalette, MIN_ACCENT_CONTRAST, MIN_TEXT_CONTRAST, PaletteColor, PaletteTheme } from '../colorPalette';
+
+/**
+ * Test images by file name: each fills the sampled 64x64 pixels from the top
+ * down with [color, share of the rows] bands
+ */
+const IMAGES: Record<string, Array<[[number, number, number, number], number]>> = {
+  'red.png': [[[204, 34, 34, 255], 1]],
+  'blue.png': [[[34, 34, 204, 255], 1]],
+  'banner.png': [[[204, 34, 34, 255], 0.75], [[34, 34, 204, 255], 0.25]],
+  'transparent.png': [[[255, 255, 255, 0], 1]]
+};
+
+// Stand-in canvas whose getImageData returns the bands of the last drawn image
+jest.mock('canvas', () => ({
+  loadImage: async (src: string) => {
+    if (!IMAGES[src]) {
+      throw new Error(`ENOENT: ${src}`);
+    }
+    return { src };
+  },
+  createCanvas: (width: number, height: number) => {
+    let src = '';
+    return {
+      getContext: () => ({
+        drawImage: (image: { src: string }) => { src = image.src; },
+        getImageData: () => {
+          const data = new Uint8ClampedArray(width * height * 4);
+          let row = 0;
+          for (const [color, share] of IMAGES[src]) {
+            const rows = Math.round(share * height);
+            for (let y = row; y < row + rows; y++) {
+              for (let x = 0; x < width; x++) {
+                data.set(color, (y * width + x) * 4);
+              }
+            }
+            row += rows;
+          }
+          return { data };
+        }
+      })
+    };
+  }
+}));
+
+const color = (hex: string, weight: number): PaletteColor => {
+  const [r, g, b] = ColorPalette.parseHex(hex);
+  return { r, g, b, hex, weight };
+};
+
+describe('ColorPalette', () => {
+  describe('extract', () => {
+    it('weights colors by the area they cover, largest first', async () => {
+      const palette = await ColorPalette.extract(['banner.png']);
+
+      expect(palette.map(({ hex, weight }) => [hex, weight])).toEqual([['#cc2222', 0.75], ['#2222cc', 0.25]]);
+    });
+
+    it('samples later images less than earlier ones', async () => {
+      const palette = await ColorPalette.extract(['red.png', 'blue.png']);
+
+      expect(palette.map(entry => entry.hex)).toEqual(['#cc2222', '#2222cc']);
+      expect(palette[0].weight).toBeCloseTo(2 / 3);
+    });
+
+    it('returns no colors when nothing could be sampled', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+      expect(await ColorPalette.extract(['transparent.png', 'missing.png'])).toEqual([]);
+      expect(warn).toHaveBeenCalledWith('Failed to sample colors from missing.png:', expect.any(Error));
+      warn.mockRestore();
+    });
+  });
+
+  describe('pickTheme', () => {
+    it.each([
+      ['light', [color('#f4efe6', 0.6), color('#e9c46a', 0.25), color('#2a9d8f', 0.15)]],
+      ['dark', [color('#101820', 0.7), color('#f2aa4c', 0.2), color('#3a3f44', 0.1)]],
+      ['mid-tone', [color('#7a8ca0', 0.5), color('#d95d39', 0.5)]],
+      ['greyscale', [color('#808080', 0.5), color('#c0c0c0', 0.3), color('#404040', 0.2)]],
+      ['mid-grey', [color('#767676', 1)]],
+      ['single white', [color('#ffffff', 1)]]
+    ])('keeps text and accents readable on a %s palette', (_, palette) => {
+      const theme = ColorPalette.pickTheme(palette);
+
+      expect(ColorPalette.contrastRatio(theme.textColor, theme.backgroundColor)).toBeGreaterThanOrEqual(MIN_TEXT_CONTRAST);
+      expect(ColorPalette.contrastRatio(theme.secondaryTextColor, theme.backgroundColor)).toBeGreaterThanOrEqual(MIN_TEXT_CONTRAST);
+      expect(ColorPalette.contrastRatio(theme.accentColor, theme.backgroundColor)).toBeGreaterThanOrEqual(MIN_ACCENT_CONTRAST);
+    });
+
+    it('builds the background from the dominant color', () => {
+      const theme = ColorPalette.pickTheme([color('#101820', 0.7), color('#f2aa4c', 0.3)]);
+
+      expect(theme.backgroundColor).toBe('#101820');
+      expect(theme.textColor).toBe('#ffffff');
+      expect(theme.accentColor).toBe('#f2aa4c');
+    });
+
+    it('uses the fallback accent for greyscale palettes', () => {
+      const theme = ColorPalette.pickTheme([color('#202020', 1)]);
+
+      expect(theme.accentColor).toBe('#1d9bf0');
+    });
+
+    it('returns the fallback for an empty palette', () => {
+      const fallback: PaletteTheme = {
+        backgroundColor: '#ffffff',
+        textColor: '#000000',
+        secondaryTextColor: '#555555',
+        accentColor: '#e63946',
+        dividerColor: '#dddddd'
+      };
+
+      expect(ColorPalette.pickTheme([])).toEqual({
+        backgroundColor: '#000000',
+        textColor: '#ffffff',
+        secondaryTextColor: '#71767b',
+        accentColor: '#1d9bf0',
+        dividerColor: '#2f3336'
+      });
+      expect(ColorPalette.pickTheme([], fallback)).toBe(fallback);
+    });
+  });
+
+  describe('contrastRatio', () => {
+    it('follows the WCAG formula for hex strings and RGB triples', () => {
+      expect(ColorPalette.contrastRatio('#000000', '#ffffff')).toBeCloseTo(21);
+      expect(ColorPalette.contrastRatio([255, 255, 255], [0, 0, 0])).toBeCloseTo(21);
+      expect(ColorPalette.contrastRatio('#1d9bf0', '#1d9bf0')).toBe(1);
+      // #767676 is the lightest grey with AA contrast on white
+      expect(ColorPalette.contrastRatio('#767676', '#fff')).toBeCloseTo(4.54, 2);
+    });
+  });
+});
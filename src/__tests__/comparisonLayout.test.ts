@@ -0,0 +1,112 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { ProfileCardGenerator } from '../profileCardGenerator';
+import { CardAssets, TwitterUser } from '../types';
+import { RecordingCanvas } from './fixtures/canvas';
+import { createProfile } from './fixtures/profile';
+
+jest.mock('canvas', () => require('./fixtures/canvas').canvasModule);
+
+const colors = {
+  backgroundColor: '#ffffff',
+  textColor: '#000000',
+  secondaryTextColor: '#00ff00',
+  accentColor: '#ff0000',
+  dividerColor: '#0000ff'
+};
+
+function createAssets(username: string, metrics: Partial<TwitterUser['public_metrics']>): CardAssets {
+  return {
+    profileData: createProfile({
+      username,
+      name: username,
+      public_metrics: { followers_count: 0, following_count: 0, tweet_count: 0, listed_count: 0, like_count: 0, media_count: 0, ...metrics }
+    })
+  };
+}
+
+describe('ComparisonLayout', () => {
+  let directory: string;
+
+  beforeAll(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'comparison-'));
+  });
+
+  afterAll(() => fs.remove(directory));
+
+  beforeEach(() => {
+    RecordingCanvas.contexts = [];
+  });
+
+  /**
+   * Compare the profiles and return the filled part of every bar, column by column
+   */
+  async function renderBars(profiles: CardAssets[], stats: Array<'followers' | 'following' | 'likes'>) {
+    const result = await new ProfileCardGenerator().generateComparisonCard(
+      profiles,
+      { stats, ...colors },
+      path.join(directory, 'comparison.png')
+    );
+
+    expect(result.error).toBeUndefined();
+    const { rects, texts } = RecordingCanvas.contexts[0];
+    const tracks = rects.filter(rect => rect.fillStyle === colors.dividerColor && rect.right - rect.left > 1);
+    const bars = rects
+      .filter(rect => rect.fillStyle === colors.accentColor || rect.fillStyle === colors.secondaryTextColor)
+      .map(rect => {
+        const track = tracks.find(candidate => candidate.left === rect.left && candidate.top === rect.top)!;
+        return { track: tracks.indexOf(track), share: (rect.right - rect.left) / (track.right - track.left), fillStyle: rect.fillStyle };
+      });
+    return { bars, tracks, texts };
+  }
+
+  it('scales each bar to the largest value across the profiles', async () => {
+    const { bars, tracks } = await renderBars([
+      createAssets('alice', { followers_count: 1000, following_count: 40 }),
+      createAssets('bob', { followers_count: 250, following_count: 80 }),
+      createAssets('carol', { followers_count: 500, following_count: 20 })
+    ], ['followers', 'following']);
+
+    // One track per profile and stat, in column order
+    expect(tracks).toHaveLength(6);
+    expect(bars.map(bar => [bar.track, bar.share])).toEqual([
+      [0, 1], [1, 0.5],
+      [2, 0.25], [3, 1],
+      [4, 0.5], [5, 0.25]
+    ]);
+  });
+
+  it('draws the leader\'s bar in the accent color and the others in the secondary color', async () => {
+    const { bars } = await renderBars([
+      createAssets('alice', { followers_count: 1000 }),
+      createAssets('bob', { followers_count: 250 }),
+      createAssets('carol', { followers_count: 1000 })
+    ], ['followers']);
+
+    expect(bars.map(bar => bar.fillStyle)).toEqual([colors.accentColor, colors.secondaryTextColor, colors.accentColor]);
+  });
+
+  it('leaves the track empty for zero values and stats nobody has', async () => {
+    const { bars, tracks, texts } = await renderBars([
+      createAssets('alice', { followers_count: 0 }),
+      createAssets('bob', { followers_count: 300 })
+    ], ['followers', 'likes']);
+
+    expect(tracks).toHaveLength(4);
+    expect(bars.map(bar => bar.track)).toEqual([2]);
+    expect(texts.filter(text => text.text === '0')).toHaveLength(3);
+  });
+
+  it('needs at least two profiles', async () => {
+    const result = await new ProfileCardGenerator().generateComparisonCard(
+      [createAssets('alice', { followers_count: 1000 })],
+      {},
+      path.join(directory, 'single.png')
+    );
+
+    expect(result).toEqual({ success: false, error: 'A comparison needs at least two profiles' });
+    expect(RecordingCanvas.contexts).toHaveLength(0);
+    expect(await fs.pathExists(path.join(directory, 'single.png'))).toBe(false);
+  });
+});
@@ -0,0 +1,75 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { CSVExporter } from '../csvExporter';
+import { createProfile } from './fixtures/profile';
+
+describe('CSVExporter', () => {
+  const exporter = new CSVExporter();
+
+  describe('parseCSVContent', () => {
+    it('keys rows by the header row', () => {
+      expect(exporter.parseCSVContent('username,name\nhhaider__,Hamzah Haider\njack,jack\n')).toEqual([
+        { username: 'hhaider__', name: 'Hamzah Haider' },
+        { username: 'jack', name: 'jack' }
+      ]);
+    });
+
+    it('keeps commas, escaped quotes and newlines inside quoted fields', () => {
+      const content = 'username,description,location\n'
+        + 'hhaider__,"Building things,\nshipping ""fast""\n\nand learning",London\n'
+        + 'jack,"",\n';
+
+      expect(exporter.parseCSVContent(content)).toEqual([
+        { username: 'hhaider__', description: 'Building things,\nshipping "fast"\n\nand learning', location: 'London' },
+        { username: 'jack', description: '', location: '' }
+      ]);
+    });
+
+    it('handles CRLF line endings, blank lines and a missing final newline', () => {
+      expect(exporter.parseCSVContent('username,bio\r\n\r\nhhaider__,"a\r\nb"\r\njack,c')).toEqual([
+        { username: 'hhaider__', bio: 'a\r\nb' },
+        { username: 'jack', bio: 'c' }
+      ]);
+    });
+
+    it('fills columns missing from short rows', () => {
+      expect(exporter.parseCSVContent('username,name,location\nhhaider__,Hamzah Haider')).toEqual([
+        { username: 'hhaider__', name: 'Hamzah Haider', location: '' }
+      ]);
+    });
+
+    it('returns no rows for empty content', () => {
+      expect(exporter.parseCSVContent('')).toEqual([]);
+    });
+  });
+
+  describe('createMasterCSV', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), 'csv-export-'));
+    });
+
+    afterEach(() => fs.remove(directory));
+
+    it('reads back multiline bios from every profile', async () => {
+      const profiles = [
+        createProfile({ description: 'Building things,\non the "web"' }),
+        createProfile({ id: '2', username: 'jack', name: 'jack', description: 'just setting up my twttr' })
+      ];
+      for (const profile of profiles) {
+        const userDir = path.join(directory, profile.username);
+        await fs.ensureDir(userDir);
+        await exporter.exportProfileData(profile, userDir);
+      }
+
+      const rows = exporter.parseCSVContent(await fs.readFile(await exporter.createMasterCSV(directory), 'utf8'));
+
+      expect(rows.map(row => [row.username, row.description])).toEqual([
+        ['hhaider__', 'Building things,\non the "web"'],
+        ['jack', 'just setting up my twttr']
+      ]);
+    });
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * Stand-in for node-canvas, for tests that render layouts without the native
+ * binding. Use it from a mock factory:
+ *
+ *   jest.mock('canvas', () => require('./fixtures/canvas').canvasModule);
+ *
+ * Contexts record every fillText with its box in device pixels (after the
+ * current transform), measuring every character as 0.6em wide like the SVG tests.
+ */
+
+type Matrix = [number, number, number, number, number, number];
+
+/**
+ * A fillText call, placed by the current transform, alignment and a top baseline
+ */
+export interface DrawnText {
+  text: string;
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+  fillStyle: string;
+  font: string;
+  /** Page the text was drawn on, counting from 0; only PDF canvases have more than one */
+  page: number;
+}
+
+/**
+ * A fillRect call, placed by the current transform
+ */
+export interface DrawnRect {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+  fillStyle: string;
+  page: number;
+}
+
+export interface RecordedImage {
+  width: number;
+  height: number;
+  src: string;
+}
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+function multiply([a, b, c, d, e, f]: Matrix, [a2, b2, c2, d2, e2, f2]: Matrix): Matrix {
+  return [a * a2 + c * b2, b * a2 + d * b2, a * c2 + c * d2, b * c2 + d * d2, a * e2 + c * f2 + e, b * e2 + d * f2 + f];
+}
+
+export function getFontSize(font: string): number {
+  return parseFloat(font.match(/(\d+(?:\.\d+)?)px/)?.[1] || '10');
+}
+
+/**
+ * Records what layouts draw. Paths, clips and images are accepted and ignored.
+ */
+export class RecordingContext {
+  texts: DrawnText[] = [];
+  rects: DrawnRect[] = [];
+  images: Array<{ image: RecordedImage; left: number; top: number; right: number; bottom: number }> = [];
+  page = 0;
+
+  fillStyle: unknown = '#000000';
+  strokeStyle: unknown = '#000000';
+  lineWidth = 1;
+  lineCap = 'butt';
+  lineJoin = 'miter';
+  font = '10px sans-serif';
+  textAlign = 'start';
+  textBaseline = 'alphabetic';
+  direction = 'ltr';
+  globalAlpha = 1;
+  antialias = 'default';
+
+  private matrix: Matrix = IDENTITY;
+  private stack: Array<Record<string, unknown>> = [];
+  private lineDash: number[] = [];
+
+  save(): void {
+    this.stack.push({
+      matrix: this.matrix, fillStyle: this.fillStyle, strokeStyle: this.strokeStyle, lineWidth: this.lineWidth,
+      font: this.font, textAlign: this.textAlign, textBaseline: this.textBaseline, direction: this.direction,
+      globalAlpha: this.globalAlpha
+    });
+  }
+
+  restore(): void {
+    Object.assign(this, this.stack.pop() || {});
+  }
+
+  translate(x: number, y: number): void {
+    this.matrix = multiply(this.matrix, [1, 0, 0, 1, x, y]);
+  }
+
+  scale(x: number, y: number): void {
+    this.matrix = multiply(this.matrix, [x, 0, 0, y, 0, 0]);
+  }
+
+  rotate(angle: number): void {
+    this.matrix = multiply(this.matrix, [Math.cos(angle), Math.sin(angle), -Math.sin(angle), Math.cos(angle), 0, 0]);
+  }
+
+  transform(a: number, b: number, c: number, d: number, e: number, f: number): void {
+    this.matrix = multiply(this.matrix, [a, b, c, d, e, f]);
+  }
+
+  measureText(text: string) {
+    const size = getFontSize(this.font);
+    return { width: Array.from(text).length * size * 0.6, emHeightAscent: size * 0.8, emHeightDescent: size * 0.2, actualBoundingBoxAscent: size * 0.8, actualBoundingBoxDescent: size * 0.2 };
+  }
+
+  fillText(text: string, x: number, y: number): void {
+    const width = this.measureText(text).width;
+    const size = getFontSize(this.font);
+    const rtl = this.direction === 'rtl';
+    const left = this.textAlign === 'center' ? x - width / 2
+      : this.textAlign === 'right' || (this.textAlign === 'end' && !rtl) || (this.textAlign === 'start' && rtl) ? x - width
+      : x;
+    const top = this.textBaseline === 'top' ? y
+      : this.textBaseline === 'middle' ? y - size / 2
+      : this.textBaseline === 'bottom' ? y - size
+      : y - size * 0.8;
+    this.texts.push({ text, ...this.toDevice(left, top, width, size), fillStyle: String(this.fillStyle), font: this.font, page: this.page });
+  }
+
+  fillRect(x: number, y: number, width: number, height: number): void {
+    this.rects.push({ ...this.toDevice(x, y, width, height), fillStyle: String(this.fillStyle), page: this.page });
+  }
+
+  drawImage(image: RecordedImage, x: number, y: number, width = image.width, height = image.height): void {
+    this.images.push({ image, ...this.toDevice(x, y, width, height) });
+  }
+
+  createLinearGradient() {
+    return { addColorStop: () => undefined };
+  }
+
+  setLineDash(segments: number[]): void {
+    this.lineDash = segments;
+  }
+
+  getLineDash(): number[] {
+    return this.lineDash;
+  }
+
+  addPage(): void {
+    this.page++;
+  }
+
+  beginPath(): void {}
+  moveTo(): void {}
+  lineTo(): void {}
+  closePath(): void {}
+  rect(): void {}
+  arc(): void {}
+  arcTo(): void {}
+  quadraticCurveTo(): void {}
+  bezierCurveTo(): void {}
+  fill(): void {}
+  stroke(): void {}
+  clip(): void {}
+  strokeRect(): void {}
+  clearRect(): void {}
+  strokeText(): void {}
+
+  private toDevice(x: number, y: number, width: number, height: number) {
+    const [a, b, c, d, e, f] = this.matrix;
+    const xs: number[] = [];
+    const ys: number[] = [];
+    for (const [px, py] of [[x, y], [x + width, y], [x, y + height], [x + width, y + height]]) {
+      xs.push(a * px + c * py + e);
+      ys.push(b * px + d * py + f);
+    }
+    return { left: Math.min(...xs), top: Math.min(...ys), right: Math.max(...xs), bottom: Math.max(...ys) };
+  }
+}
+
+/**
+ * Canvas whose context is kept on `contexts` so tests can read what was drawn
+ */
+export class RecordingCanvas {
+  static contexts: RecordingContext[] = [];
+
+  readonly context = new RecordingContext();
+
+  constructor(readonly width: number, readonly height: number, readonly type?: string) {
+    RecordingCanvas.contexts.push(this.context);
+  }
+
+  getContext(): RecordingContext {
+    return this.context;
+  }
+
+  toBuffer(): Buffer {
+    return Buffer.from(`${this.type || 'image'} ${this.width}x${this.height} pages:${this.context.page + 1}`);
+  }
+}
+
+/**
+ * Mock for the canvas module. loadImage resolves to a 400x400 image for any
+ * path whose file name doesn't contain "missing".
+ */
+export const canvasModule = {
+  Canvas: RecordingCanvas,
+  createCanvas: (width: number, height: number, type?: string) => new RecordingCanvas(width, height, type),
+  loadImage: async (src: string): Promise<RecordedImage> => {
+    if (src.includes('missing')) {
+      throw new Error(`ENOENT: ${src}`);
+    }
+    return { width: 400, height: 400, src };
+  },
+  registerFont: () => undefined
+};
@@ -0,0 +1,31 @@
+import { TwitterUser, TwitterProfileData } from '../../types';
+
+/**
+ * API user object for tests, with realistic counts
+ */
+export function createUser(overrides: Partial<TwitterUser> = {}): TwitterUser {
+  return {
+    id: '1234567890',
+    name: 'Hamzah Haider',
+    username: 'hhaider__',
+    description: 'Building things on the web',
+    profile_image_url: 'https://pbs.twimg.com/profile_images/1/avatar_normal.jpg',
+    profile_banner_url: 'https://pbs.twimg.com/profile_banners/1/1500x500',
+    verified: false,
+    public_metrics: {
+      followers_count: 12345,
+      following_count: 678,
+      tweet_count: 9012,
+      listed_count: 34,
+      like_count: 5678,
+      media_count: 90
+    },
+    subscription: { subscribes_to_you: false },
+    subscription_type: 'None',
+    ...overrides
+  };
+}
+
+export function createProfile(overrides: Partial<TwitterUser> = {}): TwitterProfileData {
+  return new TwitterProfileData(createUser(overrides));
+}
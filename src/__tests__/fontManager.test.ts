@@ -0,0 +1,45 @@
+import { FontManager, DEFAULT_FONT_FALLBACKS } from '../fontManager';
+
+// Only family names and font-family strings are under test; nothing is registered
+jest.mock('canvas', () => ({ registerFont: jest.fn() }));
+
+describe('FontManager', () => {
+  describe('getFamily', () => {
+    it('derives the family from the file name', () => {
+      expect(FontManager.getFamily({ path: 'fonts/NotoSansArabic-Bold.ttf' })).toBe('Noto Sans Arabic');
+    });
+
+    it('prefers the given family', () => {
+      expect(FontManager.getFamily({ path: 'fonts/Inter-Bold.ttf', family: 'Inter Display' })).toBe('Inter Display');
+    });
+  });
+
+  describe('buildFontFamily', () => {
+    it('adds fallbacks only for the scripts in the text', () => {
+      const family = FontManager.buildFontFamily('Inter, sans-serif', 'Hamzah 🚀');
+
+      expect(family.startsWith('Inter, "Noto Sans"')).toBe(true);
+      expect(family).toContain('"Noto Color Emoji"');
+      expect(family).not.toContain('"Noto Sans CJK SC"');
+      expect(family.endsWith(', sans-serif')).toBe(true);
+    });
+
+    it('always ends the chain with the emoji fallbacks', () => {
+      const family = FontManager.buildFontFamily('Inter', 'Made in 🇬🇧');
+
+      expect(family).toBe(`Inter, ${[...DEFAULT_FONT_FALLBACKS.latin, ...DEFAULT_FONT_FALLBACKS.emoji].map(name => /\s/.test(name) ? `"${name}"` : name).join(', ')}, sans-serif`);
+    });
+
+    it('uses per-script overrides', () => {
+      const family = FontManager.buildFontFamily('Inter', '東京', { cjk: ['Source Han Sans'] });
+
+      expect(family).toContain('"Source Han Sans"');
+      expect(family).not.toContain(DEFAULT_FONT_FALLBACKS.cjk[0]);
+    });
+  });
+
+  it('detects right-to-left text from its first strong character', () => {
+    expect(FontManager.isRtl('  مرحبا hello')).toBe(true);
+    expect(FontManager.isRtl('hello مرحبا')).toBe(false);
+  });
+});
@@ -0,0 +1,74 @@
+import * as crypto from 'crypto';
+import { GoogleWalletExporter } from '../googleWalletExporter';
+import { createProfile } from './fixtures/profile';
+
+describe('GoogleWalletExporter', () => {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const exporter = new GoogleWalletExporter({
+    issuerId: '3388000000012345678',
+    serviceAccount: {
+      client_email: 'wallet@x-card-maker.iam.gserviceaccount.com',
+      private_key: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+      private_key_id: 'key-1'
+    },
+    origins: ['https://hhaider.dev']
+  });
+  const assets = { profileData: createProfile(), profileImagePath: '/tmp/avatar.jpg' };
+
+  const decode = (part: string) => JSON.parse(Buffer.from(part, 'base64url').toString('utf8'));
+
+  it('signs the save JWT with RS256', () => {
+    const [header, claims, signature] = exporter.createSaveJwt(assets).split('.');
+
+    expect(decode(header)).toEqual({ alg: 'RS256', typ: 'JWT', kid: 'key-1' });
+    expect(crypto.verify('RSA-SHA256', Buffer.from(`${header}.${claims}`), publicKey, Buffer.from(signature, 'base64url'))).toBe(true);
+    expect(crypto.verify('RSA-SHA256', Buffer.from(`${header}.${claims}x`), publicKey, Buffer.from(signature, 'base64url'))).toBe(false);
+  });
+
+  it('puts the generic class and object in the JWT payload', () => {
+    const issuedAt = new Date('2026-10-19T12:00:00Z');
+    const claims = decode(exporter.createSaveJwt(assets, issuedAt).split('.')[1]);
+
+    expect(claims).toMatchObject({
+      iss: 'wallet@x-card-maker.iam.gserviceaccount.com',
+      aud: 'google',
+      typ: 'savetowallet',
+      iat: issuedAt.getTime() / 1000,
+      origins: ['https://hhaider.dev']
+    });
+    expect(claims.payload.genericClasses).toEqual([{ id: '3388000000012345678.x_card_maker' }]);
+    expect(claims.payload.genericObjects[0]).toEqual(exporter.createGenericObject(assets));
+  });
+
+  it('describes the profile in the generic object', () => {
+    const object = exporter.createGenericObject(assets);
+
+    expect(object).toMatchObject({
+      id: '3388000000012345678.hhaider__',
+      classId: '3388000000012345678.x_card_maker',
+      state: 'ACTIVE',
+      header: { defaultValue: { language: 'en-US', value: 'Hamzah Haider' } },
+      subheader: { defaultValue: { language: 'en-US', value: '@hhaider__' } },
+      barcode: { type: 'QR_CODE', value: 'https://twitter.com/hhaider__' },
+      logo: { sourceUri: { uri: 'https://pbs.twimg.com/profile_images/1/avatar_normal.jpg' } }
+    });
+    expect(object.textModulesData.map((module: { body: string }) => module.body))
+      .toEqual(['12.3K', '678', '9K', 'Building things on the web']);
+    // No banner was downloaded, so there's no hero image
+    expect(object.heroImage).toBeUndefined();
+  });
+
+  it('links to the save page with the JWT', () => {
+    const url = exporter.createSaveUrl(assets);
+
+    expect(url.startsWith('https://pay.google.com/gp/v/save/')).toBe(true);
+    expect(url.slice(GoogleWalletExporter.SAVE_URL.length).split('.')).toHaveLength(3);
+  });
+
+  it('rejects a non-numeric issuer ID', () => {
+    expect(() => new GoogleWalletExporter({
+      issuerId: 'issuer',
+      serviceAccount: { client_email: 'a@b.c', private_key: 'key' }
+    })).toThrow('numeric Google Wallet issuer ID');
+  });
+});
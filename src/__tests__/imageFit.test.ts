@@ -0,0 +1,56 @@
+import { Image } from 'canvas';
+import { CardRenderingContext } from '../renderingContext';
+import { ImageFitter } from '../imageFit';
+
+describe('ImageFitter', () => {
+  const banner = { x: 0, y: 0, width: 1200, height: 300 };
+
+  describe('getDrawRect', () => {
+    it('covers the box, cropping around the center by default', () => {
+      expect(ImageFitter.getDrawRect(1500, 500, banner)).toEqual({ x: 0, y: -50, width: 1200, height: 400 });
+    });
+
+    it('keeps the focal point in view when cropping', () => {
+      expect(ImageFitter.getDrawRect(1500, 500, banner, 'cover', { x: 0.5, y: 0 }).y).toBe(0);
+      expect(ImageFitter.getDrawRect(1500, 500, banner, 'cover', { x: 0.5, y: 1 }).y).toBe(-100);
+    });
+
+    it('contains the image inside the box', () => {
+      expect(ImageFitter.getDrawRect(400, 400, { x: 10, y: 20, width: 200, height: 100 }, 'contain'))
+        .toEqual({ x: 60, y: 20, width: 100, height: 100 });
+    });
+
+    it('stretches for fill and for images without a size', () => {
+      expect(ImageFitter.getDrawRect(400, 400, banner, 'fill')).toEqual(banner);
+      expect(ImageFitter.getDrawRect(0, 0, banner)).toEqual(banner);
+    });
+  });
+
+  it('draws the image clipped to the box', () => {
+    const image = { width: 1500, height: 500 } as Image;
+    const calls: string[] = [];
+    const ctx = new Proxy({}, {
+      get: (_, name: string) => (...args: unknown[]) => calls.push(`${name}(${args.filter(arg => arg !== image).join(',')})`)
+    });
+
+    ImageFitter.draw(ctx as CardRenderingContext, image, banner);
+
+    expect(calls).toEqual(['save()', 'beginPath()', 'rect(0,0,1200,300)', 'clip()', 'drawImage(0,-50,1200,400)', 'restore()']);
+  });
+
+  describe('parseFocus', () => {
+    it('parses X,Y', () => {
+      expect(ImageFitter.parseFocus(' 0.3, 0.5 ')).toEqual({ x: 0.3, y: 0.5 });
+      expect(ImageFitter.parseFocus('1,0')).toEqual({ x: 1, y: 0 });
+    });
+
+    it.each(['0.5', '1.5,0.5', '-0.1,0.5', 'top,left'])('rejects %s', value => {
+      expect(() => ImageFitter.parseFocus(value)).toThrow(`Invalid focal point "${value}"`);
+    });
+  });
+
+  it('parses fit modes', () => {
+    expect(ImageFitter.parseFit('contain')).toBe('contain');
+    expect(() => ImageFitter.parseFit('stretch')).toThrow('Invalid fit mode "stretch". Expected one of cover, contain, fill');
+  });
+});
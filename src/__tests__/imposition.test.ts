@@ -0,0 +1,78 @@
+import { CanvasRenderingContext2D } from 'canvas';
+import { Imposition, SHEET_SIZES } from '../imposition';
+
+// Only the sheet math is under test; rendering the PDF needs the native binding
+jest.mock('canvas', () => ({ createCanvas: jest.fn(), loadImage: jest.fn() }));
+
+describe('Imposition', () => {
+  describe('parseSheetSize', () => {
+    it('accepts sheet names and WIDTHxHEIGHT in inches', () => {
+      expect(Imposition.parseSheetSize(' A4 ')).toBe(SHEET_SIZES.a4);
+      expect(Imposition.parseSheetSize('8.5 X 11')).toEqual({ width: 8.5, height: 11 });
+    });
+
+    it.each(['constructor', '__proto__', 'poster', '8.5x'])('rejects %s', value => {
+      expect(() => Imposition.parseSheetSize(value)).toThrow(`Invalid sheet size "${value}"`);
+    });
+  });
+
+  describe('resolve', () => {
+    it('fits 8 business cards on a Letter sheet, centered inside the margins', () => {
+      const grid = Imposition.resolve();
+
+      expect(grid).toMatchObject({ sheetWidth: 8.5, sheetHeight: 11, columns: 2, rows: 4 });
+      expect(grid.originX).toBeCloseTo(0.625);
+      expect(grid.originY).toBeCloseTo(1.125);
+    });
+
+    it('fits 10 cards without gutters', () => {
+      expect(Imposition.resolve({ gutter: 0 })).toMatchObject({ columns: 2, rows: 5 });
+    });
+
+    it('turns the sheet when that fits more cards', () => {
+      const grid = Imposition.resolve({ cardWidth: 4, cardHeight: 3 });
+
+      expect(grid).toMatchObject({ sheetWidth: 11, sheetHeight: 8.5, columns: 2, rows: 2 });
+    });
+
+    it('keeps the requested orientation', () => {
+      expect(Imposition.resolve({ cardWidth: 4, cardHeight: 3, orientation: 'portrait' }))
+        .toMatchObject({ sheetWidth: 8.5, sheetHeight: 11, columns: 1, rows: 3 });
+    });
+
+    it('rejects cards that don\'t fit and invalid lengths', () => {
+      expect(() => Imposition.resolve({ cardWidth: 12 })).toThrow('card doesn\'t fit on a letter sheet');
+      expect(() => Imposition.resolve({ cardHeight: 0 })).toThrow('Invalid card size');
+      expect(() => Imposition.resolve({ gutter: -0.1 })).toThrow('must not be negative');
+      expect(() => Imposition.resolve({ copies: 1.5 })).toThrow('Invalid copies');
+    });
+  });
+
+  it('places slots left to right, then top to bottom', () => {
+    const grid = Imposition.resolve();
+
+    expect(Imposition.getSlotPosition(grid, 0)).toEqual({ x: grid.originX, y: grid.originY });
+    expect(Imposition.getSlotPosition(grid, 1)).toEqual({ x: grid.originX + 3.75, y: grid.originY });
+    expect(Imposition.getSlotPosition(grid, 3)).toEqual({ x: grid.originX + 3.75, y: grid.originY + 2.25 });
+  });
+
+  describe('drawCutMarks', () => {
+    const countMarks = (gutter: number) => {
+      const ctx = {
+        save: jest.fn(), restore: jest.fn(), beginPath: jest.fn(), stroke: jest.fn(), lineTo: jest.fn(), moveTo: jest.fn()
+      };
+      Imposition.drawCutMarks(ctx as unknown as CanvasRenderingContext2D, Imposition.resolve({ gutter }));
+      return ctx.moveTo.mock.calls.length;
+    };
+
+    it('marks every card edge above, below and beside the grid', () => {
+      // 4 vertical cut lines and 8 horizontal ones, each marked at both ends
+      expect(countMarks(0.25)).toBe(24);
+    });
+
+    it('marks shared edges once when there are no gutters', () => {
+      // 3 vertical cut lines and 6 horizontal ones
+      expect(countMarks(0)).toBe(18);
+    });
+  });
+});
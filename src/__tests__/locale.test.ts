@@ -0,0 +1,58 @@
+import { CardLocale, STAT_LABELS } from '../locale';
+
+describe('CardLocale', () => {
+  describe('formatCount', () => {
+    it('writes counts below 1,000 in full', () => {
+      expect(CardLocale.formatCount(0)).toBe('0');
+      expect(CardLocale.formatCount(999)).toBe('999');
+    });
+
+    it.each([
+      [1234, '1.2K'],
+      [12345, '12.3K'],
+      [9000, '9K'],
+      [2100000000, '2.1B'],
+      [-1500, '-1.5K']
+    ])('formats %d compactly as %s', (value, expected) => {
+      expect(CardLocale.formatCount(value)).toBe(expected);
+    });
+
+    it('moves to the next unit when rounding reaches it', () => {
+      expect(CardLocale.formatCount(999950)).toBe('1M');
+    });
+
+    it('uses the locale\'s own compact units and separators', () => {
+      expect(CardLocale.formatCount(1234567, 'de')).toMatch(/^1,2\sMio\.$/);
+      expect(CardLocale.formatCount(12345, 'ja')).toBe('1.2万');
+      expect(CardLocale.formatCount(1500, 'pt_BR')).toMatch(/^1,5\smil$/);
+    });
+  });
+
+  describe('labels', () => {
+    it('falls back from region to language to English', () => {
+      expect(CardLocale.getLabels('pt-BR')).toBe(STAT_LABELS.pt);
+      expect(CardLocale.getLabels('sv')).toBe(STAT_LABELS.en);
+      expect(CardLocale.getTweetLabels('de').views).toBe('Mal angezeigt');
+    });
+
+    it('fills in the join date in UTC', () => {
+      expect(CardLocale.formatJoinDate('2019-03-31T23:30:00Z')).toBe('Joined March 2019');
+      expect(CardLocale.formatJoinDate('2019-03-31T23:30:00Z', 'es')).toBe('Se unió en marzo de 2019');
+      expect(CardLocale.formatJoinDate('not a date')).toBe('');
+    });
+  });
+
+  it('formats tweet times like X', () => {
+    expect(CardLocale.formatTweetTime('2026-10-19T15:42:00Z', 'en', 'UTC')).toMatch(/^3:42\sPM · Oct 19, 2026$/);
+  });
+
+  describe('normalize', () => {
+    it('canonicalizes tags', () => {
+      expect(CardLocale.normalize(' en_us ')).toBe('en-US');
+    });
+
+    it('rejects invalid tags', () => {
+      expect(() => CardLocale.normalize('not a locale')).toThrow('Invalid locale "not a locale"');
+    });
+  });
+});
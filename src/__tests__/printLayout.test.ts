@@ -0,0 +1,109 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { CanvasRenderingContext2D } from 'canvas';
+import { PrintLayout, POINTS_PER_INCH } from '../printLayout';
+import { ProfileCardGenerator } from '../profileCardGenerator';
+import { RecordingCanvas } from './fixtures/canvas';
+import { createProfile } from './fixtures/profile';
+
+jest.mock('canvas', () => require('./fixtures/canvas').canvasModule);
+
+describe('PrintLayout', () => {
+  describe('resolve', () => {
+    it('sizes a US business card with bleed at 300 DPI', () => {
+      expect(PrintLayout.resolve()).toMatchObject({
+        slug: 0,
+        pageWidth: 3.75,
+        pageHeight: 2.25,
+        artworkWidthPx: 1125,
+        artworkHeightPx: 675
+      });
+    });
+
+    it('adds a slug around the bleed for crop marks', () => {
+      expect(PrintLayout.resolve({ cropMarks: true })).toMatchObject({ slug: 0.25, pageWidth: 4.25, pageHeight: 2.75 });
+    });
+
+    it('falls back to the defaults for undefined options', () => {
+      const geometry = PrintLayout.resolve({ trimWidth: 85 / 25.4, trimHeight: 55 / 25.4, dpi: undefined, bleed: 0.1 });
+
+      expect(geometry.options.dpi).toBe(300);
+      expect(geometry.artworkWidthPx).toBe(1064);
+      expect(geometry.artworkHeightPx).toBe(710);
+    });
+
+    it('rejects invalid dimensions', () => {
+      expect(() => PrintLayout.resolve({ trimWidth: 0 })).toThrow('Invalid trim size: 0x2 inches');
+      expect(() => PrintLayout.resolve({ dpi: NaN })).toThrow('Invalid print DPI');
+      expect(() => PrintLayout.resolve({ bleed: -0.125 })).toThrow('must not be negative');
+    });
+  });
+
+  describe('parseTrimSize', () => {
+    it('parses WIDTHxHEIGHT in inches', () => {
+      expect(PrintLayout.parseTrimSize('3.5x2')).toEqual({ trimWidth: 3.5, trimHeight: 2 });
+      expect(PrintLayout.parseTrimSize(' 3.346 X 2.165 ')).toEqual({ trimWidth: 3.346, trimHeight: 2.165 });
+    });
+
+    it.each(['3.5', '3.5x', 'x2', '3.5x2in', '-3.5x2'])('rejects %s', value => {
+      expect(() => PrintLayout.parseTrimSize(value)).toThrow(`Invalid trim size "${value}"`);
+    });
+  });
+
+  it('draws crop marks in line with the trim, clear of the bleed', () => {
+    const lines: number[][] = [];
+    let start: number[] = [];
+    const ctx = {
+      save: jest.fn(),
+      restore: jest.fn(),
+      beginPath: jest.fn(),
+      stroke: jest.fn(),
+      moveTo: (x: number, y: number) => { start = [x, y]; },
+      lineTo: (x: number, y: number) => { lines.push([...start, x, y]); }
+    };
+
+    PrintLayout.drawCropMarks(ctx as unknown as CanvasRenderingContext2D, PrintLayout.resolve({ cropMarks: true }));
+
+    // Trim starts at slug + bleed = 0.375" (27pt); marks stop 1/16" past the bleed
+    expect(lines).toHaveLength(8);
+    expect(lines[0]).toEqual([27, 0, 27, 13.5]);
+    expect(lines[1]).toEqual([27, 184.5, 27, 198]);
+    expect(lines[4]).toEqual([0, 27, 13.5, 27]);
+  });
+});
+
+describe('PDF cards', () => {
+  let directory: string;
+
+  beforeAll(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'pdf-card-'));
+  });
+
+  afterAll(() => fs.remove(directory));
+
+  it.each(['modern', 'classic', 'minimal'])('keeps the %s layout\'s text inside the safe zone', async cardStyle => {
+    const profileData = createProfile({ description: 'Building things on the web, one side project at a time. '.repeat(6) });
+    const result = await new ProfileCardGenerator().generateCard(
+      { profileData, profileImagePath: '/tmp/avatar.jpg', bannerImagePath: '/tmp/banner.jpg' },
+      { outputFormat: 'pdf', cardStyle },
+      path.join(directory, `${cardStyle}.pdf`)
+    );
+
+    expect(result.error).toBeUndefined();
+    const { texts } = RecordingCanvas.contexts[RecordingCanvas.contexts.length - 1];
+    // 3.5x2" trim inside 1/8" bleed, with a 1/8" safe zone inside the trim
+    const safe = { left: 0.25, top: 0.25, right: 3.5, bottom: 2 };
+    const drawn = texts.map(text => text.text).join(' ');
+
+    expect(drawn).toContain('Hamzah Haider');
+    expect(drawn).toContain('12.3K');
+    expect(drawn).toContain('Building things');
+    for (const text of texts) {
+      expect(text.left).toBeGreaterThanOrEqual(safe.left * POINTS_PER_INCH - 0.01);
+      expect(text.top).toBeGreaterThanOrEqual(safe.top * POINTS_PER_INCH - 0.01);
+      expect(text.right).toBeLessThanOrEqual(safe.right * POINTS_PER_INCH + 0.01);
+      expect(text.bottom).toBeLessThanOrEqual(safe.bottom * POINTS_PER_INCH + 0.01);
+    }
+  });
+});
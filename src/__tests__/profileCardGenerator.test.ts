@@ -0,0 +1,80 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import jsQR from 'jsqr';
+import { ProfileCardGenerator } from '../profileCardGenerator';
+import { TweetData } from '../types';
+import { createProfile } from './fixtures/profile';
+
+// SVG output only uses node-canvas to measure text; measure 0.6em per character instead
+jest.mock('canvas', () => ({
+  Canvas: class {},
+  registerFont: jest.fn(),
+  createCanvas: () => ({
+    getContext: () => ({
+      font: '10px sans-serif',
+      measureText(text: string) {
+        const size = parseFloat(this.font.match(/(\d+(?:\.\d+)?)px/)?.[1] || '10');
+        return { width: text.length * size * 0.6, emHeightAscent: size * 0.8, emHeightDescent: size * 0.2 };
+      }
+    })
+  })
+}));
+
+/**
+ * Decode the QR code in an SVG card. It is drawn last: a background <rect>
+ * followed by one <path> with a square subpath per dark module.
+ */
+function decodeQrCode(svg: string): string | undefined {
+  const paths = Array.from(svg.matchAll(/<path d="([^"]+)"/g));
+  const modules = Array.from(paths[paths.length - 1][1].matchAll(/M([\d.]+) ([\d.]+) L([\d.]+) [\d.]+ L[\d.]+ ([\d.]+)/g))
+    .map(match => match.slice(1).map(Number));
+  const left = Math.min(...modules.map(([x]) => x));
+  const top = Math.min(...modules.map(([, y]) => y));
+
+  // Rasterize at 4 pixels per card pixel with a white margin for the quiet zone
+  const scale = 4;
+  const margin = 40;
+  const size = Math.ceil(Math.max(...modules.map(([, , right]) => right)) - left) * scale + margin * 2;
+  const data = new Uint8ClampedArray(size * size * 4).fill(255);
+  for (const [x1, y1, x2, y2] of modules) {
+    for (let py = Math.round((y1 - top) * scale) + margin; py < Math.round((y2 - top) * scale) + margin; py++) {
+      for (let px = Math.round((x1 - left) * scale) + margin; px < Math.round((x2 - left) * scale) + margin; px++) {
+        data.set([0, 0, 0, 255], (py * size + px) * 4);
+      }
+    }
+  }
+
+  return jsQR(data, size, size)?.data;
+}
+
+describe('ProfileCardGenerator', () => {
+  describe('generateTweetCard', () => {
+    const author = createProfile();
+    const assets = { profileData: author, tweet: new TweetData({ id: '1790000000000000000', text: 'Hello' }, author) };
+    let directory: string;
+
+    beforeAll(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), 'tweet-card-'));
+    });
+
+    afterAll(() => fs.remove(directory));
+
+    const renderQrCode = async (qrCode: { url?: string; size?: number }) => {
+      const outputPath = path.join(directory, 'tweet.svg');
+      const result = await new ProfileCardGenerator().generateTweetCard(assets, { outputFormat: 'svg', qrCode }, outputPath);
+
+      expect(result.success).toBe(true);
+      return decodeQrCode(await fs.readFile(outputPath, 'utf8'));
+    };
+
+    it('links the QR code to the tweet when no URL is given', async () => {
+      // What the CLI builds for a bare --qr
+      expect(await renderQrCode({ url: undefined, size: 160 })).toBe('https://x.com/hhaider__/status/1790000000000000000');
+    });
+
+    it('keeps a QR code URL that was given', async () => {
+      expect(await renderQrCode({ url: 'https://hhaider.dev', size: 160 })).toBe('https://hhaider.dev');
+    });
+  });
+});
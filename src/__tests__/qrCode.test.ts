@@ -0,0 +1,93 @@
+import jsQR from 'jsqr';
+import { CardRenderingContext } from '../renderingContext';
+import { QrCodeRenderer, DEFAULT_QR_CODE_OPTIONS } from '../qrCode';
+import { QrCodeOptions } from '../types';
+
+/**
+ * Rasterize what QrCodeRenderer draws: it only uses fillRect and filled rect
+ * paths, so a pixel is painted when its center falls inside a rectangle
+ */
+function renderToPixels(text: string, options: QrCodeOptions = {}): { data: Uint8ClampedArray; size: number } {
+  const size = 300;
+  const data = new Uint8ClampedArray(size * size * 4).fill(255);
+  let path: Array<[number, number, number, number]> = [];
+
+  const paint = (x: number, y: number, width: number, height: number, color: string) => {
+    const [r, g, b] = [1, 3, 5].map(i => parseInt(color.slice(i, i + 2), 16));
+    for (let py = Math.max(0, Math.floor(y)); py < Math.min(size, Math.ceil(y + height)); py++) {
+      for (let px = Math.max(0, Math.floor(x)); px < Math.min(size, Math.ceil(x + width)); px++) {
+        if (px + 0.5 >= x && px + 0.5 < x + width && py + 0.5 >= y && py + 0.5 < y + height) {
+          data.set([r, g, b, 255], (py * size + px) * 4);
+        }
+      }
+    }
+  };
+
+  const ctx = {
+    fillStyle: '#000000',
+    save: () => undefined,
+    restore: () => undefined,
+    beginPath: () => { path = []; },
+    rect: (x: number, y: number, width: number, height: number) => { path.push([x, y, width, height]); },
+    fill: () => path.forEach(([x, y, width, height]) => paint(x, y, width, height, ctx.fillStyle)),
+    fillRect: (x: number, y: number, width: number, height: number) => paint(x, y, width, height, ctx.fillStyle)
+  };
+
+  QrCodeRenderer.draw(ctx as unknown as CardRenderingContext, text, 20, 20, { size: 260, ...options });
+  return { data, size };
+}
+
+function decode(text: string, options: QrCodeOptions = {}): string | undefined {
+  const { data, size } = renderToPixels(text, options);
+  return jsQR(data, size, size)?.data;
+}
+
+describe('QrCodeRenderer', () => {
+  it('draws a code that decodes back to the profile URL', () => {
+    expect(decode('https://twitter.com/hhaider__')).toBe('https://twitter.com/hhaider__');
+  });
+
+  it.each(['L', 'M', 'Q', 'H'] as const)('decodes at error correction level %s', level => {
+    const url = 'https://x.com/hhaider__/status/1790000000000000000';
+    expect(decode(url, { errorCorrectionLevel: level })).toBe(url);
+  });
+
+  it('decodes with custom colors', () => {
+    expect(decode('https://linktr.ee/hhaider', { foregroundColor: '#1d3557', backgroundColor: '#f1faee' }))
+      .toBe('https://linktr.ee/hhaider');
+  });
+
+  it('defaults to the 4-module quiet zone the QR spec requires', () => {
+    expect(DEFAULT_QR_CODE_OPTIONS.quietZone).toBe(4);
+
+    const matrix = QrCodeRenderer.encode('https://twitter.com/hhaider__');
+    const moduleSize = 260 / (matrix.length + 8);
+    const { data, size } = renderToPixels('https://twitter.com/hhaider__');
+    const isLight = (x: number, y: number) => data[(Math.floor(y) * size + Math.floor(x)) * 4] === 255;
+
+    // The finder pattern starts right after the quiet zone
+    expect(isLight(20 + moduleSize * 3.5, 20 + moduleSize * 3.5)).toBe(true);
+    expect(isLight(20 + moduleSize * 4.5, 20 + moduleSize * 4.5)).toBe(false);
+  });
+
+  it('rejects empty content', () => {
+    expect(() => QrCodeRenderer.encode('')).toThrow('non-empty');
+  });
+
+  describe('resolvePosition', () => {
+    it('places corners inside the margin', () => {
+      expect(QrCodeRenderer.resolvePosition({ position: 'top-left', size: 100, margin: 10 }, 1200, 630)).toEqual({ x: 10, y: 10 });
+      expect(QrCodeRenderer.resolvePosition({ position: 'bottom-right', size: 100, margin: 10 }, 1200, 630)).toEqual({ x: 1090, y: 520 });
+    });
+
+    it('accepts explicit coordinates', () => {
+      expect(QrCodeRenderer.resolvePosition({ position: QrCodeRenderer.parsePosition('30, 40.5') }, 1200, 630))
+        .toEqual({ x: 30, y: 40.5 });
+    });
+
+    it('rejects unknown corner names', () => {
+      expect(() => QrCodeRenderer.resolvePosition({ position: QrCodeRenderer.parsePosition('middle') }, 1200, 630))
+        .toThrow('Invalid QR code position');
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import { RichText, RichTextToken } from '../richText';
+import { TwitterUrlParser } from '../urlParser';
+
+// FontManager registers fonts through node-canvas; tokenizing never draws
+jest.mock('canvas', () => ({ registerFont: jest.fn() }));
+
+const entities = (tokens: RichTextToken[]) => tokens.filter(token => token.type !== 'text');
+
+describe('RichText.tokenize', () => {
+  it('splits out mentions, hashtags, cashtags and links', () => {
+    expect(RichText.tokenize('Building @vercel things, #TypeScript fan, long $TSLA. https://hhaider.dev')).toEqual([
+      { type: 'text', text: 'Building ' },
+      { type: 'mention', text: '@vercel' },
+      { type: 'text', text: ' things, ' },
+      { type: 'hashtag', text: '#TypeScript' },
+      { type: 'text', text: ' fan, long ' },
+      { type: 'cashtag', text: '$TSLA' },
+      { type: 'text', text: '. ' },
+      { type: 'url', text: 'https://hhaider.dev' }
+    ]);
+  });
+
+  it.each([
+    'Hamzah Haider',
+    'Say hi: @hhaider__, or visit hhaider.dev/blog!',
+    '¡Hola! #日本語 ＠ユーザー (see www.example.com/a?b=c).',
+    '\n\nline one\nline two #2024 $5 a@b.com'
+  ])('joins back to the input: %s', text => {
+    expect(RichText.tokenize(text).map(token => token.text).join('')).toBe(text);
+  });
+
+  it('keeps sentence punctuation out of links', () => {
+    expect(entities(RichText.tokenize('Blog (hhaider.dev/blog). More at https://x.com/hhaider__!')))
+      .toEqual([{ type: 'url', text: 'hhaider.dev/blog' }, { type: 'url', text: 'https://x.com/hhaider__' }]);
+  });
+
+  it('leaves look-alikes as plain text', () => {
+    // Emails, numeric hashtags, prices, over-long handles and file names
+    const text = 'mail me@hhaider.dev #2024 costs $5 @averyveryverylonghandle Node.js';
+    expect(entities(RichText.tokenize(text))).toEqual([]);
+  });
+
+  it('recognizes full-width marks and non-Latin hashtags', () => {
+    expect(entities(RichText.tokenize('＠hhaider ＃開発 #café'))).toEqual([
+      { type: 'mention', text: '＠hhaider' },
+      { type: 'hashtag', text: '＃開発' },
+      { type: 'hashtag', text: '#café' }
+    ]);
+  });
+
+  it('tokenizes bios after expanding their t.co links', () => {
+    const bio = TwitterUrlParser.expandUrls('Writing at https://t.co/abc123', [
+      { start: 11, end: 30, url: 'https://t.co/abc123', expanded_url: 'https://hhaider.dev/blog', display_url: 'hhaider.dev/blog' }
+    ]);
+
+    expect(bio).toBe('Writing at hhaider.dev/blog');
+    expect(entities(RichText.tokenize(bio))).toEqual([{ type: 'url', text: 'hhaider.dev/blog' }]);
+  });
+});
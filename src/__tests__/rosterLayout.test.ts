@@ -0,0 +1,88 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { CSVExporter } from '../csvExporter';
+import { ProfileCardGenerator } from '../profileCardGenerator';
+import { RosterLayout } from '../rosterLayout';
+import { createProfile } from './fixtures/profile';
+
+// Only profile loading and grid math are under test; nothing is drawn
+jest.mock('canvas', () => ({}));
+
+describe('RosterLayout', () => {
+  describe('getGrid', () => {
+    // The grid area of a 1200x630 card without a header
+    const width = 1088;
+    const height = 518;
+
+    it.each([
+      [1, { columns: 1, rows: 1, avatarSize: 200 }],
+      [4, { columns: 4, rows: 1, avatarSize: 190.5 }],
+      [7, { columns: 4, rows: 2, avatarSize: 154.375 }],
+      [12, { columns: 6, rows: 2, avatarSize: 121 }],
+      [24, { columns: 8, rows: 3, avatarSize: 86.25 }]
+    ])('picks the columns with the largest avatars for %i members', (count, grid) => {
+      expect(RosterLayout.getGrid(count, width, height)).toEqual(grid);
+    });
+
+    it('prefers fewer rows once the avatars hit the size cap', () => {
+      expect(RosterLayout.getGrid(3, width, height)).toEqual({ columns: 3, rows: 1, avatarSize: 200 });
+    });
+
+    it('stacks members in a tall area', () => {
+      expect(RosterLayout.getGrid(6, 400, 1000)).toEqual({ columns: 2, rows: 3, avatarSize: 141 });
+    });
+
+    it('fits every member into the area', () => {
+      for (let count = 1; count <= 30; count++) {
+        const { columns, rows, avatarSize } = RosterLayout.getGrid(count, width, height);
+
+        expect(columns * rows).toBeGreaterThanOrEqual(count);
+        expect((columns - 1) * rows).toBeLessThan(count);
+        expect(columns * avatarSize / 0.75 + 24 * (columns - 1)).toBeLessThanOrEqual(width + 0.01);
+        expect(rows * avatarSize * 1.6 + 24 * (rows - 1)).toBeLessThanOrEqual(height + 0.01);
+      }
+    });
+  });
+});
+
+describe('ProfileCardGenerator.loadRosterFromDirectory', () => {
+  const generator = new ProfileCardGenerator();
+  let directory: string;
+
+  beforeAll(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'roster-'));
+    for (const username of ['alice', 'bob', 'carol']) {
+      const userDir = path.join(directory, username);
+      await fs.ensureDir(userDir);
+      await new CSVExporter().exportProfileData(createProfile({ username, name: username.toUpperCase() }), userDir);
+    }
+    await fs.writeFile(path.join(directory, 'bob', 'profile_image.jpg'), '');
+  });
+
+  afterAll(() => fs.remove(directory));
+
+  it('loads the members of a collection file in order, skipping blank lines and comments', async () => {
+    const collectionPath = path.join(directory, 'team.txt');
+    await fs.writeFile(collectionPath, '# Design team\nhttps://x.com/carol\n\n  alice  \n# bob is on leave\nhttps://twitter.com/bob/\n');
+
+    const members = await generator.loadRosterFromDirectory(collectionPath, directory);
+
+    expect(members.map(member => member.profileData.username)).toEqual(['carol', 'alice', 'bob']);
+    expect(members.map(member => member.profileData.name)).toEqual(['CAROL', 'ALICE', 'BOB']);
+    expect(members.map(member => member.profileImagePath)).toEqual([undefined, undefined, path.join(directory, 'bob', 'profile_image.jpg')]);
+  });
+
+  it('loads a list of usernames', async () => {
+    const members = await generator.loadRosterFromDirectory(['bob', 'alice'], directory);
+
+    expect(members.map(member => member.profileData.username)).toEqual(['bob', 'alice']);
+  });
+
+  it('fails for a member that was never downloaded', async () => {
+    const collectionPath = path.join(directory, 'missing.txt');
+    await fs.writeFile(collectionPath, 'alice\ndave\n');
+
+    await expect(generator.loadRosterFromDirectory(collectionPath, directory)).rejects.toThrow('Failed to load profile data for dave');
+  });
+});
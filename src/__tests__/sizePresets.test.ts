@@ -0,0 +1,15 @@
+import { SizePresets, CARD_SIZE_PRESETS } from '../sizePresets';
+
+describe('SizePresets', () => {
+  it('looks presets up case-insensitively', () => {
+    expect(SizePresets.get('X-Header')).toEqual({ name: 'x-header', description: 'X/Twitter profile header', width: 1500, height: 500 });
+  });
+
+  it('lists every preset', () => {
+    expect(SizePresets.list()).toEqual(Object.keys(CARD_SIZE_PRESETS));
+  });
+
+  it.each(['constructor', '__proto__', 'hasOwnProperty', 'toString', 'poster'])('rejects "%s"', name => {
+    expect(() => SizePresets.get(name)).toThrow(`Unknown size preset "${name}". Available presets: opengraph, x-header`);
+  });
+});
@@ -0,0 +1,111 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { DOMParser } from '@xmldom/xmldom';
+import { SvgRenderingContext } from '../svgContext';
+import { ProfileCardGenerator } from '../profileCardGenerator';
+import { createProfile } from './fixtures/profile';
+
+// SVG output only uses node-canvas to measure text; measure 0.6em per character instead
+jest.mock('canvas', () => ({
+  Canvas: class {},
+  registerFont: jest.fn(),
+  createCanvas: () => ({
+    getContext: () => ({
+      font: '10px sans-serif',
+      measureText(text: string) {
+        const size = parseFloat(this.font.match(/(\d+(?:\.\d+)?)px/)?.[1] || '10');
+        return { width: text.length * size * 0.6, emHeightAscent: size * 0.8, emHeightDescent: size * 0.2 };
+      }
+    })
+  })
+}));
+
+function parse(svg: string): Document {
+  const errors: string[] = [];
+  const document = new DOMParser({ errorHandler: (level: string, message: string) => { errors.push(`${level}: ${message}`); } })
+    .parseFromString(svg, 'image/svg+xml');
+  expect(errors).toEqual([]);
+  return document as unknown as Document;
+}
+
+function texts(document: Document): string[] {
+  return Array.from(document.getElementsByTagName('text')).map(element => element.textContent || '');
+}
+
+describe('SvgRenderingContext', () => {
+  it('keeps text as escaped <text> elements', () => {
+    const ctx = new SvgRenderingContext(400, 200);
+    ctx.font = 'bold 24px Inter, sans-serif';
+    ctx.textAlign = 'center';
+    ctx.fillStyle = '#ffffff';
+    ctx.fillText('Tom & Jerry <3', 200, 100);
+
+    const document = parse(ctx.toSVG());
+    const [text] = Array.from(document.getElementsByTagName('text'));
+
+    expect(text.textContent).toBe('Tom & Jerry <3');
+    expect(text.getAttribute('font-family')).toBe('Inter, sans-serif');
+    expect(text.getAttribute('font-size')).toBe('24');
+    expect(text.getAttribute('font-weight')).toBe('bold');
+    expect(text.getAttribute('text-anchor')).toBe('middle');
+    expect(text.getAttribute('fill')).toBe('#ffffff');
+  });
+
+  it('closes clip groups left open by unbalanced saves', () => {
+    const ctx = new SvgRenderingContext(100, 100);
+    ctx.save();
+    ctx.beginPath();
+    ctx.arc(50, 50, 40, 0, Math.PI * 2);
+    ctx.clip();
+    ctx.fillRect(0, 0, 100, 100);
+
+    const document = parse(ctx.toSVG());
+
+    expect(document.getElementsByTagName('clipPath')).toHaveLength(1);
+    expect(document.getElementsByTagName('g')[0].getAttribute('clip-path')).toBe('url(#clip0)');
+  });
+
+  it('writes linear gradients to <defs>', () => {
+    const ctx = new SvgRenderingContext(100, 100);
+    const gradient = ctx.createLinearGradient(0, 0, 0, 100);
+    gradient.addColorStop(0, '#000000');
+    gradient.addColorStop(1, '#ffffff');
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, 100, 100);
+
+    const document = parse(ctx.toSVG());
+
+    expect(document.getElementsByTagName('stop')).toHaveLength(2);
+    expect(document.getElementsByTagName('rect')[0].getAttribute('fill')).toBe('url(#gradient0)');
+  });
+});
+
+describe('SVG card output', () => {
+  let directory: string;
+
+  beforeAll(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'svg-card-'));
+  });
+
+  afterAll(() => fs.remove(directory));
+
+  it.each(['modern', 'classic', 'minimal'])('keeps the %s card text as <text> elements', async cardStyle => {
+    const outputPath = path.join(directory, `${cardStyle}.svg`);
+    const result = await new ProfileCardGenerator().generateCard(
+      { profileData: createProfile() },
+      { outputFormat: 'svg', cardStyle },
+      outputPath
+    );
+
+    expect(result.error).toBeUndefined();
+    const document = parse(await fs.readFile(outputPath, 'utf8'));
+    const content = texts(document).join(' ');
+
+    expect(document.documentElement.getAttribute('viewBox')).toBe('0 0 1200 630');
+    expect(content).toContain('Hamzah Haider');
+    expect(content).toContain('@hhaider__');
+    expect(content).toContain('Building things on the web');
+    expect(content).toContain('12.3K');
+  });
+});
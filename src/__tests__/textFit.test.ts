@@ -0,0 +1,80 @@
+import { CardRenderingContext } from '../renderingContext';
+import { TextFitter } from '../textFit';
+
+// FontManager registers fonts through node-canvas; nothing here draws with real fonts
+jest.mock('canvas', () => ({ registerFont: jest.fn() }));
+
+/**
+ * Context whose characters are all half the font size wide
+ */
+function createContext(font: string = '10px sans-serif') {
+  const ctx = {
+    font,
+    textAlign: 'left',
+    fillText: jest.fn(),
+    measureText: (text: string) => ({ width: Array.from(text).length * parseFloat(ctx.font.match(/(\d+)px/)![1]) / 2 })
+  };
+  return ctx;
+}
+
+const asContext = (ctx: ReturnType<typeof createContext>) => ctx as unknown as CardRenderingContext;
+
+describe('TextFitter', () => {
+  describe('wrap', () => {
+    it('breaks lines between words', () => {
+      expect(TextFitter.wrap(asContext(createContext()), 'the quick brown fox', 50)).toEqual(['the quick', 'brown fox']);
+    });
+
+    it('starts a new line at newlines and drops extra spaces', () => {
+      expect(TextFitter.wrap(asContext(createContext()), 'one  two\r\nthree', 50)).toEqual(['one two', 'three']);
+    });
+
+    it('breaks words wider than the line between characters', () => {
+      expect(TextFitter.wrap(asContext(createContext()), 'see https://example.com/abc', 50))
+        .toEqual(['see', 'https://ex', 'ample.com/', 'abc']);
+    });
+  });
+
+  it('truncates a line to fit with the ellipsis', () => {
+    const ctx = asContext(createContext());
+
+    expect(TextFitter.truncate(ctx, 'hello world', 30)).toBe('hello…');
+    expect(TextFitter.truncate(ctx, 'hello world', 35, '...')).toBe('hell...');
+  });
+
+  describe('fit', () => {
+    it('shrinks the font until the text fits', () => {
+      const ctx = createContext();
+      const fitted = TextFitter.fit(asContext(ctx), 'Hamzah Haider', {
+        fontSize: 36, minFontSize: 18, fontFamily: 'Inter', fontStyle: 'bold', maxWidth: 200, maxLines: 1
+      });
+
+      expect(fitted).toEqual({ lines: ['Hamzah Haider'], fontSize: 30, lineHeight: 42, font: 'bold 30px Inter', truncated: false });
+      expect(ctx.font).toBe('bold 30px Inter');
+    });
+
+    it('clamps the last line at the minimum size', () => {
+      const fitted = TextFitter.fit(asContext(createContext()), 'one two three four five six seven', {
+        fontSize: 20, fontFamily: 'Inter', maxWidth: 100, maxLines: 2
+      });
+
+      expect(fitted.lines).toEqual(['one two', 'three fou…']);
+      expect(fitted.truncated).toBe(true);
+    });
+
+    it('limits the lines to the box height, leaving the last line room for its glyphs only', () => {
+      const fitted = TextFitter.fit(asContext(createContext()), 'one two three four five six seven', {
+        fontSize: 20, fontFamily: 'Inter', maxWidth: 100, maxHeight: 60
+      });
+
+      expect(fitted.lines).toHaveLength(2);
+    });
+  });
+
+  it('draws fitted lines top-down', () => {
+    const ctx = createContext();
+    TextFitter.draw(asContext(ctx), 'the quick brown fox', 10, 100, { fontSize: 10, fontFamily: 'Inter', maxWidth: 50, lineHeight: 12 });
+
+    expect(ctx.fillText.mock.calls).toEqual([['the quick', 10, 100], ['brown fox', 10, 112]]);
+  });
+});
@@ -0,0 +1,47 @@
+import { TwitterUrlParser } from '../urlParser';
+
+describe('TwitterUrlParser', () => {
+  describe('parseStatusUrl', () => {
+    it.each([
+      ['https://x.com/hhaider__/status/1790000000000000000', 'hhaider__'],
+      ['https://twitter.com/hhaider__/status/1790000000000000000?s=20&t=abc', 'hhaider__'],
+      ['http://mobile.twitter.com/hhaider__/statuses/1790000000000000000/', 'hhaider__'],
+      ['www.x.com/hhaider__/status/1790000000000000000/photo/1', 'hhaider__'],
+      [' x.com/hhaider__/status/1790000000000000000#reply ', 'hhaider__']
+    ])('reads the status ID and author from %s', (url, username) => {
+      expect(TwitterUrlParser.parseStatusUrl(url)).toEqual({ statusId: '1790000000000000000', username });
+    });
+
+    it.each([
+      'https://x.com/i/status/1790000000000000000',
+      'https://twitter.com/i/web/status/1790000000000000000'
+    ])('has no author for %s', url => {
+      expect(TwitterUrlParser.parseStatusUrl(url)).toEqual({ statusId: '1790000000000000000', username: null });
+    });
+
+    it('drops usernames Twitter wouldn\'t allow', () => {
+      expect(TwitterUrlParser.parseStatusUrl('https://x.com/1user/status/20').username).toBeNull();
+    });
+
+    it.each([
+      'https://x.com/hhaider__',
+      'https://x.com/hhaider__/status/',
+      'https://x.com/hhaider__/status/abc',
+      'https://example.com/hhaider__/status/20'
+    ])('rejects %s', url => {
+      expect(() => TwitterUrlParser.parseStatusUrl(url)).toThrow('Invalid tweet URL');
+    });
+  });
+
+  it('accepts bare status IDs', () => {
+    expect(TwitterUrlParser.extractStatusId(' 20 ')).toBe('20');
+    expect(TwitterUrlParser.extractStatusId('https://x.com/jack/status/20')).toBe('20');
+    expect(() => TwitterUrlParser.extractStatusId('')).toThrow('URL must be a non-empty string');
+  });
+
+  it('tells tweet URLs from profile URLs', () => {
+    expect(TwitterUrlParser.isStatusUrl('https://x.com/jack/status/20')).toBe(true);
+    expect(TwitterUrlParser.isStatusUrl('https://x.com/jack')).toBe(false);
+    expect(TwitterUrlParser.isValidTwitterUrl('https://x.com/jack')).toBe(true);
+  });
+});
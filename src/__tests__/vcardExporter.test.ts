@@ -0,0 +1,105 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { CSVExporter } from '../csvExporter';
+import { VCardExporter } from '../vcardExporter';
+import { createProfile } from './fixtures/profile';
+
+// Content lines without the folds and the empty string after the final CRLF
+const unfold = (vcard: string) => vcard.replace(/\r\n /g, '').split('\r\n').slice(0, -1);
+
+describe('VCardExporter', () => {
+  const exporter = new VCardExporter();
+
+  it('writes a vCard 4.0 contact with CRLF line endings', async () => {
+    const vcard = await exporter.createVCard(createProfile());
+
+    expect(vcard.endsWith('END:VCARD\r\n')).toBe(true);
+    expect(unfold(vcard).slice(0, -2)).toEqual([
+      'BEGIN:VCARD',
+      'VERSION:4.0',
+      'KIND:individual',
+      'FN:Hamzah Haider',
+      'NICKNAME:hhaider__',
+      'UID:urn:x-twitter:1234567890',
+      'NOTE:Building things on the web',
+      'URL:https://twitter.com/hhaider__',
+      'X-SOCIALPROFILE;TYPE=twitter;X-USER=hhaider__:https://twitter.com/hhaider__'
+    ]);
+    expect(unfold(vcard).slice(-2)[0]).toMatch(/^REV:\d{8}T\d{6}Z$/);
+  });
+
+  it('escapes backslashes, commas, semicolons and newlines', async () => {
+    const vcard = await exporter.createVCard(createProfile({ name: 'Haider; Hamzah', description: 'Web, apps; C:\\dev\r\nLondon\nUK' }));
+
+    expect(unfold(vcard)).toContain('FN:Haider\\; Hamzah');
+    expect(unfold(vcard)).toContain('NOTE:Web\\, apps\\; C:\\\\dev\\nLondon\\nUK');
+  });
+
+  it('folds long lines at 75 octets without splitting characters', async () => {
+    const description = 'Building 🚀 things on the web, 日本語も話します. '.repeat(6);
+    const vcard = await exporter.createVCard(createProfile({ description }));
+    const lines = vcard.split('\r\n').slice(0, -1);
+
+    expect(lines.length).toBeGreaterThan(unfold(vcard).length);
+    for (const line of lines) {
+      expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75);
+      expect(line).not.toMatch(/[\uD800-\uDBFF](?![\uDC00-\uDFFF])|(?<![\uD800-\uDBFF])[\uDC00-\uDFFF]/);
+    }
+    expect(unfold(vcard)).toContain(`NOTE:${description.replace(/,/g, '\\,')}`);
+  });
+
+  describe('photos', () => {
+    let directory: string;
+
+    beforeAll(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), 'vcard-'));
+    });
+
+    afterAll(() => fs.remove(directory));
+
+    it('embeds the avatar with the type from its magic bytes', async () => {
+      const avatarPath = path.join(directory, 'avatar.png');
+      const image = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+      await fs.writeFile(avatarPath, image);
+
+      const vcard = await exporter.createVCard(createProfile(), avatarPath);
+
+      expect(unfold(vcard)).toContain(`PHOTO:data:image/png;base64,${image.toString('base64')}`);
+    });
+
+    it('skips a missing avatar', async () => {
+      const vcard = await exporter.createVCard(createProfile(), path.join(directory, 'missing.jpg'));
+
+      expect(vcard).not.toContain('PHOTO');
+    });
+  });
+
+  describe('createCombinedVCard', () => {
+    let directory: string;
+
+    beforeAll(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), 'vcard-combined-'));
+    });
+
+    afterAll(() => fs.remove(directory));
+
+    it('joins a contact for every user directory with saved profile data', async () => {
+      for (const username of ['first_user', 'second_user']) {
+        await fs.ensureDir(path.join(directory, username));
+        await new CSVExporter().exportProfileData(createProfile({ username, name: username }), path.join(directory, username));
+      }
+      await fs.ensureDir(path.join(directory, 'no_data'));
+      await fs.writeFile(path.join(directory, 'first_user', 'profile_image.jpg'), Buffer.from([0xff, 0xd8, 0xff]));
+
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      const combinedPath = await new VCardExporter(directory).createCombinedVCard();
+      const lines = unfold(await fs.readFile(combinedPath, 'utf8'));
+
+      expect(lines.filter(line => line.startsWith('FN:')).sort()).toEqual(['FN:first_user', 'FN:second_user']);
+      expect(lines.filter(line => line.startsWith('PHOTO:'))).toEqual(['PHOTO:data:image/jpeg;base64,/9j/']);
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('Skipping @no_data'));
+      warn.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,32 @@
+import { VerificationBadge } from '../verificationBadge';
+import { createProfile } from './fixtures/profile';
+
+// Badge selection doesn't draw; keep the font registration import off the native binding
+jest.mock('canvas', () => ({}));
+
+describe('VerificationBadge.getType', () => {
+  it('gives blue accounts the blue badge', () => {
+    expect(VerificationBadge.getType(createProfile({ verified: true, verified_type: 'blue', subscription_type: 'Premium' })))
+      .toBe('blue');
+  });
+
+  it('gives business accounts the gold badge', () => {
+    expect(VerificationBadge.getType(createProfile({ verified: true, verified_type: 'business', subscription_type: 'None' })))
+      .toBe('business');
+  });
+
+  it('gives government accounts the grey badge', () => {
+    expect(VerificationBadge.getType(createProfile({ verified: true, verified_type: 'government', subscription_type: 'None' })))
+      .toBe('government');
+  });
+
+  it('gives unverified accounts no badge', () => {
+    expect(VerificationBadge.getType(createProfile({ verified: false, verified_type: 'none', subscription_type: 'Basic' })))
+      .toBe('none');
+  });
+
+  it('falls back to the verified flag for profiles saved without a verified type', () => {
+    expect(VerificationBadge.getType(createProfile({ verified: true, verified_type: undefined }))).toBe('blue');
+    expect(VerificationBadge.getType(createProfile({ verified: false, verified_type: undefined }))).toBe('none');
+  });
+});
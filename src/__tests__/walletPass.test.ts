@@ -0,0 +1,118 @@
+import * as crypto from 'crypto';
+import JSZip from 'jszip';
+import forge from 'node-forge';
+import { WalletPassBuilder, WalletPassCertificates } from '../walletPass';
+import { createProfile } from './fixtures/profile';
+
+// Pass images aren't under test here; a stand-in canvas keeps the test off the native binding
+jest.mock('canvas', () => ({
+  createCanvas: (width: number, height: number) => ({
+    getContext: () => ({ fillRect: jest.fn(), beginPath: jest.fn(), arc: jest.fn(), clip: jest.fn(), drawImage: jest.fn() }),
+    toBuffer: () => Buffer.from(`png ${width}x${height}`)
+  }),
+  loadImage: jest.fn()
+}));
+
+/**
+ * Throwaway self-signed certificate, standing in for Apple's Pass Type ID
+ * and WWDR certificates
+ */
+function createCertificate(commonName: string, keys: forge.pki.rsa.KeyPair): string {
+  const certificate = forge.pki.createCertificate();
+  certificate.publicKey = keys.publicKey;
+  certificate.serialNumber = '01';
+  certificate.validity.notBefore = new Date();
+  certificate.validity.notAfter = new Date(Date.now() + 24 * 60 * 60 * 1000);
+  const attributes = [{ name: 'commonName', value: commonName }];
+  certificate.setSubject(attributes);
+  certificate.setIssuer(attributes);
+  certificate.sign(keys.privateKey, forge.md.sha256.create());
+  return forge.pki.certificateToPem(certificate);
+}
+
+describe('WalletPassBuilder', () => {
+  const keys = forge.pki.rsa.generateKeyPair({ bits: 2048 });
+  const certificates: WalletPassCertificates = {
+    signerCertificate: createCertificate('Pass Type ID: pass.dev.hhaider.card', keys),
+    signerKey: forge.pki.privateKeyToPem(keys.privateKey),
+    wwdrCertificate: createCertificate('Test WWDR', keys)
+  };
+  const builder = new WalletPassBuilder({
+    passTypeIdentifier: 'pass.dev.hhaider.card',
+    teamIdentifier: 'ABCDE12345',
+    certificates
+  });
+
+  let files: Record<string, Buffer>;
+
+  beforeAll(async () => {
+    const zip = await JSZip.loadAsync(await builder.build({ profileData: createProfile() }));
+    files = {};
+    for (const name of Object.keys(zip.files)) {
+      files[name] = await zip.files[name].async('nodebuffer');
+    }
+  });
+
+  it('lists the SHA-1 hash of every file in manifest.json', () => {
+    const manifest = JSON.parse(files['manifest.json'].toString('utf8'));
+    const hashed = Object.keys(files).filter(name => name !== 'manifest.json' && name !== 'signature');
+
+    expect(Object.keys(manifest).sort()).toEqual(hashed.sort());
+    expect(hashed).toEqual(expect.arrayContaining(['pass.json', 'icon.png', 'icon@2x.png', 'icon@3x.png']));
+    for (const name of hashed) {
+      expect(manifest[name]).toBe(crypto.createHash('sha1').update(files[name]).digest('hex'));
+    }
+  });
+
+  it('signs manifest.json with a detached PKCS#7 signature', () => {
+    const message = forge.pkcs7.messageFromAsn1(forge.asn1.fromDer(files['signature'].toString('binary')));
+    const signerInfo: forge.asn1.Asn1 = message.rawCapture.signerInfos[0];
+    const parts = signerInfo.value as forge.asn1.Asn1[];
+
+    // Detached: the signed data carries no content of its own
+    expect(message.rawCapture.content).toBeUndefined();
+
+    // The signed attributes hold the manifest's digest...
+    const attributes = parts.find(part => part.tagClass === forge.asn1.Class.CONTEXT_SPECIFIC && part.type === 0)!;
+    const digestAttribute = (attributes.value as forge.asn1.Asn1[]).find(attribute => {
+      const [type] = attribute.value as forge.asn1.Asn1[];
+      return forge.asn1.derToOid(type.value as string) === forge.pki.oids.messageDigest;
+    })!;
+    const [, digestSet] = digestAttribute.value as forge.asn1.Asn1[];
+    const digest = Buffer.from((digestSet.value as forge.asn1.Asn1[])[0].value as string, 'binary');
+    expect(digest).toEqual(crypto.createHash('sha256').update(files['manifest.json']).digest());
+
+    // ...and the signature covers them, DER-encoded as a SET
+    const signedAttributes = forge.asn1.create(forge.asn1.Class.UNIVERSAL, forge.asn1.Type.SET, true, attributes.value as forge.asn1.Asn1[]);
+    const signedBytes = Buffer.from(forge.asn1.toDer(signedAttributes).getBytes(), 'binary');
+    const signature = Buffer.from(parts[parts.length - 1].value as string, 'binary');
+    expect(crypto.verify('sha256', signedBytes, certificates.signerCertificate, signature)).toBe(true);
+    expect(crypto.verify('sha256', Buffer.concat([signedBytes, Buffer.from(' ')]), certificates.signerCertificate, signature)).toBe(false);
+  });
+
+  it('describes the profile in pass.json', () => {
+    const pass = JSON.parse(files['pass.json'].toString('utf8'));
+
+    expect(pass).toMatchObject({
+      formatVersion: 1,
+      passTypeIdentifier: 'pass.dev.hhaider.card',
+      teamIdentifier: 'ABCDE12345',
+      serialNumber: 'hhaider__',
+      organizationName: 'Hamzah Haider',
+      backgroundColor: 'rgb(0, 0, 0)',
+      barcodes: [{ format: 'PKBarcodeFormatQR', message: 'https://twitter.com/hhaider__' }]
+    });
+    expect(pass.storeCard.primaryFields[0]).toEqual({ key: 'name', label: '@hhaider__', value: 'Hamzah Haider' });
+    expect(pass.storeCard.secondaryFields.map((field: { value: string }) => field.value)).toEqual(['12.3K', '678']);
+  });
+
+  it('rejects a key that is not PEM', () => {
+    const broken = new WalletPassBuilder({
+      passTypeIdentifier: 'pass.dev.hhaider.card',
+      teamIdentifier: 'ABCDE12345',
+      certificates: { ...certificates, signerKey: 'not a key' }
+    });
+
+    return expect(broken.build({ profileData: createProfile() })).rejects.toThrow('Invalid pass certificate or key');
+  });
+});
@@ -1,7 +1,7 @@
 import axios from 'axios';
 import * as fs from 'fs-extra';
 import * as path from 'path';
-import { TwitterProfileData } from './types';
+import { TwitterProfileData, TweetData } from './types';
 
 /**
  * Asset downloader for Twitter profile images and banners
@@ -64,6 +64,38 @@ export class AssetDownloader {
     return results;
   }
 
+  /**
+   * Download the images attached to a tweet; videos and GIFs get their preview frame
+   * @param tweet - The tweet
+   * @returns Promise<TweetMediaDownloadResult> - Download results, with paths in display order
+   */
+  async downloadTweetMedia(tweet: TweetData): Promise<TweetMediaDownloadResult> {
+    const tweetDir = path.join(this.outputDir, tweet.author.username, 'tweets', tweet.id);
+    const results: TweetMediaDownloadResult = {
+      tweetId: tweet.id,
+      tweetDir,
+      mediaImages: [],
+      errors: []
+    };
+
+    const imageUrls = tweet.getMediaImageUrls();
+    if (imageUrls.length === 0) {
+      return results;
+    }
+
+    await fs.ensureDir(tweetDir);
+
+    for (let i = 0; i < imageUrls.length; i++) {
+      try {
+        results.mediaImages.push(await this.downloadImage(imageUrls[i], tweetDir, `media_${i + 1}`));
+      } catch (error) {
+        results.errors.push(`Failed to download tweet media: ${error}`);
+      }
+    }
+
+    return results;
+  }
+
   /**
    * Download a single image
    * @param imageUrl - URL of the image to download
@@ -169,3 +201,13 @@ export interface AssetDownloadResult {
   bannerImage: string | null;
   errors: string[];
 }
+
+/**
+ * Result of a tweet media download
+ */
+export interface TweetMediaDownloadResult {
+  tweetId: string;
+  tweetDir: string;
+  mediaImages: string[];
+  errors: string[];
+}
@@ -0,0 +1,111 @@
+import { CardAssets } from './types';
+import { CardLayout, ResolvedCardOptions, loadImageSafely } from './cardLayouts';
+import { QrCodeRenderer } from './qrCode';
+import { TwitterUrlParser } from './urlParser';
+import { PrintLayout } from './printLayout';
+import { TextFitter } from './textFit';
+import { RichText } from './richText';
+import { VerificationBadge } from './verificationBadge';
+import { CardRenderingContext } from './renderingContext';
+
+/**
+ * Back side of a double-sided card: logo, name, contact lines and bio on the
+ * left, a QR code on the right. Sized relative to a 1200x630 card.
+ */
+export class CardBackLayout implements CardLayout {
+  readonly name = 'back';
+  readonly description = 'Back side with bio, contact lines, logo and QR code';
+
+  async render(ctx: CardRenderingContext, assets: CardAssets, options: ResolvedCardOptions): Promise<void> {
+    const back = options.back;
+    const profile = assets.profileData;
+    const scale = Math.min(options.width / 1200, options.height / 630);
+    const inset = this.getInset(options, scale);
+    const contentWidth = options.width - inset * 2;
+    const contentHeight = options.height - inset * 2;
+
+    // Background with an accent stripe along the top edge
+    ctx.fillStyle = options.backgroundColor;
+    ctx.fillRect(0, 0, options.width, options.height);
+    ctx.fillStyle = options.accentColor;
+    ctx.fillRect(0, 0, options.width, inset / 2);
+
+    // QR code on the right, vertically centered
+    let textWidth = contentWidth;
+    if (back.showQrCode !== false) {
+      const qrOptions = { ...(options.qrCode || {}), ...(back.qrCode || {}) };
+      const qrSize = back.qrCode?.size || Math.min(contentHeight * 0.7, contentWidth * 0.35);
+      const url = qrOptions.url || TwitterUrlParser.normalizeUrl(profile.username);
+      const qrX = options.width - inset - qrSize;
+      const qrY = inset + (contentHeight - qrSize) / 2;
+
+      QrCodeRenderer.draw(ctx, url, qrX, qrY, { ...qrOptions, size: qrSize });
+      textWidth = contentWidth - qrSize - 40 * scale;
+    }
+
+    let currentY = inset;
+
+    // Logo, contained in a box at the top-left
+    const logo = back.logoPath ? await loadImageSafely(back.logoPath, 'back logo') : null;
+    if (logo) {
+      const maxWidth = Math.min(240 * scale, textWidth);
+      const maxHeight = 80 * scale;
+      const logoScale = Math.min(maxWidth / logo.width, maxHeight / logo.height);
+      ctx.drawImage(logo, inset, currentY, logo.width * logoScale, logo.height * logoScale);
+      currentY += logo.height * logoScale + 24 * scale;
+    }
+
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'top';
+
+    ctx.fillStyle = options.textColor;
+    const badge = options.showBadge ? VerificationBadge.getType(profile) : 'none';
+    VerificationBadge.drawNameWithBadge(ctx, profile.name, badge, inset, currentY, {
+      fontSize: 34 * scale, minFontSize: 24 * scale, fontStyle: 'bold', fontFamily: options.fontFamily, maxWidth: textWidth
+    });
+    currentY += 44 * scale;
+
+    ctx.fillStyle = options.secondaryTextColor;
+    TextFitter.draw(ctx, `@${profile.username}`, inset, currentY, {
+      fontSize: 24 * scale, minFontSize: 18 * scale, fontFamily: options.fontFamily, maxWidth: textWidth, maxLines: 1
+    });
+    currentY += 44 * scale;
+
+    // Custom contact lines (email, phone, website...)
+    const contactLines = back.contactLines || [];
+    if (contactLines.length > 0) {
+      ctx.fillStyle = options.textColor;
+      for (const line of contactLines) {
+        TextFitter.draw(ctx, line, inset, currentY, {
+          fontSize: 22 * scale, minFontSize: 16 * scale, fontFamily: options.fontFamily, maxWidth: textWidth, maxLines: 1
+        });
+        currentY += 32 * scale;
+      }
+      currentY += 12 * scale;
+    }
+
+    // Bio fills whatever height is left
+    if (back.showBio !== false && profile.description) {
+      ctx.fillStyle = options.textColor;
+      RichText.draw(ctx, profile.getExpandedDescription(), inset, currentY, {
+        fontSize: 20 * scale,
+        minFontSize: 16 * scale,
+        fontFamily: options.fontFamily,
+        maxWidth: textWidth,
+        maxHeight: options.height - inset - currentY,
+        lineHeight: 28 * scale
+      }, options.accentColor);
+    }
+  }
+
+  /**
+   * Content inset; on PDF output it clears the bleed and safe zone
+   */
+  private getInset(options: ResolvedCardOptions, scale: number): number {
+    if (options.outputFormat === 'pdf') {
+      const print = PrintLayout.resolve(options.print).options;
+      return (print.bleed + print.safeZone) * print.dpi;
+    }
+    return 60 * scale;
+  }
+}
@@ -0,0 +1,1218 @@
+import { loadImage, Image } from 'canvas';
+import { TwitterProfileData, CardGenerationOptions, CardAssets } from './types';
+import { DEFAULT_PRINT_OPTIONS, PrintLayout } from './printLayout';
+import { TextFitter, TextFitOptions } from './textFit';
+import { RichText, RichTextToken } from './richText';
+import { CardLocale } from './locale';
+import { ImageFitter } from './imageFit';
+import { VerificationBadge, VerificationBadgeType } from './verificationBadge';
+import { CardRenderingContext } from './renderingContext';
+
+/**
+ * Card generation options with every default filled in
+ */
+export type ResolvedCardOptions = Required<CardGenerationOptions>;
+
+/**
+ * Load an image, logging a warning instead of failing the whole card
+ * @param imagePath - Image file path
+ * @param label - What the image is, for the warning
+ * @returns Promise<Image | null> - The image, or null if it couldn't be loaded
+ */
+export async function loadImageSafely(imagePath: string, label: string): Promise<Image | null> {
+  try {
+    return await loadImage(imagePath);
+  } catch (error) {
+    console.warn(`Failed to load ${label}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Distance content keeps from the card edges. On PDF output it is at least the
+ * bleed plus the safe zone, so nothing is trimmed off or printed too close to the cut.
+ * @param options - Resolved card options
+ * @param scale - Canvas pixels per layout unit
+ * @param margin - The layout's own margin, in layout units
+ * @returns Inset in layout units
+ */
+export function getContentInset(options: ResolvedCardOptions, scale: number, margin: number): number {
+  if (options.outputFormat !== 'pdf') {
+    return margin;
+  }
+  const print = PrintLayout.resolve(options.print).options;
+  return Math.max(margin, (print.bleed + print.safeZone) * print.dpi / scale);
+}
+
+/**
+ * A card layout draws every element of a profile card for one card style
+ */
+export interface CardLayout {
+  /** Style name used to select the layout (e.g. "modern") */
+  readonly name: string;
+  /** Short human readable description shown in CLI help */
+  readonly description?: string;
+  /**
+   * Render the full card onto the canvas context
+   * @param ctx - Canvas 2D context sized to options.width x options.height
+   * @param assets - Profile assets and data
+   * @param options - Resolved card generation options
+   */
+  render(ctx: CardRenderingContext, assets: CardAssets, options: ResolvedCardOptions): Promise<void>;
+}
+
+/**
+ * Base class for the built-in layouts.
+ * Subclasses decide where the banner, avatar, info, stats and bio are placed.
+ */
+export abstract class BaseCardLayout implements CardLayout {
+  abstract readonly name: string;
+  abstract readonly description: string;
+
+  /**
+   * Card size the layout's pixel constants are designed for. The layout is drawn
+   * scaled so this size fits the card, and the remaining side is extended, so
+   * every card size keeps the same proportions. Layouts that derive all positions
+   * from options.width/height set this to null.
+   */
+  protected readonly referenceSize: { width: number; height: number } | null = { width: 1200, height: 630 };
+
+  async render(ctx: CardRenderingContext, assets: CardAssets, options: ResolvedCardOptions): Promise<void> {
+    const scale = this.getScale(options.width, options.height);
+    const scaled = { ...options, width: options.width / scale, height: options.height / scale };
+
+    ctx.save();
+    ctx.scale(scale, scale);
+
+    this.drawBackground(ctx, scaled);
+
+    if (scaled.showBanner && assets.bannerImagePath) {
+      await this.drawBanner(ctx, assets.bannerImagePath, scaled);
+    }
+
+    if (assets.profileImagePath) {
+      await this.drawProfileImage(ctx, assets.profileImagePath, scaled);
+    }
+
+    this.drawProfileInfo(ctx, assets.profileData, scaled);
+
+    if (scaled.showStats && scaled.stats.length > 0) {
+      this.drawStats(ctx, assets.profileData, scaled);
+    }
+
+    if (scaled.showDescription && assets.profileData.description) {
+      this.drawDescription(ctx, assets.profileData.getExpandedDescription(), scaled);
+    }
+
+    if (scaled.profileDetails.length > 0) {
+      this.drawDetails(ctx, assets.profileData, scaled);
+    }
+
+    ctx.restore();
+  }
+
+  /**
+   * Distance content keeps from the card edges in reference units: the
+   * layout's own margin, or on PDF output the bleed plus safe zone if larger.
+   * PDF cards are drawn at the artwork size, so the scale follows from the print geometry.
+   */
+  protected getInset(options: ResolvedCardOptions, margin: number): number {
+    if (options.outputFormat !== 'pdf') {
+      return margin;
+    }
+    const geometry = PrintLayout.resolve(options.print);
+    return getContentInset(options, this.getScale(geometry.artworkWidthPx, geometry.artworkHeightPx), margin);
+  }
+
+  /**
+   * Draw card background
+   */
+  protected drawBackground(ctx: CardRenderingContext, options: ResolvedCardOptions): void {
+    ctx.fillStyle = options.backgroundColor;
+    ctx.fillRect(0, 0, options.width, options.height);
+  }
+
+  protected abstract drawBanner(
+    ctx: CardRenderingContext,
+    bannerPath: string,
+    options: ResolvedCardOptions
+  ): Promise<void>;
+
+  protected abstract drawProfileImage(
+    ctx: CardRenderingContext,
+    profilePath: string,
+    options: ResolvedCardOptions
+  ): Promise<void>;
+
+  protected abstract drawProfileInfo(
+    ctx: CardRenderingContext,
+    profileData: TwitterProfileData,
+    options: ResolvedCardOptions
+  ): void;
+
+  protected abstract drawStats(
+    ctx: CardRenderingContext,
+    profileData: TwitterProfileData,
+    options: ResolvedCardOptions
+  ): void;
+
+  protected abstract drawDescription(
+    ctx: CardRenderingContext,
+    description: string,
+    options: ResolvedCardOptions
+  ): void;
+
+  /**
+   * Draw the location, website, join date and pinned tweet rows requested in
+   * options.profileDetails. Layouts without room for them keep this no-op.
+   */
+  protected drawDetails(
+    _ctx: CardRenderingContext,
+    _profileData: TwitterProfileData,
+    _options: ResolvedCardOptions
+  ): void {
+    // No detail rows by default
+  }
+
+  /**
+   * Draw an image clipped to a circle with a border in the background color;
+   * the avatarBorderWidth option overrides the layout's borderWidth.
+   * The image is fitted to the circle with the avatar fit mode and focal point.
+   */
+  protected drawCircularImage(
+    ctx: CardRenderingContext,
+    image: Image,
+    x: number,
+    y: number,
+    size: number,
+    options: ResolvedCardOptions,
+    borderWidth: number = 4
+  ): void {
+    ctx.save();
+    ctx.beginPath();
+    ctx.arc(x + size / 2, y + size / 2, size / 2, 0, Math.PI * 2);
+    ctx.clip();
+    const rect = ImageFitter.getDrawRect(image.width, image.height, { x, y, width: size, height: size }, options.avatarFit, options.avatarFocus);
+    ctx.drawImage(image, rect.x, rect.y, rect.width, rect.height);
+    ctx.restore();
+
+    const width = options.avatarBorderWidth ?? borderWidth;
+    if (width > 0) {
+      ctx.strokeStyle = options.backgroundColor;
+      ctx.lineWidth = width;
+      ctx.beginPath();
+      ctx.arc(x + size / 2, y + size / 2, size / 2, 0, Math.PI * 2);
+      ctx.stroke();
+    }
+  }
+
+  /**
+   * Split text into lines that fit within maxWidth using the current font
+   */
+  protected wrapText(ctx: CardRenderingContext, text: string, maxWidth: number): string[] {
+    return TextFitter.wrap(ctx, text, maxWidth);
+  }
+
+  /**
+   * Get the verification badge to show, or "none" when badges are hidden
+   */
+  protected getBadgeType(profileData: TwitterProfileData, options: ResolvedCardOptions): VerificationBadgeType {
+    return options.showBadge ? VerificationBadge.getType(profileData) : 'none';
+  }
+
+  /**
+   * Number of detail rows requested: one shared by location, website and join
+   * date, one for the pinned tweet. Layouts reserve the rows even when the
+   * profile lacks the data, so the rest of the card doesn't move between profiles.
+   */
+  protected getDetailRowCount(options: ResolvedCardOptions): number {
+    const details = options.profileDetails;
+    return (details.some(detail => detail !== 'pinnedTweet') ? 1 : 0) + (details.includes('pinnedTweet') ? 1 : 0);
+  }
+
+  /**
+   * Draw location, website and join date on one line, like X's profile header:
+   * secondary text color with the website in the accent color
+   */
+  protected drawDetailLine(
+    ctx: CardRenderingContext,
+    profileData: TwitterProfileData,
+    x: number,
+    y: number,
+    fit: TextFitOptions,
+    options: ResolvedCardOptions
+  ): void {
+    const details = options.profileDetails;
+    const items: RichTextToken[] = [];
+    if (details.includes('location') && profileData.location) {
+      items.push({ type: 'text', text: profileData.location });
+    }
+    if (details.includes('website') && profileData.websiteDisplayUrl) {
+      items.push({ type: 'url', text: profileData.websiteDisplayUrl });
+    }
+    if (details.includes('joinDate') && profileData.createdAt) {
+      items.push({ type: 'text', text: profileData.getFormattedJoinDate(options.locale) });
+    }
+    if (items.length === 0) {
+      return;
+    }
+
+    const tokens = items.flatMap((item, index): RichTextToken[] =>
+      index > 0 ? [{ type: 'text', text: ' · ' }, item] : [item]
+    );
+    ctx.fillStyle = options.secondaryTextColor;
+    RichText.drawTokens(ctx, tokens, x, y, { ...fit, maxLines: 1 }, options.accentColor);
+  }
+
+  /**
+   * Draw the pinned tweet as a single clamped line after a "Pinned:" label
+   */
+  protected drawPinnedTweet(
+    ctx: CardRenderingContext,
+    profileData: TwitterProfileData,
+    x: number,
+    y: number,
+    fit: TextFitOptions,
+    options: ResolvedCardOptions
+  ): void {
+    if (!options.profileDetails.includes('pinnedTweet') || !profileData.pinnedTweetText) {
+      return;
+    }
+
+    const label = CardLocale.getDetailLabels(options.locale).pinned;
+    const tokens: RichTextToken[] = [
+      { type: 'text', text: `${label}: ` },
+      ...RichText.tokenize(profileData.pinnedTweetText.replace(/\s+/g, ' '))
+    ];
+    // Tweets are long, so clamp them at full size instead of shrinking first
+    ctx.fillStyle = options.secondaryTextColor;
+    RichText.drawTokens(ctx, tokens, x, y, { ...fit, minFontSize: fit.fontSize, maxLines: 1 }, options.accentColor);
+  }
+
+  /**
+   * Draw the detail line and the pinned tweet below it, in the rows counted by getDetailRowCount
+   */
+  protected drawDetailRows(
+    ctx: CardRenderingContext,
+    profileData: TwitterProfileData,
+    x: number,
+    y: number,
+    fit: TextFitOptions,
+    options: ResolvedCardOptions
+  ): void {
+    const lineHeight = fit.lineHeight ?? fit.fontSize * 1.4;
+    this.drawDetailLine(ctx, profileData, x, y, fit, options);
+    this.drawPinnedTweet(ctx, profileData, x, y + (this.getDetailRowCount(options) - 1) * lineHeight, fit, options);
+  }
+
+  /**
+   * Get the stat values and labels selected in options.stats, in the card locale
+   */
+  protected getStatItems(
+    profileData: TwitterProfileData,
+    options: ResolvedCardOptions
+  ): Array<{ value: string; label: string }> {
+    const labels = CardLocale.getLabels(options.locale);
+    return options.stats.map(metric => ({
+      value: CardLocale.formatCount(profileData.getStatCount(metric), options.locale),
+      label: labels[metric]
+    }));
+  }
+
+  /**
+   * Measure text in the given font. Leaves ctx.font set to it.
+   */
+  protected measureText(ctx: CardRenderingContext, font: string, text: string): number {
+    ctx.font = font;
+    return ctx.measureText(text).width;
+  }
+
+  /**
+   * Canvas pixels per reference unit for a card of the given size
+   */
+  private getScale(width: number, height: number): number {
+    return this.referenceSize
+      ? Math.min(width / this.referenceSize.width, height / this.referenceSize.height)
+      : 1;
+  }
+
+  /**
+   * Find the largest scale, from 1 down to minScale, at which the measured
+   * width fits maxWidth. Stats use it to shrink their fonts and gaps together.
+   * @param measure - Total width at a given scale
+   * @param maxWidth - Available width
+   * @param minScale - Smallest scale allowed; content may overflow at this scale
+   * @returns Scale factor
+   */
+  protected fitScale(measure: (scale: number) => number, maxWidth: number, minScale: number = 0.6): number {
+    let scale = 1;
+    while (scale - 0.05 >= minScale && measure(scale) > maxWidth) {
+      scale = Math.round((scale - 0.05) * 100) / 100;
+    }
+    return scale;
+  }
+}
+
+/**
+ * Modern layout: banner across the top, avatar overlapping its bottom-left edge
+ * and left-aligned text below
+ */
+export class ModernLayout extends BaseCardLayout {
+  readonly name = 'modern';
+  readonly description = 'Banner on top, avatar overlapping it, left-aligned details';
+
+  /**
+   * Draw banner image
+   */
+  protected async drawBanner(
+    ctx: CardRenderingContext,
+    bannerPath: string,
+    options: ResolvedCardOptions
+  ): Promise<void> {
+    const bannerImage = await loadImageSafely(bannerPath, 'banner image');
+    if (!bannerImage) {
+      return;
+    }
+
+    const bannerHeight = Math.floor(options.height * 0.4);
+
+    ImageFitter.draw(
+      ctx,
+      bannerImage,
+      { x: 0, y: 0, width: options.width, height: bannerHeight },
+      options.bannerFit,
+      options.bannerFocus
+    );
+
+    // Add overlay for better text readability
+    const overlay = ctx.createLinearGradient(0, 0, 0, bannerHeight);
+    overlay.addColorStop(0, 'rgba(0, 0, 0, 0.3)');
+    overlay.addColorStop(1, 'rgba(0, 0, 0, 0.7)');
+    ctx.fillStyle = overlay;
+    ctx.fillRect(0, 0, options.width, bannerHeight);
+  }
+
+  /**
+   * Draw profile image
+   */
+  protected async drawProfileImage(
+    ctx: CardRenderingContext,
+    profilePath: string,
+    options: ResolvedCardOptions
+  ): Promise<void> {
+    const profileImage = await loadImageSafely(profilePath, 'profile image');
+    if (!profileImage) {
+      return;
+    }
+
+    const profileSize = 120;
+    const x = this.getInset(options, 60);
+    const y = options.showBanner ? Math.floor(options.height * 0.4) - profileSize / 2 : this.getInset(options, 60);
+
+    this.drawCircularImage(ctx, profileImage, x, y, profileSize, options);
+  }
+
+  /**
+   * Draw profile information (name with verification badge, username)
+   */
+  protected drawProfileInfo(
+    ctx: CardRenderingContext,
+    profileData: TwitterProfileData,
+    options: ResolvedCardOptions
+  ): void {
+    const startY = options.showBanner ? Math.floor(options.height * 0.4) + 20 : 200;
+    const x = this.getInset(options, 60);
+    const maxWidth = options.width - x * 2;
+    let currentY = startY;
+
+    // Name, shrunk to fit the card width, and verification badge
+    ctx.fillStyle = options.textColor;
+    VerificationBadge.drawNameWithBadge(ctx, profileData.name, this.getBadgeType(profileData, options), x, currentY, {
+      fontSize: 36, minFontSize: 24, fontStyle: 'bold', fontFamily: options.fontFamily, maxWidth
+    });
+    currentY += 50;
+
+    // Username with @ symbol
+    ctx.fillStyle = options.secondaryTextColor;
+    TextFitter.draw(ctx, `@${profileData.username}`, x, currentY, {
+      fontSize: 28, minFontSize: 20, fontFamily: options.fontFamily, maxWidth, maxLines: 1
+    });
+  }
+
+  /**
+   * Draw detail rows between the username and the stats
+   */
+  protected drawDetails(
+    ctx: CardRenderingContext,
+    profileData: TwitterProfileData,
+    options: ResolvedCardOptions
+  ): void {
+    const x = this.getInset(options, 60);
+    const startY = (options.showBanner ? Math.floor(options.height * 0.4) + 20 : 200) + 96;
+
+    this.drawDetailRows(ctx, profileData, x, startY, {
+      fontSize: 20, minFontSize: 16, fontFamily: options.fontFamily, maxWidth: options.width - x * 2, lineHeight: 28
+    }, options);
+  }
+
+  /**
+   * Draw profile statistics
+   */
+  protected drawStats(
+    ctx: CardRenderingContext,
+    profileData: TwitterProfileData,
+    options: ResolvedCardOptions
+  ): void {
+    const startY = options.showBanner ? Math.floor(options.height * 0.4) + 200 : 400;
+    const x = this.getInset(options, 60);
+    const gap = 40;
+    const stats = this.getStatItems(profileData, options);
+
+    // Each column is as wide as its value or label; shrink everything if the row is too wide
+    const columnWidths = (scale: number) => stats.map(stat => Math.max(
+      this.measureText(ctx, `bold ${24 * scale}px ${options.fontFamily}`, stat.value),
+      this.measureText(ctx, `${18 * scale}px ${options.fontFamily}`, stat.label)
+    ));
+    const scale = this.fitScale(
+      s => columnWidths(s).reduce((sum, width) => sum + width, 0) + gap * s * (stats.length - 1),
+      options.width - x * 2
+    );
+    const widths = columnWidths(scale);
+
+    let currentX = x;
+    stats.forEach((stat, index) => {
+      ctx.fillStyle = options.textColor;
+      ctx.font = `bold ${24 * scale}px ${options.fontFamily}`;
+      ctx.fillText(stat.value, currentX, startY);
+      ctx.fillStyle = options.secondaryTextColor;
+      ctx.font = `${18 * scale}px ${options.fontFamily}`;
+      ctx.fillText(stat.label, currentX, startY + 30 * scale);
+      currentX += widths[index] + gap * scale;
+    });
+  }
+
+  /**
+   * Draw profile description
+   */
+  protected drawDescription(
+    ctx: CardRenderingContext,
+    description: string,
+    options: ResolvedCardOptions
+  ): void {
+    const startY = options.showBanner ? Math.floor(options.height * 0.4) + 300 : 500;
+    const x = this.getInset(options, 60);
+
+    ctx.fillStyle = options.textColor;
+    RichText.draw(ctx, description, x, startY, {
+      fontSize: 20,
+      minFontSize: 16,
+      fontFamily: options.fontFamily,
+      maxWidth: options.width - x * 2,
+      maxHeight: options.height - this.getInset(options, 20) - startY,
+      maxLines: options.descriptionMaxLines ?? undefined,
+      lineHeight: 30
+    }, options.accentColor);
+  }
+}
+
+/**
+ * Classic layout: full-width banner, centered avatar and centered text,
+ * stats in a bordered row like a traditional business card
+ */
+export class ClassicLayout extends BaseCardLayout {
+  readonly name = 'classic';
+  readonly description = 'Centered avatar, name and stats under a full-width banner';
+
+  /**
+   * Draw banner across the full card width, 35% of the height
+   */
+  protected async drawBanner(
+    ctx: CardRenderingContext,
+    bannerPath: string,
+    options: ResolvedCardOptions
+  ): Promise<void> {
+    const bannerImage = await loadImageSafely(bannerPath, 'banner image');
+    if (!bannerImage) {
+      return;
+    }
+
+    const bannerHeight = Math.floor(options.height * 0.35);
+
+    ImageFitter.draw(
+      ctx,
+      bannerImage,
+      { x: 0, y: 0, width: options.width, height: bannerHeight },
+      options.bannerFit,
+      options.bannerFocus
+    );
+
+    // Accent rule separating banner from content
+    ctx.fillStyle = options.accentColor;
+    ctx.fillRect(0, bannerHeight, options.width, 4);
+  }
+
+  /**
+   * Draw profile image centered on the banner edge
+   */
+  protected async drawProfileImage(
+    ctx: CardRenderingContext,
+    profilePath: string,
+    options: ResolvedCardOptions
+  ): Promise<void> {
+    const profileImage = await loadImageSafely(profilePath, 'profile image');
+    if (!profileImage) {
+      return;
+    }
+
+    const profileSize = 140;
+    const x = (options.width - profileSize) / 2;
+    const y = this.getAvatarTop(options);
+
+    this.drawCircularImage(ctx, profileImage, x, y, profileSize, options, 6);
+  }
+
+  /**
+   * Draw centered name with verification badge and username
+   */
+  protected drawProfileInfo(
+    ctx: CardRenderingContext,
+    profileData: TwitterProfileData,
+    options: ResolvedCardOptions
+  ): void {
+    const centerX = options.width / 2;
+    let currentY = this.getAvatarTop(options) + 150;
+
+    ctx.save();
+    ctx.textAlign = 'center';
+
+    const maxWidth = options.width - this.getInset(options, 120) * 2;
+
+    ctx.fillStyle = options.textColor;
+    VerificationBadge.drawNameWithBadge(ctx, profileData.name, this.getBadgeType(profileData, options), centerX, currentY, {
+      fontSize: 38, minFontSize: 26, fontStyle: 'bold', fontFamily: options.fontFamily, maxWidth
+    });
+    currentY += 48;
+
+    ctx.fillStyle = options.secondaryTextColor;
+    TextFitter.draw(ctx, `@${profileData.username}`, centerX, currentY, {
+      fontSize: 26, minFontSize: 18, fontFamily: options.fontFamily, maxWidth, maxLines: 1
+    });
+
+    ctx.restore();
+  }
+
+  /**
+   * Draw stats as evenly spaced centered columns separated by vertical rules
+   */
+  protected drawStats(
+    ctx: CardRenderingContext,
+    profileData: TwitterProfileData,
+    options: ResolvedCardOptions
+  ): void {
+    const stats = this.getStatItems(profileData, options);
+    const startY = this.getAvatarTop(options) + 240;
+
+    // Columns fit their value or label plus padding, at least 180px as before
+    const columnWidths = (scale: number) => stats.map(stat => Math.max(
+      180 * scale,
+      this.measureText(ctx, `bold ${26 * scale}px ${options.fontFamily}`, stat.value) + 60 * scale,
+      this.measureText(ctx, `${18 * scale}px ${options.fontFamily}`, stat.label) + 60 * scale
+    ));
+    const scale = this.fitScale(
+      s => columnWidths(s).reduce((sum, width) => sum + width, 0),
+      options.width - this.getInset(options, 60) * 2
+    );
+    const widths = columnWidths(scale);
+    let columnX = (options.width - widths.reduce((sum, width) => sum + width, 0)) / 2;
+
+    ctx.save();
+    ctx.textAlign = 'center';
+
+    stats.forEach((stat, index) => {
+      const centerX = columnX + widths[index] / 2;
+
+      ctx.fillStyle = options.textColor;
+      ctx.font = `bold ${26 * scale}px ${options.fontFamily}`;
+      ctx.fillText(stat.value, centerX, startY);
+      ctx.fillStyle = options.secondaryTextColor;
+      ctx.font = `${18 * scale}px ${options.fontFamily}`;
+      ctx.fillText(stat.label, centerX, startY + 32 * scale);
+
+      if (index > 0) {
+        ctx.fillStyle = options.dividerColor;
+        ctx.fillRect(columnX, startY, 1, 52 * scale);
+      }
+      columnX += widths[index];
+    });
+
+    ctx.restore();
+  }
+
+  /**
+   * Draw centered detail rows below the stats
+   */
+  protected drawDetails(
+    ctx: CardRenderingContext,
+    profileData: TwitterProfileData,
+    options: ResolvedCardOptions
+  ): void {
+    ctx.save();
+    ctx.textAlign = 'center';
+    this.drawDetailRows(ctx, profileData, options.width / 2, this.getAvatarTop(options) + (options.showStats ? 306 : 236), {
+      fontSize: 20, minFontSize: 16, fontFamily: options.fontFamily, maxWidth: options.width - this.getInset(options, 120) * 2, lineHeight: 28
+    }, options);
+    ctx.restore();
+  }
+
+  /**
+   * Draw centered, wrapped description below the stats and detail rows
+   */
+  protected drawDescription(
+    ctx: CardRenderingContext,
+    description: string,
+    options: ResolvedCardOptions
+  ): void {
+    const centerX = options.width / 2;
+    const startY = this.getAvatarTop(options) + (options.showStats ? 320 : 240) + this.getDetailRowCount(options) * 28;
+
+    ctx.save();
+    ctx.textAlign = 'center';
+    ctx.fillStyle = options.textColor;
+    RichText.draw(ctx, description, centerX, startY, {
+      fontSize: 20,
+      minFontSize: 16,
+      fontStyle: 'italic',
+      fontFamily: options.fontFamily,
+      maxWidth: options.width - this.getInset(options, 120) * 2,
+      maxHeight: options.height - this.getInset(options, 20) - startY,
+      maxLines: options.descriptionMaxLines ?? undefined,
+      lineHeight: 28
+    }, options.accentColor);
+
+    ctx.restore();
+  }
+
+  private getAvatarTop(options: ResolvedCardOptions): number {
+    return options.showBanner ? Math.floor(options.height * 0.35) - 70 : this.getInset(options, 40);
+  }
+}
+
+/**
+ * Minimal layout: no banner image, a thin accent stripe, small avatar beside
+ * the name and stats condensed to a single line
+ */
+export class MinimalLayout extends BaseCardLayout {
+  readonly name = 'minimal';
+  readonly description = 'Accent stripe, small avatar beside the name, single-line stats';
+
+  /**
+   * Minimal cards replace the banner image with an accent stripe
+   */
+  protected async drawBanner(
+    ctx: CardRenderingContext,
+    _bannerPath: string,
+    options: ResolvedCardOptions
+  ): Promise<void> {
+    ctx.fillStyle = options.accentColor;
+    ctx.fillRect(0, 0, 12, options.height);
+  }
+
+  /**
+   * Draw a small avatar to the left of the name
+   */
+  protected async drawProfileImage(
+    ctx: CardRenderingContext,
+    profilePath: string,
+    options: ResolvedCardOptions
+  ): Promise<void> {
+    const profileImage = await loadImageSafely(profilePath, 'profile image');
+    if (!profileImage) {
+      return;
+    }
+
+    const inset = this.getInset(options, 80);
+    this.drawCircularImage(ctx, profileImage, inset, inset, 96, options, 0);
+  }
+
+  /**
+   * Draw name and username beside the avatar
+   */
+  protected drawProfileInfo(
+    ctx: CardRenderingContext,
+    profileData: TwitterProfileData,
+    options: ResolvedCardOptions
+  ): void {
+    const inset = this.getInset(options, 80);
+    const x = inset + 120;
+    const maxWidth = options.width - x - inset;
+
+    ctx.fillStyle = options.textColor;
+    VerificationBadge.drawNameWithBadge(ctx, profileData.name, this.getBadgeType(profileData, options), x, inset + 8, {
+      fontSize: 40, minFontSize: 26, fontStyle: 'bold', fontFamily: options.fontFamily, maxWidth
+    });
+
+    ctx.fillStyle = options.secondaryTextColor;
+    TextFitter.draw(ctx, `@${profileData.username}`, x, inset + 60, {
+      fontSize: 26, minFontSize: 18, fontFamily: options.fontFamily, maxWidth, maxLines: 1
+    });
+  }
+
+  /**
+   * Draw stats as a single line, e.g. "1.2K Followers · 300 Following · 4K Tweets"
+   */
+  protected drawStats(
+    ctx: CardRenderingContext,
+    profileData: TwitterProfileData,
+    options: ResolvedCardOptions
+  ): void {
+    const inset = this.getInset(options, 80);
+    const y = options.height - inset - 22;
+    const stats = this.getStatItems(profileData, options);
+
+    // Shrink the line until every stat fits between the margins
+    const fontSize = 22 * this.fitScale(scale => stats.reduce((width, stat, index) =>
+      width
+        + (index > 0 ? this.measureText(ctx, `${22 * scale}px ${options.fontFamily}`, ' · ') : 0)
+        + this.measureText(ctx, `bold ${22 * scale}px ${options.fontFamily}`, `${stat.value} `)
+        + this.measureText(ctx, `${22 * scale}px ${options.fontFamily}`, stat.label),
+    0), options.width - inset * 2);
+    let currentX = inset;
+
+    stats.forEach((stat, index) => {
+      if (index > 0) {
+        ctx.fillStyle = options.secondaryTextColor;
+        ctx.font = `${fontSize}px ${options.fontFamily}`;
+        ctx.fillText(' · ', currentX, y);
+        currentX += ctx.measureText(' · ').width;
+      }
+
+      ctx.fillStyle = options.textColor;
+      ctx.font = `bold ${fontSize}px ${options.fontFamily}`;
+      ctx.fillText(stat.value, currentX, y);
+      currentX += ctx.measureText(`${stat.value} `).width;
+
+      ctx.fillStyle = options.secondaryTextColor;
+      ctx.font = `${fontSize}px ${options.fontFamily}`;
+      ctx.fillText(stat.label, currentX, y);
+      currentX += ctx.measureText(stat.label).width;
+    });
+  }
+
+  /**
+   * Draw detail rows under the username
+   */
+  protected drawDetails(
+    ctx: CardRenderingContext,
+    profileData: TwitterProfileData,
+    options: ResolvedCardOptions
+  ): void {
+    const inset = this.getInset(options, 80);
+    this.drawDetailRows(ctx, profileData, inset, inset + 102, {
+      fontSize: 20, minFontSize: 16, fontFamily: options.fontFamily, maxWidth: options.width - inset * 2, lineHeight: 28
+    }, options);
+  }
+
+  /**
+   * Draw description between the header and the stats line
+   */
+  protected drawDescription(
+    ctx: CardRenderingContext,
+    description: string,
+    options: ResolvedCardOptions
+  ): void {
+    const inset = this.getInset(options, 80);
+    const bottom = options.showStats ? options.height - inset - 50 : options.height - this.getInset(options, 60);
+    // The first detail row fits in the gap above the bio; further rows push it down
+    const startY = inset + 150 + Math.max(0, this.getDetailRowCount(options) - 1) * 28;
+
+    ctx.fillStyle = options.textColor;
+    RichText.draw(ctx, description, inset, startY, {
+      fontSize: 22,
+      minFontSize: 18,
+      fontFamily: options.fontFamily,
+      maxWidth: options.width - inset * 2,
+      maxHeight: bottom - startY,
+      maxLines: options.descriptionMaxLines ?? undefined,
+      lineHeight: 32
+    }, options.accentColor);
+  }
+}
+
+/**
+ * Unit grid from docs/manual_card_making_process.md. The card is 56 x 32 units
+ * (16 units per inch on a 3.5" x 2" card); everything else is placed in units
+ * relative to the horizontal center line.
+ */
+export const BUSINESS_CARD_GRID = {
+  columns: 56,
+  rows: 32,
+  /** Banner bottom edge, in units above the center line */
+  bannerBottomAboveCenter: 7,
+  /** Circular avatar size in units */
+  avatarSize: 11,
+  /** Avatar gap below the banner bottom edge */
+  avatarBelowBanner: 1,
+  /** Avatar gap from the left edge */
+  avatarLeft: 1.5
+};
+
+/**
+ * Position and scale of the unit grid on the canvas
+ */
+interface GridFrame {
+  unit: number;
+  left: number;
+  top: number;
+}
+
+/**
+ * Business card layout reproducing the hand-made Vistaprint cards.
+ * Defined in grid units so it scales to any target size; on PDF output the
+ * grid maps to the trim box and the bleed is filled around it.
+ */
+export class BusinessCardLayout extends BaseCardLayout {
+  readonly name = 'business';
+  readonly description = 'Unit-grid business card matching the manual Vistaprint layout';
+  protected readonly referenceSize = null;
+
+  async render(ctx: CardRenderingContext, assets: CardAssets, options: ResolvedCardOptions): Promise<void> {
+    await super.render(ctx, assets, options);
+
+    if (options.showGuides) {
+      this.drawGuides(ctx, options);
+    }
+  }
+
+  /**
+   * Banner spans the full width down to 7 units above the center line
+   */
+  protected async drawBanner(
+    ctx: CardRenderingContext,
+    bannerPath: string,
+    options: ResolvedCardOptions
+  ): Promise<void> {
+    const bannerImage = await loadImageSafely(bannerPath, 'banner image');
+    if (!bannerImage) {
+      return;
+    }
+
+    const bannerBottom = this.toY(this.getBannerBottomUnits(), options);
+
+    ImageFitter.draw(
+      ctx,
+      bannerImage,
+      { x: 0, y: 0, width: options.width, height: bannerBottom },
+      options.bannerFit,
+      options.bannerFocus
+    );
+  }
+
+  /**
+   * Circular 11x11 unit avatar, 1 unit below the banner and 1.5 units from the left
+   */
+  protected async drawProfileImage(
+    ctx: CardRenderingContext,
+    profilePath: string,
+    options: ResolvedCardOptions
+  ): Promise<void> {
+    const profileImage = await loadImageSafely(profilePath, 'profile image');
+    if (!profileImage) {
+      return;
+    }
+
+    const { unit } = this.getFrame(options);
+    this.drawCircularImage(
+      ctx,
+      profileImage,
+      this.toX(BUSINESS_CARD_GRID.avatarLeft, options),
+      this.toY(this.getAvatarTopUnits(), options),
+      BUSINESS_CARD_GRID.avatarSize * unit,
+      options,
+      0
+    );
+  }
+
+  /**
+   * Name and username to the right of the avatar
+   */
+  protected drawProfileInfo(
+    ctx: CardRenderingContext,
+    profileData: TwitterProfileData,
+    options: ResolvedCardOptions
+  ): void {
+    const { unit } = this.getFrame(options);
+    const x = this.toX(this.getTextLeftUnits(), options);
+    const top = this.getAvatarTopUnits();
+
+    const maxWidth = (BUSINESS_CARD_GRID.columns - BUSINESS_CARD_GRID.avatarLeft - this.getTextLeftUnits()) * unit;
+
+    ctx.fillStyle = options.textColor;
+    VerificationBadge.drawNameWithBadge(ctx, profileData.name, this.getBadgeType(profileData, options), x, this.toY(top + 1.5, options), {
+      fontSize: 2.6 * unit, minFontSize: 1.8 * unit, fontStyle: 'bold', fontFamily: options.fontFamily, maxWidth
+    });
+
+    ctx.fillStyle = options.secondaryTextColor;
+    TextFitter.draw(ctx, `@${profileData.username}`, x, this.toY(top + 4.6, options), {
+      fontSize: 1.8 * unit, minFontSize: 1.3 * unit, fontFamily: options.fontFamily, maxWidth, maxLines: 1
+    });
+  }
+
+  /**
+   * Stats on one line to the right of the avatar, level with its lower half
+   */
+  protected drawStats(
+    ctx: CardRenderingContext,
+    profileData: TwitterProfileData,
+    options: ResolvedCardOptions
+  ): void {
+    const { unit } = this.getFrame(options);
+    const y = this.toY(this.getAvatarTopUnits() + 7.6, options);
+    const stats = this.getStatItems(profileData, options);
+    const maxWidth = (BUSINESS_CARD_GRID.columns - BUSINESS_CARD_GRID.avatarLeft - this.getTextLeftUnits()) * unit;
+
+    // Shrink text and gaps together until the row fits to the right edge of the
+    // grid; all six stats need a little under half the normal size, and about
+    // a third with long counts and labels
+    const scale = this.fitScale(s => stats.reduce((width, stat, index) =>
+      width
+        + (index > 0 ? 2 * unit * s : 0)
+        + this.measureText(ctx, `bold ${1.6 * unit * s}px ${options.fontFamily}`, `${stat.value} `)
+        + this.measureText(ctx, `${1.6 * unit * s}px ${options.fontFamily}`, stat.label),
+    0), maxWidth, 0.3);
+    const fontSize = 1.6 * unit * scale;
+    let currentX = this.toX(this.getTextLeftUnits(), options);
+
+    for (const stat of stats) {
+      ctx.fillStyle = options.textColor;
+      ctx.font = `bold ${fontSize}px ${options.fontFamily}`;
+      ctx.fillText(stat.value, currentX, y);
+      currentX += ctx.measureText(`${stat.value} `).width;
+
+      ctx.fillStyle = options.secondaryTextColor;
+      ctx.font = `${fontSize}px ${options.fontFamily}`;
+      ctx.fillText(stat.label, currentX, y);
+      currentX += ctx.measureText(stat.label).width + 2 * unit * scale;
+    }
+  }
+
+  /**
+   * Location, website and join date under the stats, beside the avatar; the
+   * pinned tweet across the card where the bio starts
+   */
+  protected drawDetails(
+    ctx: CardRenderingContext,
+    profileData: TwitterProfileData,
+    options: ResolvedCardOptions
+  ): void {
+    const { unit } = this.getFrame(options);
+    const top = this.getAvatarTopUnits();
+    const fit = { fontSize: 1.3 * unit, minFontSize: 1.1 * unit, fontFamily: options.fontFamily, lineHeight: 2.1 * unit };
+
+    this.drawDetailLine(ctx, profileData, this.toX(this.getTextLeftUnits(), options), this.toY(top + 9.5, options), {
+      ...fit,
+      maxWidth: (BUSINESS_CARD_GRID.columns - BUSINESS_CARD_GRID.avatarLeft - this.getTextLeftUnits()) * unit
+    }, options);
+    this.drawPinnedTweet(ctx, profileData, this.toX(BUSINESS_CARD_GRID.avatarLeft, options), this.toY(top + BUSINESS_CARD_GRID.avatarSize + 1, options), {
+      ...fit,
+      maxWidth: (BUSINESS_CARD_GRID.columns - BUSINESS_CARD_GRID.avatarLeft * 2) * unit
+    }, options);
+  }
+
+  /**
+   * Bio across the card below the avatar, and below the pinned tweet when shown
+   */
+  protected drawDescription(
+    ctx: CardRenderingContext,
+    description: string,
+    options: ResolvedCardOptions
+  ): void {
+    const { unit } = this.getFrame(options);
+    const x = this.toX(BUSINESS_CARD_GRID.avatarLeft, options);
+    const maxWidth = (BUSINESS_CARD_GRID.columns - BUSINESS_CARD_GRID.avatarLeft * 2) * unit;
+    const bottom = this.toY(BUSINESS_CARD_GRID.rows - BUSINESS_CARD_GRID.avatarLeft, options);
+    const pinnedRow = options.profileDetails.includes('pinnedTweet') ? 2.1 : 0;
+    const startY = this.toY(this.getAvatarTopUnits() + BUSINESS_CARD_GRID.avatarSize + 1 + pinnedRow, options);
+
+    ctx.fillStyle = options.textColor;
+    RichText.draw(ctx, description, x, startY, {
+      fontSize: 1.5 * unit,
+      minFontSize: 1.2 * unit,
+      fontFamily: options.fontFamily,
+      maxWidth,
+      maxHeight: bottom - startY,
+      maxLines: options.descriptionMaxLines ?? undefined,
+      lineHeight: 2.1 * unit
+    }, options.accentColor);
+  }
+
+  /**
+   * Draw the unit grid, center lines, banner edge and avatar box for checking alignment
+   */
+  private drawGuides(ctx: CardRenderingContext, options: ResolvedCardOptions): void {
+    const { unit, left, top } = this.getFrame(options);
+    const right = left + BUSINESS_CARD_GRID.columns * unit;
+    const bottom = top + BUSINESS_CARD_GRID.rows * unit;
+    const lineWidth = Math.max(1, unit / 12);
+
+    ctx.save();
+
+    // Unit grid
+    ctx.strokeStyle = 'rgba(0, 255, 255, 0.35)';
+    ctx.lineWidth = lineWidth / 2;
+    ctx.beginPath();
+    for (let column = 0; column <= BUSINESS_CARD_GRID.columns; column++) {
+      ctx.moveTo(left + column * unit, top);
+      ctx.lineTo(left + column * unit, bottom);
+    }
+    for (let row = 0; row <= BUSINESS_CARD_GRID.rows; row++) {
+      ctx.moveTo(left, top + row * unit);
+      ctx.lineTo(right, top + row * unit);
+    }
+    ctx.stroke();
+
+    // Center lines
+    ctx.strokeStyle = '#ff00ff';
+    ctx.lineWidth = lineWidth;
+    ctx.beginPath();
+    ctx.moveTo(left, this.toY(BUSINESS_CARD_GRID.rows / 2, options));
+    ctx.lineTo(right, this.toY(BUSINESS_CARD_GRID.rows / 2, options));
+    ctx.moveTo(this.toX(BUSINESS_CARD_GRID.columns / 2, options), top);
+    ctx.lineTo(this.toX(BUSINESS_CARD_GRID.columns / 2, options), bottom);
+    ctx.stroke();
+
+    // Banner edge and avatar box
+    ctx.strokeStyle = '#ffcc00';
+    ctx.beginPath();
+    ctx.moveTo(left, this.toY(this.getBannerBottomUnits(), options));
+    ctx.lineTo(right, this.toY(this.getBannerBottomUnits(), options));
+    ctx.stroke();
+    ctx.strokeRect(
+      this.toX(BUSINESS_CARD_GRID.avatarLeft, options),
+      this.toY(this.getAvatarTopUnits(), options),
+      BUSINESS_CARD_GRID.avatarSize * unit,
+      BUSINESS_CARD_GRID.avatarSize * unit
+    );
+
+    // Card edge
+    ctx.strokeStyle = '#ff0000';
+    ctx.strokeRect(left, top, right - left, bottom - top);
+
+    ctx.restore();
+  }
+
+  /**
+   * Fit the grid inside the card (the trim box on PDF output) and center it
+   */
+  private getFrame(options: ResolvedCardOptions): GridFrame {
+    let inset = 0;
+    if (options.outputFormat === 'pdf') {
+      const bleed = options.print.bleed ?? DEFAULT_PRINT_OPTIONS.bleed;
+      const dpi = options.print.dpi ?? DEFAULT_PRINT_OPTIONS.dpi;
+      inset = bleed * dpi;
+    }
+
+    const availableWidth = options.width - inset * 2;
+    const availableHeight = options.height - inset * 2;
+    const unit = Math.min(availableWidth / BUSINESS_CARD_GRID.columns, availableHeight / BUSINESS_CARD_GRID.rows);
+
+    return {
+      unit,
+      left: (options.width - BUSINESS_CARD_GRID.columns * unit) / 2,
+      top: (options.height - BUSINESS_CARD_GRID.rows * unit) / 2
+    };
+  }
+
+  private toX(units: number, options: ResolvedCardOptions): number {
+    const { unit, left } = this.getFrame(options);
+    return left + units * unit;
+  }
+
+  private toY(units: number, options: ResolvedCardOptions): number {
+    const { unit, top } = this.getFrame(options);
+    return top + units * unit;
+  }
+
+  private getBannerBottomUnits(): number {
+    return BUSINESS_CARD_GRID.rows / 2 - BUSINESS_CARD_GRID.bannerBottomAboveCenter;
+  }
+
+  private getAvatarTopUnits(): number {
+    return this.getBannerBottomUnits() + BUSINESS_CARD_GRID.avatarBelowBanner;
+  }
+
+  private getTextLeftUnits(): number {
+    return BUSINESS_CARD_GRID.avatarLeft * 2 + BUSINESS_CARD_GRID.avatarSize;
+  }
+}
+
+/**
+ * Registry of card layouts keyed by style name.
+ * Built-in styles are registered on load; third parties can add their own.
+ */
+export class CardLayoutRegistry {
+  private static readonly layouts = new Map<string, CardLayout>();
+
+  /**
+   * Register a card layout under its name
+   * @param layout - Layout to register
+   * @param override - Replace an existing layout with the same name
+   * @throws Error if the name is empty or already registered and override is false
+   */
+  static register(layout: CardLayout, override: boolean = false): void {
+    if (!layout || !layout.name || typeof layout.render !== 'function') {
+      throw new Error('Invalid card layout: a layout needs a name and a render function');
+    }
+
+    const name = layout.name.toLowerCase();
+    if (this.layouts.has(name) && !override) {
+      throw new Error(`Card style "${name}" is already registered`);
+    }
+
+    this.layouts.set(name, layout);
+  }
+
+  /**
+   * Remove a registered layout
+   * @param name - Style name
+   * @returns True if a layout was removed
+   */
+  static unregister(name: string): boolean {
+    return this.layouts.delete(name.toLowerCase());
+  }
+
+  /**
+   * Get the layout for a style name
+   * @param name - Style name
+   * @returns The registered layout
+   * @throws Error if no layout is registered under the name
+   */
+  static get(name: string): CardLayout {
+    const layout = this.layouts.get((name || '').toLowerCase());
+    if (!layout) {
+      throw new Error(`Unknown card style "${name}". Available styles: ${this.list().join(', ')}`);
+    }
+    return layout;
+  }
+
+  /**
+   * Check if a style is registered
+   * @param name - Style name
+   * @returns True if registered
+   */
+  static has(name: string): boolean {
+    return this.layouts.has((name || '').toLowerCase());
+  }
+
+  /**
+   * List registered style names
+   * @returns Array of style names
+   */
+  static list(): string[] {
+    return Array.from(this.layouts.keys());
+  }
+}
+
+CardLayoutRegistry.register(new ModernLayout());
+CardLayoutRegistry.register(new ClassicLayout());
+CardLayoutRegistry.register(new MinimalLayout());
+CardLayoutRegistry.register(new BusinessCardLayout());
@@ -0,0 +1,637 @@
+import { loadImage, Image } from 'canvas';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { CardAssets } from './types';
+import { CardLayout, ResolvedCardOptions } from './cardLayouts';
+import { FontManager } from './fontManager';
+import { TextFitter } from './textFit';
+import { ImageFitter, FocalPoint } from './imageFit';
+import { VerificationBadge } from './verificationBadge';
+import { CardRenderingContext } from './renderingContext';
+
+/**
+ * Profile fields a text layer can be bound to
+ */
+export const TEMPLATE_TEXT_FIELDS = [
+  'name',
+  'username',
+  'description',
+  'followersCount',
+  'followingCount',
+  'tweetCount',
+  'listedCount',
+  'likeCount',
+  'mediaCount',
+  'formattedFollowersCount',
+  'formattedFollowingCount',
+  'formattedTweetCount',
+  'formattedListedCount',
+  'formattedLikeCount',
+  'formattedMediaCount',
+  'followersLabel',
+  'followingLabel',
+  'tweetsLabel',
+  'listedLabel',
+  'likesLabel',
+  'mediaLabel',
+  'subscriptionType',
+  'location',
+  'websiteDisplayUrl',
+  'formattedJoinDate',
+  'pinnedTweetText'
+] as const;
+
+export type TemplateTextField = typeof TEMPLATE_TEXT_FIELDS[number];
+
+/**
+ * Font settings for a text layer
+ */
+export interface TemplateFont {
+  family?: string;
+  size: number;
+  /** Smallest size the text may shrink to when it doesn't fit maxWidth/maxLines */
+  minSize?: number;
+  weight?: 'normal' | 'bold' | number;
+  style?: 'normal' | 'italic';
+}
+
+interface TemplateLayerBase {
+  /** Optional id used in error messages */
+  id?: string;
+  x: number;
+  y: number;
+  opacity?: number;
+  /** Only draw the layer when the profile is verified */
+  visibleWhen?: 'always' | 'verified' | 'banner' | 'avatar';
+}
+
+/**
+ * Image layer. `source` is "avatar", "banner" or a path relative to the template file.
+ */
+export interface TemplateImageLayer extends TemplateLayerBase {
+  type: 'image';
+  source: string;
+  width: number;
+  height: number;
+  shape?: 'rect' | 'circle';
+  fit?: 'cover' | 'contain' | 'fill';
+  /** Point of the image kept in view when cropped, 0-1 on each axis */
+  focus?: FocalPoint;
+  borderColor?: string;
+  borderWidth?: number;
+}
+
+/**
+ * Text layer bound to a profile field or holding literal text
+ */
+export interface TemplateTextLayer extends TemplateLayerBase {
+  type: 'text';
+  field?: TemplateTextField;
+  text?: string;
+  prefix?: string;
+  suffix?: string;
+  font: TemplateFont;
+  color?: string;
+  align?: 'left' | 'center' | 'right';
+  maxWidth?: number;
+  lineHeight?: number;
+  maxLines?: number;
+}
+
+/**
+ * Shape layer (rectangle, circle or line)
+ */
+export interface TemplateShapeLayer extends TemplateLayerBase {
+  type: 'shape';
+  shape: 'rect' | 'circle' | 'line';
+  width: number;
+  height: number;
+  fill?: string;
+  stroke?: string;
+  strokeWidth?: number;
+  radius?: number;
+}
+
+/**
+ * Verification badge layer
+ */
+export interface TemplateBadgeLayer extends TemplateLayerBase {
+  type: 'badge';
+  size: number;
+  color?: string;
+}
+
+export type TemplateLayer = TemplateImageLayer | TemplateTextLayer | TemplateShapeLayer | TemplateBadgeLayer;
+
+/**
+ * Declarative card template.
+ * Colors may be hex/CSS colors or the tokens "$background", "$text", "$secondary",
+ * "$accent" and "$divider", which resolve to the card generation options.
+ */
+export interface CardTemplate {
+  name: string;
+  width: number;
+  height: number;
+  background?: string;
+  fontFamily?: string;
+  layers: TemplateLayer[];
+  /** Directory used to resolve relative image sources (set by the loader) */
+  baseDir?: string;
+}
+
+const LAYER_TYPES = ['image', 'text', 'shape', 'badge'];
+const VISIBILITY_VALUES = ['always', 'verified', 'banner', 'avatar'];
+
+/**
+ * Loads and validates JSON card templates
+ */
+export class CardTemplateLoader {
+  /**
+   * Load a template from a JSON file
+   * @param templatePath - Path to the template file
+   * @returns Promise<CardTemplate> - The validated template
+   * @throws Error if the file cannot be read, is not JSON or fails validation
+   */
+  static async load(templatePath: string): Promise<CardTemplate> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(templatePath, 'utf8');
+    } catch (error) {
+      throw new Error(`Failed to read card template ${templatePath}: ${error}`);
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch (error) {
+      throw new Error(`Card template ${templatePath} is not valid JSON: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const template = this.validate(parsed, templatePath);
+    template.baseDir = path.dirname(path.resolve(templatePath));
+    return template;
+  }
+
+  /**
+   * Validate a parsed template object
+   * @param value - Parsed JSON value
+   * @param source - Name used in the error message
+   * @returns The value typed as a CardTemplate
+   * @throws Error listing every problem found
+   */
+  static validate(value: unknown, source: string = 'template'): CardTemplate {
+    const errors: string[] = [];
+
+    if (!this.isObject(value)) {
+      throw new Error(`Invalid card template ${source}:\n  - root: expected an object`);
+    }
+
+    this.checkString(value, 'name', 'name', errors, true);
+    this.checkNumber(value, 'width', 'width', errors, true, true);
+    this.checkNumber(value, 'height', 'height', errors, true, true);
+    this.checkString(value, 'background', 'background', errors);
+    this.checkString(value, 'fontFamily', 'fontFamily', errors);
+
+    if (!Array.isArray(value.layers)) {
+      errors.push('layers: expected an array of layers');
+    } else {
+      value.layers.forEach((layer: unknown, index: number) => {
+        this.validateLayer(layer, `layers[${index}]`, errors);
+      });
+    }
+
+    if (errors.length > 0) {
+      throw new Error(`Invalid card template ${source}:\n${errors.map(e => `  - ${e}`).join('\n')}`);
+    }
+
+    return value as unknown as CardTemplate;
+  }
+
+  private static validateLayer(layer: unknown, at: string, errors: string[]): void {
+    if (!this.isObject(layer)) {
+      errors.push(`${at}: expected an object`);
+      return;
+    }
+
+    if (typeof layer.id === 'string') {
+      at = `${at} ("${layer.id}")`;
+    }
+
+    if (!LAYER_TYPES.includes(layer.type as string)) {
+      errors.push(`${at}.type: expected one of ${LAYER_TYPES.join(', ')}, got ${JSON.stringify(layer.type)}`);
+      return;
+    }
+
+    this.checkNumber(layer, 'x', `${at}.x`, errors, true);
+    this.checkNumber(layer, 'y', `${at}.y`, errors, true);
+    this.checkNumber(layer, 'opacity', `${at}.opacity`, errors);
+    if (typeof layer.opacity === 'number' && (layer.opacity < 0 || layer.opacity > 1)) {
+      errors.push(`${at}.opacity: expected a number between 0 and 1`);
+    }
+    this.checkEnum(layer, 'visibleWhen', `${at}.visibleWhen`, VISIBILITY_VALUES, errors);
+
+    switch (layer.type) {
+      case 'image':
+        this.checkString(layer, 'source', `${at}.source`, errors, true);
+        this.checkNumber(layer, 'width', `${at}.width`, errors, true, true);
+        this.checkNumber(layer, 'height', `${at}.height`, errors, true, true);
+        this.checkEnum(layer, 'shape', `${at}.shape`, ['rect', 'circle'], errors);
+        this.checkEnum(layer, 'fit', `${at}.fit`, ['cover', 'contain', 'fill'], errors);
+        if (layer.focus !== undefined) {
+          if (!this.isObject(layer.focus)) {
+            errors.push(`${at}.focus: expected an object with "x" and "y" between 0 and 1`);
+          } else {
+            for (const axis of ['x', 'y']) {
+              this.checkNumber(layer.focus, axis, `${at}.focus.${axis}`, errors, true);
+              const value = layer.focus[axis];
+              if (typeof value === 'number' && (value < 0 || value > 1)) {
+                errors.push(`${at}.focus.${axis}: expected a number between 0 and 1`);
+              }
+            }
+          }
+        }
+        this.checkString(layer, 'borderColor', `${at}.borderColor`, errors);
+        this.checkNumber(layer, 'borderWidth', `${at}.borderWidth`, errors);
+        break;
+
+      case 'text':
+        if (layer.field === undefined && layer.text === undefined) {
+          errors.push(`${at}: a text layer needs either "field" or "text"`);
+        }
+        this.checkEnum(layer, 'field', `${at}.field`, TEMPLATE_TEXT_FIELDS as readonly string[], errors);
+        this.checkString(layer, 'text', `${at}.text`, errors);
+        this.checkString(layer, 'prefix', `${at}.prefix`, errors);
+        this.checkString(layer, 'suffix', `${at}.suffix`, errors);
+        this.checkString(layer, 'color', `${at}.color`, errors);
+        this.checkEnum(layer, 'align', `${at}.align`, ['left', 'center', 'right'], errors);
+        this.checkNumber(layer, 'maxWidth', `${at}.maxWidth`, errors, false, true);
+        this.checkNumber(layer, 'lineHeight', `${at}.lineHeight`, errors, false, true);
+        this.checkNumber(layer, 'maxLines', `${at}.maxLines`, errors, false, true);
+        if (!this.isObject(layer.font)) {
+          errors.push(`${at}.font: expected an object with at least a "size"`);
+        } else {
+          this.checkNumber(layer.font, 'size', `${at}.font.size`, errors, true, true);
+          this.checkNumber(layer.font, 'minSize', `${at}.font.minSize`, errors, false, true);
+          this.checkString(layer.font, 'family', `${at}.font.family`, errors);
+          this.checkEnum(layer.font, 'style', `${at}.font.style`, ['normal', 'italic'], errors);
+          const weight = layer.font.weight;
+          if (weight !== undefined && weight !== 'normal' && weight !== 'bold' && typeof weight !== 'number') {
+            errors.push(`${at}.font.weight: expected "normal", "bold" or a number`);
+          }
+        }
+        break;
+
+      case 'shape':
+        this.checkEnum(layer, 'shape', `${at}.shape`, ['rect', 'circle', 'line'], errors, true);
+        this.checkNumber(layer, 'width', `${at}.width`, errors, true);
+        this.checkNumber(layer, 'height', `${at}.height`, errors, true);
+        this.checkString(layer, 'fill', `${at}.fill`, errors);
+        this.checkString(layer, 'stroke', `${at}.stroke`, errors);
+        this.checkNumber(layer, 'strokeWidth', `${at}.strokeWidth`, errors);
+        this.checkNumber(layer, 'radius', `${at}.radius`, errors);
+        if (layer.fill === undefined && layer.stroke === undefined) {
+          errors.push(`${at}: a shape layer needs a "fill" or a "stroke"`);
+        }
+        break;
+
+      case 'badge':
+        this.checkNumber(layer, 'size', `${at}.size`, errors, true, true);
+        this.checkString(layer, 'color', `${at}.color`, errors);
+        break;
+    }
+  }
+
+  private static isObject(value: unknown): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  private static checkString(
+    obj: Record<string, any>,
+    key: string,
+    at: string,
+    errors: string[],
+    required: boolean = false
+  ): void {
+    const value = obj[key];
+    if (value === undefined) {
+      if (required) {
+        errors.push(`${at}: is required`);
+      }
+    } else if (typeof value !== 'string' || value.length === 0) {
+      errors.push(`${at}: expected a non-empty string, got ${JSON.stringify(value)}`);
+    }
+  }
+
+  private static checkNumber(
+    obj: Record<string, any>,
+    key: string,
+    at: string,
+    errors: string[],
+    required: boolean = false,
+    positive: boolean = false
+  ): void {
+    const value = obj[key];
+    if (value === undefined) {
+      if (required) {
+        errors.push(`${at}: is required`);
+      }
+    } else if (typeof value !== 'number' || !Number.isFinite(value)) {
+      errors.push(`${at}: expected a number, got ${JSON.stringify(value)}`);
+    } else if (positive && value <= 0) {
+      errors.push(`${at}: expected a positive number, got ${value}`);
+    }
+  }
+
+  private static checkEnum(
+    obj: Record<string, any>,
+    key: string,
+    at: string,
+    allowed: readonly string[],
+    errors: string[],
+    required: boolean = false
+  ): void {
+    const value = obj[key];
+    if (value === undefined) {
+      if (required) {
+        errors.push(`${at}: is required (one of ${allowed.join(', ')})`);
+      }
+    } else if (!allowed.includes(value)) {
+      errors.push(`${at}: expected one of ${allowed.join(', ')}, got ${JSON.stringify(value)}`);
+    }
+  }
+}
+
+/**
+ * Card layout that draws a declarative template.
+ * Template coordinates are scaled uniformly to fit the card size and centered.
+ */
+export class TemplateLayout implements CardLayout {
+  readonly name: string;
+  readonly description: string;
+
+  constructor(private readonly template: CardTemplate) {
+    this.name = template.name;
+    this.description = `Template "${template.name}"`;
+  }
+
+  async render(ctx: CardRenderingContext, assets: CardAssets, options: ResolvedCardOptions): Promise<void> {
+    const template = this.template;
+
+    ctx.fillStyle = this.resolveColor(template.background, options, options.backgroundColor);
+    ctx.fillRect(0, 0, options.width, options.height);
+
+    const scale = Math.min(options.width / template.width, options.height / template.height);
+    const offsetX = (options.width - template.width * scale) / 2;
+    const offsetY = (options.height - template.height * scale) / 2;
+
+    ctx.save();
+    ctx.translate(offsetX, offsetY);
+    ctx.scale(scale, scale);
+
+    for (const layer of template.layers) {
+      if (!this.isVisible(layer, assets, options)) {
+        continue;
+      }
+
+      ctx.save();
+      ctx.globalAlpha = layer.opacity ?? 1;
+
+      switch (layer.type) {
+        case 'image':
+          await this.drawImageLayer(ctx, layer, assets, options);
+          break;
+        case 'text':
+          this.drawTextLayer(ctx, layer, assets, options);
+          break;
+        case 'shape':
+          this.drawShapeLayer(ctx, layer, options);
+          break;
+        case 'badge':
+          this.drawBadgeLayer(ctx, layer, assets, options);
+          break;
+      }
+
+      ctx.restore();
+    }
+
+    ctx.restore();
+  }
+
+  private isVisible(layer: TemplateLayer, assets: CardAssets, options: ResolvedCardOptions): boolean {
+    switch (layer.visibleWhen) {
+      case 'verified':
+        return VerificationBadge.getType(assets.profileData) !== 'none';
+      case 'banner':
+        return options.showBanner && !!assets.bannerImagePath;
+      case 'avatar':
+        return !!assets.profileImagePath;
+      default:
+        return true;
+    }
+  }
+
+  /**
+   * Resolve "$background", "$text", "$secondary", "$accent" and "$divider" color tokens
+   */
+  private resolveColor(color: string | undefined, options: ResolvedCardOptions, fallback: string): string {
+    switch (color) {
+      case undefined:
+        return fallback;
+      case '$background':
+        return options.backgroundColor;
+      case '$text':
+        return options.textColor;
+      case '$accent':
+        return options.accentColor;
+      case '$secondary':
+        return options.secondaryTextColor;
+      case '$divider':
+        return options.dividerColor;
+      default:
+        return color;
+    }
+  }
+
+  private async drawImageLayer(
+    ctx: CardRenderingContext,
+    layer: TemplateImageLayer,
+    assets: CardAssets,
+    options: ResolvedCardOptions
+  ): Promise<void> {
+    let imagePath: string | undefined;
+    if (layer.source === 'avatar') {
+      imagePath = assets.profileImagePath;
+    } else if (layer.source === 'banner') {
+      imagePath = options.showBanner ? assets.bannerImagePath : undefined;
+    } else {
+      imagePath = path.resolve(this.template.baseDir || process.cwd(), layer.source);
+    }
+
+    if (!imagePath) {
+      return;
+    }
+
+    let image: Image;
+    try {
+      image = await loadImage(imagePath);
+    } catch (error) {
+      console.warn(`Failed to load template image ${layer.source}:`, error);
+      return;
+    }
+
+    ctx.save();
+    ctx.beginPath();
+    if (layer.shape === 'circle') {
+      ctx.arc(layer.x + layer.width / 2, layer.y + layer.height / 2, Math.min(layer.width, layer.height) / 2, 0, Math.PI * 2);
+    } else {
+      ctx.rect(layer.x, layer.y, layer.width, layer.height);
+    }
+    ctx.clip();
+
+    // Template images default to the card's fit and focus for the avatar and banner
+    const cardFit = layer.source === 'banner' ? options.bannerFit : layer.source === 'avatar' ? options.avatarFit : 'cover';
+    const cardFocus = layer.source === 'banner' ? options.bannerFocus : layer.source === 'avatar' ? options.avatarFocus : undefined;
+    const rect = ImageFitter.getDrawRect(
+      image.width,
+      image.height,
+      { x: layer.x, y: layer.y, width: layer.width, height: layer.height },
+      layer.fit || cardFit,
+      layer.focus || cardFocus
+    );
+    ctx.drawImage(image, rect.x, rect.y, rect.width, rect.height);
+    ctx.restore();
+
+    if (layer.borderWidth && layer.borderWidth > 0) {
+      ctx.strokeStyle = this.resolveColor(layer.borderColor, options, options.backgroundColor);
+      ctx.lineWidth = layer.borderWidth;
+      ctx.beginPath();
+      if (layer.shape === 'circle') {
+        ctx.arc(layer.x + layer.width / 2, layer.y + layer.height / 2, Math.min(layer.width, layer.height) / 2, 0, Math.PI * 2);
+      } else {
+        ctx.rect(layer.x, layer.y, layer.width, layer.height);
+      }
+      ctx.stroke();
+    }
+  }
+
+  /**
+   * Values for text layer fields: counts, labels and join date in the card locale and the bio with links expanded
+   */
+  private getFieldValues(assets: CardAssets, options: ResolvedCardOptions): Record<string, unknown> {
+    return {
+      ...assets.profileData.toJSON(),
+      ...assets.profileData.getFormattedStats(options.locale),
+      formattedJoinDate: assets.profileData.getFormattedJoinDate(options.locale),
+      description: assets.profileData.getExpandedDescription()
+    };
+  }
+
+  private drawTextLayer(
+    ctx: CardRenderingContext,
+    layer: TemplateTextLayer,
+    assets: CardAssets,
+    options: ResolvedCardOptions
+  ): void {
+    const value = layer.field !== undefined
+      ? this.getFieldValues(assets, options)[layer.field]
+      : layer.text;
+
+    if (value === undefined || value === null || value === '') {
+      return;
+    }
+
+    const text = `${layer.prefix || ''}${value}${layer.suffix || ''}`;
+    const font = layer.font;
+    // Template fonts get the same script fallbacks as the card font
+    const customFamily = font.family || this.template.fontFamily;
+    const family = customFamily
+      ? FontManager.buildFontFamily(customFamily, text, options.fontFallbacks)
+      : options.fontFamily;
+
+    ctx.font = `${font.style || 'normal'} ${font.weight || 'normal'} ${font.size}px ${family}`;
+    ctx.fillStyle = this.resolveColor(layer.color, options, options.textColor);
+    ctx.textAlign = layer.align || 'left';
+    ctx.textBaseline = 'top';
+
+    // Without a maxWidth the text keeps to one line in the room left before the card edge
+    TextFitter.draw(ctx, text, layer.x, layer.y, {
+      fontSize: font.size,
+      minFontSize: font.minSize,
+      fontStyle: `${font.style || 'normal'} ${font.weight || 'normal'}`,
+      fontFamily: family,
+      maxWidth: layer.maxWidth || this.getAvailableWidth(layer),
+      maxLines: layer.maxLines ?? (layer.maxWidth ? undefined : 1),
+      lineHeight: layer.lineHeight
+    });
+  }
+
+  /**
+   * Width a text layer can use before it crosses the template edge on the side its alignment grows towards
+   */
+  private getAvailableWidth(layer: TemplateTextLayer): number {
+    const width = this.template.width;
+    switch (layer.align) {
+      case 'right':
+        return Math.max(0, layer.x);
+      case 'center':
+        return Math.max(0, 2 * Math.min(layer.x, width - layer.x));
+      default:
+        return Math.max(0, width - layer.x);
+    }
+  }
+
+  private drawShapeLayer(ctx: CardRenderingContext, layer: TemplateShapeLayer, options: ResolvedCardOptions): void {
+    ctx.beginPath();
+
+    if (layer.shape === 'circle') {
+      ctx.arc(layer.x + layer.width / 2, layer.y + layer.height / 2, Math.min(layer.width, layer.height) / 2, 0, Math.PI * 2);
+    } else if (layer.shape === 'line') {
+      ctx.moveTo(layer.x, layer.y);
+      ctx.lineTo(layer.x + layer.width, layer.y + layer.height);
+    } else if (layer.radius) {
+      const r = Math.min(layer.radius, layer.width / 2, layer.height / 2);
+      ctx.moveTo(layer.x + r, layer.y);
+      ctx.arcTo(layer.x + layer.width, layer.y, layer.x + layer.width, layer.y + layer.height, r);
+      ctx.arcTo(layer.x + layer.width, layer.y + layer.height, layer.x, layer.y + layer.height, r);
+      ctx.arcTo(layer.x, layer.y + layer.height, layer.x, layer.y, r);
+      ctx.arcTo(layer.x, layer.y, layer.x + layer.width, layer.y, r);
+      ctx.closePath();
+    } else {
+      ctx.rect(layer.x, layer.y, layer.width, layer.height);
+    }
+
+    if (layer.fill && layer.shape !== 'line') {
+      ctx.fillStyle = this.resolveColor(layer.fill, options, options.accentColor);
+      ctx.fill();
+    }
+
+    if (layer.stroke || layer.shape === 'line') {
+      ctx.strokeStyle = this.resolveColor(layer.stroke || layer.fill, options, options.accentColor);
+      ctx.lineWidth = layer.strokeWidth || 1;
+      ctx.stroke();
+    }
+  }
+
+  /**
+   * Badge layers show the profile's verification badge, and nothing for
+   * unverified profiles whatever their visibleWhen
+   */
+  private drawBadgeLayer(
+    ctx: CardRenderingContext,
+    layer: TemplateBadgeLayer,
+    assets: CardAssets,
+    options: ResolvedCardOptions
+  ): void {
+    if (!options.showBadge) {
+      return;
+    }
+
+    const type = VerificationBadge.getType(assets.profileData);
+    if (type === 'none') {
+      return;
+    }
+
+    const color = layer.color ? this.resolveColor(layer.color, options, options.accentColor) : undefined;
+    VerificationBadge.draw(ctx, type, layer.x, layer.y, layer.size, color);
+  }
+}
@@ -0,0 +1,151 @@
+import * as fs from 'fs-extra';
+
+/**
+ * Card colors, font and border widths. Every field is optional; missing values
+ * fall back to the generator defaults.
+ */
+export interface CardTheme {
+  name: string;
+  backgroundColor?: string;
+  textColor?: string;
+  /** Username, stat labels and other secondary text */
+  secondaryTextColor?: string;
+  accentColor?: string;
+  /** Rules between stat columns */
+  dividerColor?: string;
+  fontFamily?: string;
+  /** Border around the avatar, overriding the layout's own width */
+  avatarBorderWidth?: number;
+}
+
+const THEME_COLOR_KEYS = ['backgroundColor', 'textColor', 'secondaryTextColor', 'accentColor', 'dividerColor'] as const;
+
+/** Theme fields that map onto card generation options */
+const THEME_VALUE_KEYS = [...THEME_COLOR_KEYS, 'fontFamily', 'avatarBorderWidth'] as const;
+
+/**
+ * Built-in themes matching X's display settings
+ */
+export const CARD_THEMES: Record<string, CardTheme> = {
+  default: {
+    name: 'default',
+    backgroundColor: '#ffffff',
+    textColor: '#0f1419',
+    secondaryTextColor: '#536471',
+    accentColor: '#1d9bf0',
+    dividerColor: '#eff3f4'
+  },
+  dim: {
+    name: 'dim',
+    backgroundColor: '#15202b',
+    textColor: '#f7f9f9',
+    secondaryTextColor: '#8b98a5',
+    accentColor: '#1d9bf0',
+    dividerColor: '#38444d'
+  },
+  'lights-out': {
+    name: 'lights-out',
+    backgroundColor: '#000000',
+    textColor: '#e7e9ea',
+    secondaryTextColor: '#71767b',
+    accentColor: '#1d9bf0',
+    dividerColor: '#2f3336'
+  }
+};
+
+/**
+ * Looks up built-in themes and loads theme files
+ */
+export class CardThemes {
+  /**
+   * Get a built-in theme or load a theme file
+   * @param nameOrPath - Built-in theme name or path to a JSON theme file
+   * @returns Promise<CardTheme> - The theme
+   * @throws Error if the name is unknown and no such file exists, or the file is invalid
+   */
+  static async resolve(nameOrPath: string): Promise<CardTheme> {
+    // Only own keys, so names such as "constructor" don't resolve to Object.prototype members
+    const key = nameOrPath.toLowerCase();
+    if (Object.prototype.hasOwnProperty.call(CARD_THEMES, key)) {
+      return CARD_THEMES[key];
+    }
+
+    if (!await fs.pathExists(nameOrPath)) {
+      throw new Error(`Unknown theme "${nameOrPath}". Use a theme file or one of: ${this.list().join(', ')}`);
+    }
+
+    return this.load(nameOrPath);
+  }
+
+  /**
+   * Load and validate a JSON theme file
+   * @param themePath - Path to the theme file
+   * @returns Promise<CardTheme> - The validated theme
+   */
+  static async load(themePath: string): Promise<CardTheme> {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await fs.readFile(themePath, 'utf8'));
+    } catch (error) {
+      throw new Error(`Failed to read theme ${themePath}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    return this.validate(parsed, themePath);
+  }
+
+  /**
+   * Validate a parsed theme object
+   * @param value - Parsed JSON value
+   * @param source - Name used in the error message and as the default theme name
+   * @returns The value typed as a CardTheme
+   * @throws Error listing every problem found
+   */
+  static validate(value: unknown, source: string = 'theme'): CardTheme {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new Error(`Invalid theme ${source}: expected a JSON object`);
+    }
+
+    const theme = value as Record<string, unknown>;
+    const errors: string[] = [];
+    const known = ['name', 'fontFamily', 'avatarBorderWidth', ...THEME_COLOR_KEYS];
+
+    for (const key of Object.keys(theme)) {
+      if (!known.includes(key)) {
+        errors.push(`${key}: unknown property, expected one of ${known.join(', ')}`);
+      }
+    }
+    for (const key of ['name', 'fontFamily', ...THEME_COLOR_KEYS]) {
+      if (theme[key] !== undefined && (typeof theme[key] !== 'string' || theme[key] === '')) {
+        errors.push(`${key}: expected a non-empty string, got ${JSON.stringify(theme[key])}`);
+      }
+    }
+    const borderWidth = theme.avatarBorderWidth;
+    if (borderWidth !== undefined && (typeof borderWidth !== 'number' || !Number.isFinite(borderWidth) || borderWidth < 0)) {
+      errors.push(`avatarBorderWidth: expected a number of at least 0, got ${JSON.stringify(borderWidth)}`);
+    }
+
+    if (errors.length > 0) {
+      throw new Error(`Invalid theme ${source}:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+    }
+
+    return { ...theme, name: (theme.name as string | undefined) || source } as CardTheme;
+  }
+
+  /**
+   * Get the card options a theme sets, leaving out its name
+   * @param theme - The theme
+   * @returns The theme's colors, font and border width that are set
+   */
+  static getValues(theme: CardTheme): Partial<Omit<CardTheme, 'name'>> {
+    return Object.fromEntries(
+      THEME_VALUE_KEYS.filter(key => theme[key] !== undefined).map(key => [key, theme[key]])
+    );
+  }
+
+  /**
+   * Get the names of the built-in themes
+   */
+  static list(): string[] {
+    return Object.keys(CARD_THEMES);
+  }
+}
@@ -4,13 +4,23 @@ import { Command } from 'commander';
 import chalk from 'chalk';
 import ora from 'ora';
 import * as dotenv from 'dotenv';
+import * as path from 'path';
 import { TwitterUrlParser } from './urlParser';
 import { TwitterApiClient } from './twitterApi';
 import { AssetDownloader } from './assetDownloader';
 import { CSVExporter } from './csvExporter';
+import { VCardExporter } from './vcardExporter';
 import { FolderManager } from './folderManager';
 import { ProfileCardGenerator } from './profileCardGenerator';
-import { TwitterProfileData, CardGenerationOptions } from './types';
+import { PrintLayout } from './printLayout';
+import { SHEET_SIZES } from './imposition';
+import { QrCodeRenderer } from './qrCode';
+import { FontManager, FontDefinition } from './fontManager';
+import { ImageFitter } from './imageFit';
+import { CardLocale } from './locale';
+import { WalletPassBuilder } from './walletPass';
+import { GoogleWalletExporter } from './googleWalletExporter';
+import { TwitterProfileData, CardAssets, CardGenerationOptions, ProfileDetail, PROFILE_DETAILS, STAT_METRICS } from './types';
 
 // Load environment variables
 dotenv.config();
@@ -22,6 +32,146 @@ program
   .description('Generate X/Twitter profile cards from profile URLs with asset downloading')
   .version('1.0.0');
 
+/**
+ * Add the card appearance options shared by the card generation commands
+ */
+function addCardOptions(command: Command): Command {
+  return command
+    .option('-w, --width <pixels>', 'Card width in pixels (default: 1200, or the preset width)')
+    .option('-h, --height <pixels>', 'Card height in pixels (default: 630, or the preset height)')
+    .option('-p, --preset <name>', `Size preset (${ProfileCardGenerator.getAvailablePresets().join(', ')})`)
+    .option('-s, --style <style>', `Card style (${ProfileCardGenerator.getAvailableStyles().join(', ')})`, 'modern')
+    .option('-f, --format <format>', 'Output format (png, jpeg, pdf, svg)', 'png')
+    .option('--no-banner', 'Hide banner image')
+    .option('--stats <metrics>', `Comma-separated stats to show, in order (${STAT_METRICS.join(', ')})`)
+    .option('--no-stats', 'Hide statistics')
+    .option('--no-description', 'Hide description')
+    .option('--no-badge', 'Hide the verification badge')
+    .option('--banner-fit <mode>', 'How the banner fills its area (cover, contain, fill)', 'cover')
+    .option('--banner-focus <x,y>', 'Point of the banner to keep in view, 0-1 on each axis', '0.5,0.5')
+    .option('--avatar-fit <mode>', 'How the avatar fills its circle (cover, contain, fill)', 'cover')
+    .option('--avatar-focus <x,y>', 'Point of the avatar to keep in view, 0-1 on each axis', '0.5,0.5')
+    .option('--bio-lines <lines>', 'Clamp the bio to this many lines with an ellipsis')
+    .option('--details <items>', `Comma-separated profile rows to show (${PROFILE_DETAILS.join(', ')})`)
+    .option('--locale <locale>', `Locale for stat numbers and labels, e.g. de or pt-BR (labels: ${CardLocale.list().join(', ')})`)
+    .option('--theme <theme>', `Theme name (${ProfileCardGenerator.getAvailableThemes().join(', ')}) or JSON theme file`)
+    .option('--bg-color <color>', 'Background color (hex), overrides the theme')
+    .option('--text-color <color>', 'Text color (hex), overrides the theme')
+    .option('--secondary-color <color>', 'Secondary text color (hex), overrides the theme')
+    .option('--accent-color <color>', 'Accent color (hex), overrides the theme')
+    .option('--auto-theme', 'Pick the colors from the banner and profile image')
+    .option('--trim-size <inches>', 'PDF trim size in inches, WIDTHxHEIGHT', '3.5x2')
+    .option('--dpi <dpi>', 'PDF print resolution', '300')
+    .option('--bleed <inches>', 'PDF bleed on each side in inches', '0.125')
+    .option('--safe-zone <inches>', 'PDF safe zone inside the trim in inches', '0.125')
+    .option('--crop-marks', 'Add crop marks to PDF output')
+    .option('--show-safe-zone', 'Draw the PDF safe zone as a guide for proofing')
+    .option('--guides', 'Draw alignment guides (business style)')
+    .option('--qr', 'Add a QR code linking to the profile')
+    .option('--qr-url <url>', 'Link to encode in the QR code instead of the profile URL')
+    .option('--qr-size <pixels>', 'QR code size in pixels', '160')
+    .option('--qr-position <position>', 'QR code position (top-left, top-right, bottom-left, bottom-right or X,Y)', 'bottom-right')
+    .option('--qr-level <level>', 'QR code error correction level (L, M, Q, H)', 'M')
+    .option('--qr-color <color>', 'QR code color (hex)', '#000000')
+    .option('--qr-bg-color <color>', 'QR code background color (hex)', '#ffffff')
+    .option('--double-sided', 'Also generate a back side (second file, or second PDF page)')
+    .option('--back-line <text>', 'Contact line for the back side, repeatable', collect, [])
+    .option('--back-logo <file>', 'Logo image for the back side')
+    .option('--no-back-qr', 'Hide the QR code on the back side')
+    .option('--no-back-bio', 'Hide the bio on the back side')
+    .option('--font <path>', 'Register a .ttf/.otf font and use it for the card, as PATH or PATH=FAMILY; repeatable', collect, [])
+    .option('--font-family <family>', 'Font family list used after any --font families, overrides the theme');
+}
+
+/**
+ * Collect repeated option values into an array
+ */
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+/**
+ * Parse a --font value of the form PATH or PATH=FAMILY
+ */
+function parseFontOption(value: string): FontDefinition {
+  const separator = value.lastIndexOf('=');
+  return separator > 0
+    ? { path: value.slice(0, separator), family: value.slice(separator + 1) }
+    : { path: value };
+}
+
+/**
+ * Parse a comma-separated list, checking every item against the allowed values
+ */
+function parseList<T extends string>(value: string, allowed: readonly T[], name: string): T[] {
+  const items = value.split(',').map(item => item.trim()).filter(Boolean);
+  for (const item of items) {
+    if (!allowed.includes(item as T)) {
+      throw new Error(`Invalid ${name} "${item}". Expected any of ${allowed.join(', ')}`);
+    }
+  }
+  return items as T[];
+}
+
+/**
+ * Build card generation options from parsed command options
+ */
+function buildCardOptions(options: Record<string, any>): CardGenerationOptions {
+  const fonts: FontDefinition[] = options.font.map(parseFontOption);
+  
+  return {
+    ...(options.width ? { width: parseInt(options.width) } : {}),
+    ...(options.height ? { height: parseInt(options.height) } : {}),
+    preset: options.preset || null,
+    cardStyle: options.style,
+    outputFormat: options.format,
+    showBanner: options.banner !== false,
+    showStats: options.stats !== false,
+    ...(typeof options.stats === 'string' ? { stats: ProfileCardGenerator.parseStats(options.stats) } : {}),
+    showDescription: options.description !== false,
+    showBadge: options.badge !== false,
+    descriptionMaxLines: options.bioLines ? parseInt(options.bioLines) : null,
+    locale: options.locale,
+    profileDetails: options.details ? parseList<ProfileDetail>(options.details, PROFILE_DETAILS, 'profile detail') : [],
+    bannerFit: ImageFitter.parseFit(options.bannerFit),
+    bannerFocus: ImageFitter.parseFocus(options.bannerFocus),
+    avatarFit: ImageFitter.parseFit(options.avatarFit),
+    avatarFocus: ImageFitter.parseFocus(options.avatarFocus),
+    theme: options.theme || null,
+    backgroundColor: options.bgColor,
+    textColor: options.textColor,
+    secondaryTextColor: options.secondaryColor,
+    accentColor: options.accentColor,
+    autoTheme: !!options.autoTheme,
+    fonts,
+    fontFamily: [...fonts.map(font => FontManager.getFamily(font)), options.fontFamily].filter(Boolean).join(', ') || undefined,
+    showGuides: !!options.guides,
+    print: {
+      ...PrintLayout.parseTrimSize(options.trimSize),
+      dpi: parseInt(options.dpi),
+      bleed: parseFloat(options.bleed),
+      safeZone: parseFloat(options.safeZone),
+      cropMarks: !!options.cropMarks,
+      showSafeZone: !!options.showSafeZone
+    },
+    qrCode: options.qr || options.qrUrl ? {
+      url: options.qrUrl,
+      size: parseInt(options.qrSize),
+      position: QrCodeRenderer.parsePosition(options.qrPosition),
+      errorCorrectionLevel: options.qrLevel.toUpperCase(),
+      foregroundColor: options.qrColor,
+      backgroundColor: options.qrBgColor
+    } : null,
+    doubleSided: !!options.doubleSided,
+    back: {
+      showBio: options.backBio !== false,
+      showQrCode: options.backQr !== false,
+      contactLines: options.backLine,
+      logoPath: options.backLogo
+    }
+  };
+}
+
 // Main command: process a single URL
 program
   .command('process')
@@ -104,6 +254,15 @@ program
       console.log(chalk.white(`  Following: ${profileData.getFormattedFollowingCount()}`));
       console.log(chalk.white(`  Tweets: ${profileData.getFormattedTweetCount()}`));
       console.log(chalk.white(`  Verified: ${profileData.verified ? 'Yes' : 'No'}`));
+      if (profileData.location) {
+        console.log(chalk.white(`  Location: ${profileData.location}`));
+      }
+      if (profileData.websiteUrl) {
+        console.log(chalk.white(`  Website: ${profileData.websiteUrl}`));
+      }
+      if (profileData.createdAt) {
+        console.log(chalk.white(`  ${profileData.getFormattedJoinDate()}`));
+      }
       console.log(chalk.white(`  Output Directory: ${userDir}`));
 
     } catch (error) {
@@ -281,22 +440,56 @@ program
     }
   });
 
-// Card generation command: generate profile cards from stored data
+// vCard command: export a contact card for a user
 program
-  .command('generate-card')
-  .description('Generate a profile card from stored user data')
-  .argument('<username>', 'Twitter username to generate card for')
+  .command('vcard')
+  .description('Export a stored profile as a vCard (.vcf) contact')
+  .argument('<username>', 'Twitter username to export')
   .option('-o, --output <dir>', 'Downloads directory', './downloads')
-  .option('-w, --width <pixels>', 'Card width in pixels', '1200')
-  .option('-h, --height <pixels>', 'Card height in pixels', '630')
-  .option('-s, --style <style>', 'Card style (modern, classic, minimal)', 'modern')
-  .option('-f, --format <format>', 'Output format (png, jpeg)', 'png')
-  .option('--no-banner', 'Hide banner image')
-  .option('--no-stats', 'Hide statistics')
-  .option('--no-description', 'Hide description')
-  .option('--bg-color <color>', 'Background color (hex)', '#000000')
-  .option('--text-color <color>', 'Text color (hex)', '#ffffff')
-  .option('--accent-color <color>', 'Accent color (hex)', '#1d9bf0')
+  .option('--no-photo', 'Do not embed the profile image')
+  .action(async (username: string, options) => {
+    try {
+      const cardGenerator = new ProfileCardGenerator();
+      const assets = await cardGenerator.loadAssetsFromDirectory(username, options.output);
+      const folderManager = new FolderManager(options.output);
+      const vcardExporter = new VCardExporter(options.output);
+      const vcfPath = await vcardExporter.exportProfileVCard(
+        assets.profileData,
+        folderManager.getUserDirectory(username),
+        options.photo !== false ? assets.profileImagePath : undefined
+      );
+      console.log(chalk.green(`✓ Created vCard: ${vcfPath}`));
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error}`));
+      process.exit(1);
+    }
+  });
+
+// Master vCard command: combine all profiles into one contacts file
+program
+  .command('master-vcard')
+  .description('Create a multi-contact vCard file with all processed profiles')
+  .option('-o, --output <dir>', 'Output directory', './downloads')
+  .action(async (options) => {
+    try {
+      const vcardExporter = new VCardExporter(options.output);
+      const combinedPath = await vcardExporter.createCombinedVCard();
+      console.log(chalk.green(`✓ Created combined vCard: ${combinedPath}`));
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error}`));
+      process.exit(1);
+    }
+  });
+
+// Card generation command: generate profile cards from stored data
+addCardOptions(
+  program
+    .command('generate-card')
+    .description('Generate a profile card from stored user data')
+    .argument('<username>', 'Twitter username to generate card for')
+    .option('-o, --output <dir>', 'Downloads directory', './downloads')
+)
+  .option('--template <file>', 'JSON card template (overrides --style)')
   .action(async (username: string, options) => {
     try {
       const spinner = ora('Generating profile card...').start();
@@ -307,18 +500,18 @@ program
       const assets = await cardGenerator.loadAssetsFromDirectory(username, options.output);
       console.log(chalk.blue(`✓ Loaded data for @${username}`));
       
+      // Load template if provided
+      let template = null;
+      if (options.template) {
+        spinner.text = 'Loading card template...';
+        template = await cardGenerator.loadTemplate(options.template);
+        console.log(chalk.blue(`✓ Loaded template "${template.name}"`));
+      }
+      
       // Prepare generation options
       const cardOptions: CardGenerationOptions = {
-        width: parseInt(options.width),
-        height: parseInt(options.height),
-        cardStyle: options.style,
-        outputFormat: options.format,
-        showBanner: options.banner !== false,
-        showStats: options.stats !== false,
-        showDescription: options.description !== false,
-        backgroundColor: options.bgColor,
-        textColor: options.textColor,
-        accentColor: options.accentColor
+        ...buildCardOptions(options),
+        template
       };
       
       // Generate card
@@ -328,6 +521,9 @@ program
       if (result.success) {
         spinner.succeed('Profile card generated successfully!');
         console.log(chalk.green(`✓ Card saved: ${result.outputPath}`));
+        if (result.backOutputPath) {
+          console.log(chalk.green(`✓ Back saved: ${result.backOutputPath}`));
+        }
         
         if (result.cardInfo) {
           console.log(chalk.blue(`  Dimensions: ${result.cardInfo.width}x${result.cardInfo.height}`));
@@ -346,21 +542,296 @@ program
     }
   });
 
+// Tweet card command: render a single tweet from its status URL
+addCardOptions(
+  program
+    .command('generate-tweet-card')
+    .description('Generate a shareable image of a tweet from its status URL')
+    .argument('<url>', 'Tweet URL (e.g. https://x.com/jack/status/20) or status ID')
+    .option('-o, --output <dir>', 'Downloads directory', './downloads')
+    .option('-t, --token <token>', 'Twitter API Bearer Token (overrides env var)')
+)
+  .option('--file <path>', 'Output image path (defaults to the author\'s directory)')
+  .action(async (url: string, options) => {
+    try {
+      const spinner = ora('Generating tweet card...').start();
+      
+      // Get bearer token
+      const bearerToken = options.token || process.env.BEARER_TOKEN;
+      if (!bearerToken) {
+        spinner.fail('Error: BEARER_TOKEN environment variable is required');
+        process.exit(1);
+      }
+      
+      // Extract status ID
+      spinner.text = 'Extracting status ID from URL...';
+      const statusId = TwitterUrlParser.extractStatusId(url);
+      console.log(chalk.blue(`✓ Extracted status ID: ${statusId}`));
+      
+      // Fetch the tweet with its author and media
+      spinner.text = 'Fetching tweet from Twitter API...';
+      const apiClient = new TwitterApiClient(bearerToken);
+      const tweet = await apiClient.getTweetById(statusId);
+      console.log(chalk.blue(`✓ Fetched tweet by @${tweet.author.username}`));
+      
+      // Download the author's avatar and the tweet's images
+      spinner.text = 'Downloading avatar and media...';
+      const assetDownloader = new AssetDownloader(options.output);
+      const profileResult = await assetDownloader.downloadProfileAssets(tweet.author);
+      const mediaResult = await assetDownloader.downloadTweetMedia(tweet);
+      if (mediaResult.mediaImages.length > 0) {
+        console.log(chalk.green(`✓ Downloaded ${mediaResult.mediaImages.length} media image(s)`));
+      }
+      const errors = [...profileResult.errors, ...mediaResult.errors];
+      if (errors.length > 0) {
+        console.log(chalk.yellow(`⚠ Download warnings: ${errors.join(', ')}`));
+      }
+      
+      // Generate card
+      spinner.text = 'Generating tweet card...';
+      const cardGenerator = new ProfileCardGenerator();
+      const result = await cardGenerator.generateTweetCard({
+        profileData: tweet.author,
+        profileImagePath: profileResult.profileImage || undefined,
+        tweet,
+        tweetMediaPaths: mediaResult.mediaImages
+      }, buildCardOptions(options), options.file);
+      
+      if (result.success) {
+        spinner.succeed('Tweet card generated successfully!');
+        console.log(chalk.green(`✓ Card saved: ${result.outputPath}`));
+        
+        if (result.cardInfo) {
+          console.log(chalk.blue(`  Dimensions: ${result.cardInfo.width}x${result.cardInfo.height}`));
+          console.log(chalk.blue(`  Format: ${result.cardInfo.format}`));
+          console.log(chalk.blue(`  File size: ${Math.round(result.cardInfo.fileSize / 1024)}KB`));
+        }
+      } else {
+        spinner.fail('Failed to generate tweet card');
+        console.error(chalk.red(`Error: ${result.error}`));
+        process.exit(1);
+      }
+      
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error}`));
+      process.exit(1);
+    }
+  });
+
+// Comparison command: several profiles side by side in one image
+addCardOptions(
+  program
+    .command('compare')
+    .description('Generate one image comparing two or more processed profiles')
+    .argument('<usernames...>', 'Twitter usernames to compare, in order')
+    .option('-o, --output <dir>', 'Downloads directory', './downloads')
+)
+  .option('--file <path>', 'Output image path (defaults to downloads/comparisons/)')
+  .action(async (usernames: string[], options) => {
+    try {
+      if (usernames.length < 2) {
+        console.error(chalk.red('Error: compare needs at least two usernames'));
+        process.exit(1);
+      }
+      
+      const spinner = ora('Generating comparison card...').start();
+      
+      // Load every profile from its directory
+      const cardGenerator = new ProfileCardGenerator();
+      const profiles: CardAssets[] = [];
+      for (const username of usernames) {
+        spinner.text = `Loading profile data and assets for @${username}...`;
+        profiles.push(await cardGenerator.loadAssetsFromDirectory(username, options.output));
+        console.log(chalk.blue(`✓ Loaded data for @${username}`));
+      }
+      
+      // Generate card
+      spinner.text = 'Generating comparison card...';
+      const result = await cardGenerator.generateComparisonCard(profiles, buildCardOptions(options), options.file);
+      
+      if (result.success) {
+        spinner.succeed('Comparison card generated successfully!');
+        console.log(chalk.green(`✓ Card saved: ${result.outputPath}`));
+        
+        if (result.cardInfo) {
+          console.log(chalk.blue(`  Dimensions: ${result.cardInfo.width}x${result.cardInfo.height}`));
+          console.log(chalk.blue(`  Format: ${result.cardInfo.format}`));
+          console.log(chalk.blue(`  File size: ${Math.round(result.cardInfo.fileSize / 1024)}KB`));
+        }
+      } else {
+        spinner.fail('Failed to generate comparison card');
+        console.error(chalk.red(`Error: ${result.error}`));
+        process.exit(1);
+      }
+      
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error}`));
+      process.exit(1);
+    }
+  });
+
+// Roster command: a team's avatars, names and handles on one card
+addCardOptions(
+  program
+    .command('roster')
+    .description('Generate a team roster card from processed profiles')
+    .argument('[usernames...]', 'Twitter usernames of the team members, in order')
+    .option('-o, --output <dir>', 'Downloads directory', './downloads')
+)
+  .option('--collection <file>', 'File with one profile URL or username per line, instead of usernames')
+  .option('--title <text>', 'Team name shown above the grid')
+  .option('--logo <file>', 'Logo image shown before the title')
+  .option('--file <path>', 'Output image path (defaults to downloads/rosters/)')
+  .action(async (usernames: string[], options) => {
+    try {
+      if (!options.collection && usernames.length === 0) {
+        console.error(chalk.red('Error: pass usernames or --collection <file>'));
+        process.exit(1);
+      }
+      
+      const spinner = ora('Generating roster card...').start();
+      
+      // Load every member from their directory
+      spinner.text = 'Loading profile data and assets...';
+      const cardGenerator = new ProfileCardGenerator();
+      const members = await cardGenerator.loadRosterFromDirectory(options.collection || usernames, options.output);
+      console.log(chalk.blue(`✓ Loaded ${members.length} team members`));
+      
+      // Prepare generation options
+      const cardOptions: CardGenerationOptions = {
+        ...buildCardOptions(options),
+        roster: { title: options.title, logoPath: options.logo }
+      };
+      
+      // Generate card
+      spinner.text = 'Generating roster card...';
+      const result = await cardGenerator.generateRosterCard(members, cardOptions, options.file);
+      
+      if (result.success) {
+        spinner.succeed('Roster card generated successfully!');
+        console.log(chalk.green(`✓ Card saved: ${result.outputPath}`));
+        
+        if (result.cardInfo) {
+          console.log(chalk.blue(`  Dimensions: ${result.cardInfo.width}x${result.cardInfo.height}`));
+          console.log(chalk.blue(`  Format: ${result.cardInfo.format}`));
+          console.log(chalk.blue(`  File size: ${Math.round(result.cardInfo.fileSize / 1024)}KB`));
+        }
+      } else {
+        spinner.fail('Failed to generate roster card');
+        console.error(chalk.red(`Error: ${result.error}`));
+        process.exit(1);
+      }
+      
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error}`));
+      process.exit(1);
+    }
+  });
+
+// Imposition command: N-up sheets of cards for office printers
+addCardOptions(
+  program
+    .command('impose')
+    .description('Lay cards out N-up on Letter/A4 sheets with cut marks as a multi-page PDF')
+    .argument('[cards...]', 'Rendered PNG/JPEG cards; when omitted, a card is rendered for every processed user')
+    .option('-o, --output <dir>', 'Downloads directory', './downloads')
+)
+  .option('--sheet <size>', `Sheet size (${Object.keys(SHEET_SIZES).join(', ')}) or WIDTHxHEIGHT in inches`, 'letter')
+  .option('--orientation <orientation>', 'Sheet orientation (portrait, landscape, auto)', 'auto')
+  .option('--margin <inches>', 'Minimum margin around the cards in inches', '0.5')
+  .option('--gutter <inches>', 'Space between cards in inches', '0.25')
+  .option('--copies <count>', 'Copies of each card', '1')
+  .option('--no-cut-marks', 'Leave out the cut marks')
+  .option('--file <path>', 'Output PDF path (defaults to the downloads directory)')
+  .action(async (cards: string[], options) => {
+    try {
+      const orientations = ['portrait', 'landscape', 'auto'];
+      if (!orientations.includes(options.orientation)) {
+        console.error(chalk.red(`Error: Invalid orientation "${options.orientation}". Expected one of: ${orientations.join(', ')}`));
+        process.exit(1);
+      }
+      
+      const spinner = ora('Imposing cards...').start();
+      const cardGenerator = new ProfileCardGenerator();
+      const { trimWidth, trimHeight } = PrintLayout.parseTrimSize(options.trimSize);
+      let cardPaths = cards;
+      
+      // Render a print-size card for every processed user when no cards are given
+      if (cardPaths.length === 0) {
+        const folderManager = new FolderManager(options.output);
+        const users = await folderManager.getAllUserDirectories();
+        if (users.length === 0) {
+          spinner.fail('No processed users found. Run "process" command first.');
+          process.exit(1);
+        }
+        
+        const dpi = parseInt(options.dpi);
+        const cardOptions: CardGenerationOptions = {
+          ...buildCardOptions(options),
+          outputFormat: 'png',
+          width: Math.round(trimWidth * dpi),
+          height: Math.round(trimHeight * dpi)
+        };
+        
+        cardPaths = [];
+        for (const username of users) {
+          spinner.text = `Rendering card for @${username}...`;
+          const assets = await cardGenerator.loadAssetsFromDirectory(username, options.output);
+          const result = await cardGenerator.generateCard(
+            assets,
+            cardOptions,
+            path.join(folderManager.getUserDirectory(username), `${username}_card_print.png`)
+          );
+          if (result.success && result.outputPath) {
+            cardPaths.push(result.outputPath);
+          } else {
+            console.log(chalk.yellow(`⚠ Skipped @${username}: ${result.error}`));
+          }
+        }
+        console.log(chalk.blue(`✓ Rendered ${cardPaths.length} cards`));
+      }
+      
+      // Lay the cards out on sheets
+      spinner.text = 'Laying out sheets...';
+      const result = await cardGenerator.imposeCards(cardPaths, {
+        sheet: options.sheet,
+        orientation: options.orientation,
+        cardWidth: trimWidth,
+        cardHeight: trimHeight,
+        margin: parseFloat(options.margin),
+        gutter: parseFloat(options.gutter),
+        cutMarks: options.cutMarks !== false,
+        copies: parseInt(options.copies)
+      }, options.file);
+      
+      if (result.success) {
+        spinner.succeed('Card sheets generated successfully!');
+        console.log(chalk.green(`✓ PDF saved: ${result.outputPath}`));
+        
+        if (result.sheetInfo) {
+          console.log(chalk.blue(`  Layout: ${result.sheetInfo.columns}x${result.sheetInfo.rows} cards per sheet`));
+          console.log(chalk.blue(`  Sheets: ${result.sheetInfo.sheets} (${result.sheetInfo.cards} cards)`));
+          console.log(chalk.blue(`  File size: ${Math.round(result.sheetInfo.fileSize / 1024)}KB`));
+        }
+      } else {
+        spinner.fail('Failed to impose cards');
+        console.error(chalk.red(`Error: ${result.error}`));
+        process.exit(1);
+      }
+      
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error}`));
+      process.exit(1);
+    }
+  });
+
 // Batch card generation command: generate cards for all users
-program
-  .command('generate-cards')
-  .description('Generate profile cards for all processed users')
-  .option('-o, --output <dir>', 'Downloads directory', './downloads')
-  .option('-w, --width <pixels>', 'Card width in pixels', '1200')
-  .option('-h, --height <pixels>', 'Card height in pixels', '630')
-  .option('-s, --style <style>', 'Card style (modern, classic, minimal)', 'modern')
-  .option('-f, --format <format>', 'Output format (png, jpeg)', 'png')
-  .option('--no-banner', 'Hide banner image')
-  .option('--no-stats', 'Hide statistics')
-  .option('--no-description', 'Hide description')
-  .option('--bg-color <color>', 'Background color (hex)', '#000000')
-  .option('--text-color <color>', 'Text color (hex)', '#ffffff')
-  .option('--accent-color <color>', 'Accent color (hex)', '#1d9bf0')
+addCardOptions(
+  program
+    .command('generate-cards')
+    .description('Generate profile cards for all processed users')
+    .option('-o, --output <dir>', 'Downloads directory', './downloads')
+)
   .action(async (options) => {
     try {
       const folderManager = new FolderManager(options.output);
@@ -388,18 +859,7 @@ program
           const assets = await cardGenerator.loadAssetsFromDirectory(username, options.output);
           
           // Prepare generation options
-          const cardOptions: CardGenerationOptions = {
-            width: parseInt(options.width),
-            height: parseInt(options.height),
-            cardStyle: options.style,
-            outputFormat: options.format,
-            showBanner: options.banner !== false,
-            showStats: options.stats !== false,
-            showDescription: options.description !== false,
-            backgroundColor: options.bgColor,
-            textColor: options.textColor,
-            accentColor: options.accentColor
-          };
+          const cardOptions = buildCardOptions(options);
           
           // Generate card
           const result = await cardGenerator.generateCard(assets, cardOptions);
@@ -407,6 +867,9 @@ program
           if (result.success) {
             spinner.succeed(`Card generated for @${username}`);
             console.log(chalk.green(`  Saved: ${result.outputPath}`));
+            if (result.backOutputPath) {
+              console.log(chalk.green(`  Back: ${result.backOutputPath}`));
+            }
             successCount++;
           } else {
             spinner.fail(`Failed to generate card for @${username}`);
@@ -432,5 +895,121 @@ program
     }
   });
 
+// Apple Wallet command: build a signed .pkpass business card
+program
+  .command('wallet-pass')
+  .description('Generate a signed Apple Wallet pass (.pkpass) from stored user data')
+  .argument('<username>', 'Twitter username to generate the pass for')
+  .option('-o, --output <dir>', 'Downloads directory', './downloads')
+  .option('--pass-file <file>', 'Output .pkpass path (defaults to the user directory)')
+  .option('--pass-type-id <id>', 'Pass Type ID (overrides PASS_TYPE_IDENTIFIER env var)')
+  .option('--team-id <id>', 'Apple Developer Team ID (overrides TEAM_IDENTIFIER env var)')
+  .option('--cert <file>', 'Pass Type ID certificate PEM (overrides PASS_CERTIFICATE env var)')
+  .option('--key <file>', 'Certificate private key PEM (overrides PASS_KEY env var)')
+  .option('--key-passphrase <passphrase>', 'Private key passphrase (overrides PASS_KEY_PASSPHRASE env var)')
+  .option('--wwdr <file>', 'Apple WWDR intermediate certificate PEM (overrides WWDR_CERTIFICATE env var)')
+  .option('--org-name <name>', 'Organization name shown on the pass')
+  .option('--url <url>', 'Link encoded in the pass QR code (defaults to the profile URL)')
+  .option('--bg-color <color>', 'Pass background color (hex)', '#000000')
+  .option('--text-color <color>', 'Pass text color (hex)', '#ffffff')
+  .option('--label-color <color>', 'Pass label color (hex)', '#71767b')
+  .action(async (username: string, options) => {
+    try {
+      const passTypeIdentifier = options.passTypeId || process.env.PASS_TYPE_IDENTIFIER;
+      const teamIdentifier = options.teamId || process.env.TEAM_IDENTIFIER;
+      const certificatePath = options.cert || process.env.PASS_CERTIFICATE;
+      const keyPath = options.key || process.env.PASS_KEY;
+      const wwdrPath = options.wwdr || process.env.WWDR_CERTIFICATE;
+      const passphrase = options.keyPassphrase || process.env.PASS_KEY_PASSPHRASE;
+
+      if (!passTypeIdentifier || !teamIdentifier || !certificatePath || !keyPath || !wwdrPath) {
+        console.error(chalk.red('Error: pass type ID, team ID, certificate, key and WWDR certificate are required'));
+        process.exit(1);
+      }
+
+      const spinner = ora('Generating Apple Wallet pass...').start();
+
+      spinner.text = 'Loading profile data and assets...';
+      const cardGenerator = new ProfileCardGenerator();
+      const assets = await cardGenerator.loadAssetsFromDirectory(username, options.output);
+      console.log(chalk.blue(`✓ Loaded data for @${username}`));
+
+      spinner.text = 'Loading signing certificates...';
+      const certificates = await WalletPassBuilder.loadCertificates(certificatePath, keyPath, wwdrPath, passphrase);
+
+      spinner.text = 'Building and signing pass...';
+      const builder = new WalletPassBuilder({
+        passTypeIdentifier,
+        teamIdentifier,
+        certificates,
+        organizationName: options.orgName,
+        url: options.url,
+        backgroundColor: options.bgColor,
+        foregroundColor: options.textColor,
+        labelColor: options.labelColor
+      });
+      const passPath = await builder.buildToFile(
+        assets,
+        options.passFile || path.join(options.output, username, `${username}.pkpass`)
+      );
+
+      spinner.succeed('Apple Wallet pass generated successfully!');
+      console.log(chalk.green(`✓ Pass saved: ${passPath}`));
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error}`));
+      process.exit(1);
+    }
+  });
+
+// Google Wallet command: emit a signed "Save to Wallet" link
+program
+  .command('google-wallet')
+  .description('Generate a signed Google Wallet "Save to Wallet" JWT and link from stored user data')
+  .argument('<username>', 'Twitter username to generate the pass for')
+  .option('-o, --output <dir>', 'Downloads directory', './downloads')
+  .option('--issuer-id <id>', 'Google Wallet issuer ID (overrides GOOGLE_WALLET_ISSUER_ID env var)')
+  .option('--key-file <file>', 'Service account key JSON (overrides GOOGLE_WALLET_KEY_FILE env var)')
+  .option('--class-suffix <suffix>', 'Generic pass class suffix', 'x_card_maker')
+  .option('--origins <origins>', 'Comma-separated web origins allowed to show the save button')
+  .option('--url <url>', 'Link encoded in the pass QR code (defaults to the profile URL)')
+  .option('--bg-color <color>', 'Pass background color (hex)', '#000000')
+  .option('--jwt', 'Print only the signed JWT')
+  .option('--json', 'Print the generic pass object instead of the link')
+  .action(async (username: string, options) => {
+    try {
+      const issuerId = options.issuerId || process.env.GOOGLE_WALLET_ISSUER_ID;
+      const keyFile = options.keyFile || process.env.GOOGLE_WALLET_KEY_FILE;
+
+      if (!issuerId || !keyFile) {
+        console.error(chalk.red('Error: issuer ID and service account key file are required'));
+        process.exit(1);
+      }
+
+      const cardGenerator = new ProfileCardGenerator();
+      const assets = await cardGenerator.loadAssetsFromDirectory(username, options.output);
+
+      const exporter = new GoogleWalletExporter({
+        issuerId,
+        serviceAccount: await GoogleWalletExporter.loadServiceAccountKey(keyFile),
+        classSuffix: options.classSuffix,
+        origins: options.origins ? options.origins.split(',').map((origin: string) => origin.trim()) : [],
+        url: options.url,
+        backgroundColor: options.bgColor
+      });
+
+      if (options.json) {
+        console.log(JSON.stringify(exporter.createGenericObject(assets), null, 2));
+      } else if (options.jwt) {
+        console.log(exporter.createSaveJwt(assets));
+      } else {
+        console.log(chalk.green(`✓ Save to Google Wallet link for @${username}:`));
+        console.log(exporter.createSaveUrl(assets));
+      }
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error}`));
+      process.exit(1);
+    }
+  });
+
 // Parse command line arguments
 program.parse();
@@ -0,0 +1,288 @@
+import { createCanvas, loadImage } from 'canvas';
+
+/**
+ * A color extracted from an image, weighted by how much of the image it covers
+ */
+export interface PaletteColor {
+  r: number;
+  g: number;
+  b: number;
+  hex: string;
+  /** Share of the sampled pixels, 0-1 */
+  weight: number;
+}
+
+/**
+ * Card colors picked from a palette
+ */
+export interface PaletteTheme {
+  backgroundColor: string;
+  textColor: string;
+  secondaryTextColor: string;
+  accentColor: string;
+  dividerColor: string;
+}
+
+/** WCAG AA contrast for body text */
+export const MIN_TEXT_CONTRAST = 4.5;
+/** WCAG contrast for large text and graphical elements */
+export const MIN_ACCENT_CONTRAST = 3;
+
+const SAMPLE_SIZE = 64;
+
+/**
+ * Red, green and blue channels, 0-255
+ */
+export type RgbColor = [number, number, number];
+
+/**
+ * Extracts dominant colors from images and turns them into readable card colors
+ */
+export class ColorPalette {
+  /**
+   * Extract the dominant colors of one or more images with median cut quantization
+   * @param imagePaths - Images to sample; later images count less than earlier ones
+   * @param count - Number of colors to return
+   * @returns Promise<PaletteColor[]> - Colors sorted by weight, largest first
+   */
+  static async extract(imagePaths: string[], count: number = 6): Promise<PaletteColor[]> {
+    const pixels: RgbColor[] = [];
+
+    for (let i = 0; i < imagePaths.length; i++) {
+      try {
+        const image = await loadImage(imagePaths[i]);
+        const canvas = createCanvas(SAMPLE_SIZE, SAMPLE_SIZE);
+        const ctx = canvas.getContext('2d');
+        ctx.drawImage(image, 0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+        const data = ctx.getImageData(0, 0, SAMPLE_SIZE, SAMPLE_SIZE).data;
+
+        // Sample every pixel of the first image and fewer of each following one
+        const step = 4 * (i + 1);
+        for (let p = 0; p < data.length; p += step) {
+          if (data[p + 3] >= 128) {
+            pixels.push([data[p], data[p + 1], data[p + 2]]);
+          }
+        }
+      } catch (error) {
+        console.warn(`Failed to sample colors from ${imagePaths[i]}:`, error);
+      }
+    }
+
+    if (pixels.length === 0) {
+      return [];
+    }
+
+    // Median cut boxes hold equal pixel counts, so reassign every pixel to its
+    // nearest box color to get weights that reflect how much area a color covers
+    const centers = this.medianCut(pixels, count).map(box => this.average(box));
+    const clusters: RgbColor[][] = centers.map(() => []);
+    for (const pixel of pixels) {
+      let nearest = 0;
+      let nearestDistance = Infinity;
+      centers.forEach((center, index) => {
+        const distance = (pixel[0] - center[0]) ** 2 + (pixel[1] - center[1]) ** 2 + (pixel[2] - center[2]) ** 2;
+        if (distance < nearestDistance) {
+          nearest = index;
+          nearestDistance = distance;
+        }
+      });
+      clusters[nearest].push(pixel);
+    }
+
+    return clusters
+      .filter(cluster => cluster.length > 0)
+      .map(cluster => {
+        const [r, g, b] = this.average(cluster);
+        return { r, g, b, hex: this.toHex([r, g, b]), weight: cluster.length / pixels.length };
+      })
+      .sort((a, b) => b.weight - a.weight);
+  }
+
+  /**
+   * Pick background, text and accent colors from a palette. The background is
+   * the dominant color, darkened or lightened until white or near-black text on
+   * it reaches MIN_TEXT_CONTRAST; the accent is the most saturated color that
+   * stands out from the background. Secondary text and dividers are blends of
+   * the text and background colors.
+   * @param palette - Colors from extract()
+   * @param fallback - Colors used when the palette is empty; its accent is also used for greyscale palettes
+   * @returns Theme colors
+   */
+  static pickTheme(
+    palette: PaletteColor[],
+    fallback: PaletteTheme = {
+      backgroundColor: '#000000',
+      textColor: '#ffffff',
+      secondaryTextColor: '#71767b',
+      accentColor: '#1d9bf0',
+      dividerColor: '#2f3336'
+    }
+  ): PaletteTheme {
+    if (palette.length === 0) {
+      return fallback;
+    }
+
+    const dominant: RgbColor = [palette[0].r, palette[0].g, palette[0].b];
+    const lightText: RgbColor = [255, 255, 255];
+    const darkText: RgbColor = [15, 20, 25];
+
+    // Keep the text color with the better contrast and push the background away from it
+    const useLightText = this.contrastRatio(dominant, lightText) >= this.contrastRatio(dominant, darkText);
+    const text = useLightText ? lightText : darkText;
+    const background = this.adjustForContrast(dominant, text, MIN_TEXT_CONTRAST);
+
+    const candidates = palette
+      .map(color => [color.r, color.g, color.b] as RgbColor)
+      .sort((a, b) => this.saturation(b) - this.saturation(a));
+
+    let accent = candidates.find(color =>
+      this.saturation(color) > 0.25 && this.contrastRatio(color, background) >= MIN_ACCENT_CONTRAST
+    );
+    if (!accent) {
+      // Move the most saturated color (or the fallback accent for greyscale images)
+      // away from the background until it stands out
+      const base = this.saturation(candidates[0]) > 0.25 ? candidates[0] : this.parseHex(fallback.accentColor);
+      accent = this.adjustForContrast(base, background, MIN_ACCENT_CONTRAST);
+    }
+
+    const secondary = this.adjustForContrast(this.mix(text, background, 0.45), background, MIN_TEXT_CONTRAST);
+
+    return {
+      backgroundColor: this.toHex(background),
+      textColor: this.toHex(text),
+      secondaryTextColor: this.toHex(secondary),
+      accentColor: this.toHex(accent),
+      dividerColor: this.toHex(this.mix(text, background, 0.8))
+    };
+  }
+
+  /**
+   * WCAG contrast ratio between two colors
+   * @param a - Color as hex string or RGB triple
+   * @param b - Color as hex string or RGB triple
+   * @returns Ratio from 1 to 21
+   */
+  static contrastRatio(a: string | RgbColor, b: string | RgbColor): number {
+    const la = this.luminance(typeof a === 'string' ? this.parseHex(a) : a);
+    const lb = this.luminance(typeof b === 'string' ? this.parseHex(b) : b);
+    return (Math.max(la, lb) + 0.05) / (Math.min(la, lb) + 0.05);
+  }
+
+  /**
+   * Parse a #rgb or #rrggbb color
+   * @throws Error for any other format
+   */
+  static parseHex(hex: string): RgbColor {
+    const match = hex.trim().match(/^#?([0-9a-f]{3}|[0-9a-f]{6})$/i);
+    if (!match) {
+      throw new Error(`Invalid hex color "${hex}"`);
+    }
+    const value = match[1].length === 3 ? match[1].split('').map(c => c + c).join('') : match[1];
+    return [0, 2, 4].map(i => parseInt(value.slice(i, i + 2), 16)) as RgbColor;
+  }
+
+  /**
+   * Format an RGB color as #rrggbb
+   */
+  static toHex([r, g, b]: RgbColor): string {
+    return '#' + [r, g, b].map(v => Math.round(v).toString(16).padStart(2, '0')).join('');
+  }
+
+  /**
+   * Blend a color toward black or white, whichever contrasts more with the other
+   * color, until the contrast target is met
+   */
+  private static adjustForContrast(color: RgbColor, against: RgbColor, target: number): RgbColor {
+    const black: RgbColor = [0, 0, 0];
+    const white: RgbColor = [255, 255, 255];
+    // Luminance 0.5 is not the midpoint: greys down to about 0.18 still contrast more with black
+    const toward = this.contrastRatio(against, black) >= this.contrastRatio(against, white) ? black : white;
+    let adjusted = color;
+
+    // Whole steps, so the last one reaches pure black or white
+    for (let step = 1; step <= 20 && this.contrastRatio(adjusted, against) < target; step++) {
+      adjusted = this.mix(color, toward, step / 20);
+    }
+
+    return adjusted;
+  }
+
+  /**
+   * Blend from one color toward another by amount (0-1)
+   */
+  private static mix(from: RgbColor, to: RgbColor, amount: number): RgbColor {
+    return from.map((v, i) => Math.round(v + (to[i] - v) * amount)) as RgbColor;
+  }
+
+  /**
+   * Split the pixels into `count` boxes, each time cutting the box with the
+   * widest channel range at its median
+   */
+  private static medianCut(pixels: RgbColor[], count: number): RgbColor[][] {
+    const boxes: RgbColor[][] = [pixels];
+
+    while (boxes.length < count) {
+      let widest = -1;
+      let widestRange = 0;
+      let widestChannel = 0;
+
+      boxes.forEach((box, index) => {
+        if (box.length < 2) {
+          return;
+        }
+        for (let channel = 0; channel < 3; channel++) {
+          let min = 255;
+          let max = 0;
+          for (const pixel of box) {
+            min = Math.min(min, pixel[channel]);
+            max = Math.max(max, pixel[channel]);
+          }
+          if (max - min > widestRange) {
+            widest = index;
+            widestRange = max - min;
+            widestChannel = channel;
+          }
+        }
+      });
+
+      if (widest === -1) {
+        break;
+      }
+
+      const box = boxes[widest].sort((a, b) => a[widestChannel] - b[widestChannel]);
+      const middle = Math.floor(box.length / 2);
+      boxes.splice(widest, 1, box.slice(0, middle), box.slice(middle));
+    }
+
+    return boxes;
+  }
+
+  private static average(box: RgbColor[]): RgbColor {
+    const sum = box.reduce((acc, [r, g, b]) => [acc[0] + r, acc[1] + g, acc[2] + b], [0, 0, 0]);
+    return sum.map(v => Math.round(v / box.length)) as RgbColor;
+  }
+
+  /**
+   * Relative luminance (WCAG 2.x)
+   */
+  private static luminance([r, g, b]: RgbColor): number {
+    const [lr, lg, lb] = [r, g, b].map(v => {
+      const c = v / 255;
+      return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+    });
+    return 0.2126 * lr + 0.7152 * lg + 0.0722 * lb;
+  }
+
+  /**
+   * HSL saturation, 0-1
+   */
+  private static saturation([r, g, b]: RgbColor): number {
+    const max = Math.max(r, g, b) / 255;
+    const min = Math.min(r, g, b) / 255;
+    const lightness = (max + min) / 2;
+    if (max === min) {
+      return 0;
+    }
+    return lightness > 0.5 ? (max - min) / (2 - max - min) : (max - min) / (max + min);
+  }
+}
@@ -0,0 +1,152 @@
+import { CardAssets } from './types';
+import { CardLayout, ResolvedCardOptions, loadImageSafely, getContentInset } from './cardLayouts';
+import { TextFitter } from './textFit';
+import { ImageFitter } from './imageFit';
+import { CardLocale } from './locale';
+import { VerificationBadge } from './verificationBadge';
+import { CardRenderingContext } from './renderingContext';
+
+const COLUMN_GAP = 40;
+
+/**
+ * Several profiles side by side: one column per profile with avatar, name and
+ * handle, and a bar per stat scaled to the largest value across the profiles.
+ * The leading profile's bar uses the accent color. Sized relative to a 1200x630 card.
+ */
+export class ComparisonLayout implements CardLayout {
+  readonly name = 'comparison';
+  readonly description = 'Profiles side by side with metric bars';
+
+  /**
+   * @param profiles - Profiles to compare, drawn left to right
+   */
+  constructor(private readonly profiles: CardAssets[]) {}
+
+  async render(ctx: CardRenderingContext, _assets: CardAssets, options: ResolvedCardOptions): Promise<void> {
+    const scale = Math.min(options.width / 1200, options.height / 630);
+    const width = options.width / scale;
+    const height = options.height / scale;
+    const inset = getContentInset(options, scale, 56);
+    const count = this.profiles.length;
+    const columnWidth = (width - inset * 2 - COLUMN_GAP * (count - 1)) / count;
+
+    ctx.save();
+    ctx.scale(scale, scale);
+
+    ctx.fillStyle = options.backgroundColor;
+    ctx.fillRect(0, 0, width, height);
+    ctx.textBaseline = 'top';
+
+    const avatarSize = Math.min(120, columnWidth * 0.5);
+    const statsTop = inset + avatarSize + 130;
+    const metrics = options.showStats ? options.stats : [];
+    const maxValues = metrics.map(metric =>
+      Math.max(0, ...this.profiles.map(profile => profile.profileData.getStatCount(metric)))
+    );
+
+    for (let i = 0; i < count; i++) {
+      const x = inset + i * (columnWidth + COLUMN_GAP);
+
+      if (i > 0) {
+        ctx.fillStyle = options.dividerColor;
+        ctx.fillRect(x - COLUMN_GAP / 2, inset, 1, height - inset * 2);
+      }
+
+      await this.drawHeader(ctx, this.profiles[i], options, x, inset, columnWidth, avatarSize);
+
+      if (metrics.length > 0) {
+        const rowHeight = Math.min(96, (height - inset - statsTop) / metrics.length);
+        metrics.forEach((metric, row) => {
+          const value = this.profiles[i].profileData.getStatCount(metric);
+          this.drawMetric(ctx, options, {
+            label: CardLocale.getLabels(options.locale)[metric],
+            value,
+            max: maxValues[row],
+            x,
+            y: statsTop + row * rowHeight,
+            width: columnWidth,
+            rowHeight
+          });
+        });
+      }
+    }
+
+    ctx.restore();
+  }
+
+  /**
+   * Centered avatar, name with badge and username
+   */
+  private async drawHeader(
+    ctx: CardRenderingContext,
+    assets: CardAssets,
+    options: ResolvedCardOptions,
+    x: number,
+    y: number,
+    width: number,
+    avatarSize: number
+  ): Promise<void> {
+    const profile = assets.profileData;
+    const centerX = x + width / 2;
+
+    if (assets.profileImagePath) {
+      const avatar = await loadImageSafely(assets.profileImagePath, `profile image for @${profile.username}`);
+      if (avatar) {
+        const box = { x: centerX - avatarSize / 2, y, width: avatarSize, height: avatarSize };
+        const rect = ImageFitter.getDrawRect(avatar.width, avatar.height, box, options.avatarFit, options.avatarFocus);
+        ctx.save();
+        ctx.beginPath();
+        ctx.arc(centerX, y + avatarSize / 2, avatarSize / 2, 0, Math.PI * 2);
+        ctx.clip();
+        ctx.drawImage(avatar, rect.x, rect.y, rect.width, rect.height);
+        ctx.restore();
+      }
+    }
+
+    ctx.textAlign = 'center';
+    ctx.fillStyle = options.textColor;
+    const badge = options.showBadge ? VerificationBadge.getType(profile) : 'none';
+    VerificationBadge.drawNameWithBadge(ctx, profile.name, badge, centerX, y + avatarSize + 20, {
+      fontSize: 30, minFontSize: 18, fontStyle: 'bold', fontFamily: options.fontFamily, maxWidth: width
+    });
+
+    ctx.fillStyle = options.secondaryTextColor;
+    TextFitter.draw(ctx, `@${profile.username}`, centerX, y + avatarSize + 62, {
+      fontSize: 22, minFontSize: 14, fontFamily: options.fontFamily, maxWidth: width, maxLines: 1
+    });
+  }
+
+  /**
+   * One stat row: label and count on a line, then a bar on a full-width track
+   */
+  private drawMetric(
+    ctx: CardRenderingContext,
+    options: ResolvedCardOptions,
+    row: { label: string; value: number; max: number; x: number; y: number; width: number; rowHeight: number }
+  ): void {
+    const fontSize = Math.min(22, row.rowHeight * 0.42);
+    const barHeight = Math.max(4, row.rowHeight * 0.12);
+    const barY = row.y + fontSize + 8;
+
+    ctx.textAlign = 'right';
+    ctx.fillStyle = options.textColor;
+    ctx.font = `bold ${fontSize}px ${options.fontFamily}`;
+    const value = CardLocale.formatCount(row.value, options.locale);
+    ctx.fillText(value, row.x + row.width, row.y);
+    const valueWidth = ctx.measureText(value).width;
+
+    ctx.textAlign = 'left';
+    ctx.fillStyle = options.secondaryTextColor;
+    TextFitter.draw(ctx, row.label, row.x, row.y, {
+      fontSize, minFontSize: fontSize * 0.7, fontFamily: options.fontFamily, maxWidth: row.width - valueWidth - 8, maxLines: 1
+    });
+
+    ctx.fillStyle = options.dividerColor;
+    ctx.fillRect(row.x, barY, row.width, barHeight);
+
+    if (row.value > 0 && row.max > 0) {
+      ctx.fillStyle = row.value === row.max ? options.accentColor : options.secondaryTextColor;
+      ctx.fillRect(row.x, barY, Math.max(barHeight, row.width * row.value / row.max), barHeight);
+    }
+  }
+}
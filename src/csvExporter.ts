@@ -124,7 +124,8 @@ export class CSVExporter {
    */
   async createMasterCSV(profilesDir: string): Promise<string> {
     const masterCsvPath = path.join(profilesDir, 'all_profiles.csv');
-    const allData: Record<string, any>[] = [];
+    const allData: Record<string, string>[] = [];
+    const headers = new Set<string>();
 
     try {
       // Read all user directories
@@ -140,33 +141,22 @@ export class CSVExporter {
           const csvFile = files.find(file => file.endsWith('_data.csv'));
           
           if (csvFile) {
-            const csvPath = path.join(userPath, csvFile);
-            const csvContent = await fs.readFile(csvPath, 'utf8');
-            const lines = csvContent.trim().split('\n');
-            
-            // Skip header row for subsequent files
-            const dataLines = allData.length === 0 ? lines : lines.slice(1);
-            
-            // Parse CSV lines
-            for (const line of dataLines) {
-              if (line.trim()) {
-                const values = this.parseCSVLine(line);
-                const headers = Object.keys(allData[0] || {});
-                const row: Record<string, any> = {};
-                
-                headers.forEach((header, index) => {
-                  row[header] = values[index] || '';
-                });
-                
-                allData.push(row);
-              }
+            const csvContent = await fs.readFile(path.join(userPath, csvFile), 'utf8');
+            for (const row of this.parseCSVContent(csvContent)) {
+              Object.keys(row).forEach(header => headers.add(header));
+              allData.push(row);
             }
           }
         }
       }
 
+      // Files written by older versions have fewer columns; fill the gaps with empty values
+      const rows = allData.map(row =>
+        Object.fromEntries(Array.from(headers).map(header => [header, row[header] ?? '']))
+      );
+
       // Create master CSV
-      const csvContent = this.createCSVContent(allData);
+      const csvContent = this.createCSVContent(rows);
       await fs.writeFile(masterCsvPath, csvContent, 'utf8');
       
       return masterCsvPath;
@@ -176,39 +166,52 @@ export class CSVExporter {
   }
 
   /**
-   * Parse a CSV line into array of values
-   * @param line - CSV line to parse
-   * @returns Array of values
+   * Parse CSV content into rows keyed by the header row. Quoted fields may
+   * contain commas, escaped quotes and newlines.
+   * @param content - CSV file content
+   * @returns Array of rows
    */
-  private parseCSVLine(line: string): string[] {
-    const values: string[] = [];
+  parseCSVContent(content: string): Record<string, string>[] {
+    const records: string[][] = [];
+    let record: string[] = [];
     let current = '';
     let inQuotes = false;
-    
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-      
+
+    for (let i = 0; i < content.length; i++) {
+      const char = content[i];
+
       if (char === '"') {
-        if (inQuotes && line[i + 1] === '"') {
+        if (inQuotes && content[i + 1] === '"') {
           // Escaped quote
           current += '"';
-          i++; // Skip next quote
+          i++;
         } else {
-          // Toggle quote state
           inQuotes = !inQuotes;
         }
       } else if (char === ',' && !inQuotes) {
-        // End of field
-        values.push(current);
+        record.push(current);
+        current = '';
+      } else if ((char === '\n' || char === '\r') && !inQuotes) {
+        if (char === '\r' && content[i + 1] === '\n') {
+          i++;
+        }
+        record.push(current);
+        records.push(record);
+        record = [];
         current = '';
       } else {
         current += char;
       }
     }
-    
-    // Add last field
-    values.push(current);
-    
-    return values;
+
+    if (current || record.length > 0) {
+      record.push(current);
+      records.push(record);
+    }
+
+    const [headers = [], ...rows] = records.filter(values => values.some(value => value !== ''));
+    return rows.map(values =>
+      Object.fromEntries(headers.map((header, index) => [header, values[index] ?? '']))
+    );
   }
 }
@@ -1,6 +1,18 @@
 import * as fs from 'fs-extra';
 import * as path from 'path';
 
+/**
+ * Directory under the downloads folder for cards that show several profiles
+ */
+export const COMPARISONS_DIR = 'comparisons';
+
+/**
+ * Directory under the downloads folder for team roster cards
+ */
+export const ROSTERS_DIR = 'rosters';
+
+const NON_USER_DIRECTORIES = [COMPARISONS_DIR, ROSTERS_DIR];
+
 /**
  * Folder manager for organizing user data and assets
  */
@@ -54,7 +66,7 @@ export class FolderManager {
         const itemPath = path.join(this.baseDir, item);
         const stat = await fs.stat(itemPath);
         
-        if (stat.isDirectory()) {
+        if (stat.isDirectory() && !NON_USER_DIRECTORIES.includes(item)) {
           userDirs.push(item);
         }
       }
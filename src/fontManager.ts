@@ -0,0 +1,234 @@
+import { registerFont } from 'canvas';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { CardRenderingContext } from './renderingContext';
+
+/**
+ * Scripts that get their own font fallback chain
+ */
+export type FontScript = 'latin' | 'cjk' | 'arabic' | 'hebrew' | 'devanagari' | 'thai' | 'emoji';
+
+/**
+ * A font file to register with node-canvas
+ */
+export interface FontDefinition {
+  /** Path to a .ttf or .otf file */
+  path: string;
+  /** Family name used in CSS font strings; derived from the file name when omitted */
+  family?: string;
+  weight?: string;
+  style?: string;
+}
+
+/**
+ * Fallback families per script, tried in order after the primary font family
+ */
+export const DEFAULT_FONT_FALLBACKS: Record<FontScript, string[]> = {
+  latin: ['Noto Sans', 'DejaVu Sans', 'Helvetica', 'Arial'],
+  cjk: ['Noto Sans CJK SC', 'Noto Sans CJK JP', 'Noto Sans CJK KR', 'PingFang SC', 'Hiragino Sans', 'Microsoft YaHei', 'Malgun Gothic'],
+  arabic: ['Noto Sans Arabic', 'Noto Naskh Arabic', 'Geeza Pro', 'Segoe UI', 'Tahoma'],
+  hebrew: ['Noto Sans Hebrew', 'Arial Hebrew', 'Segoe UI', 'Tahoma'],
+  devanagari: ['Noto Sans Devanagari', 'Kohinoor Devanagari', 'Nirmala UI', 'Mangal'],
+  thai: ['Noto Sans Thai', 'Thonburi', 'Leelawadee UI', 'Tahoma'],
+  emoji: ['Noto Color Emoji', 'Apple Color Emoji', 'Segoe UI Emoji', 'Twemoji Mozilla', 'Symbola']
+};
+
+/**
+ * Directory whose font files are registered automatically. The repository
+ * ships no font files, so the fallback chains only help with the fonts
+ * installed on the machine or added here, such as NotoColorEmoji.ttf.
+ */
+export const BUNDLED_FONTS_DIR = path.join(__dirname, '..', 'fonts');
+
+const SCRIPT_PATTERNS: Record<Exclude<FontScript, 'latin'>, RegExp> = {
+  cjk: /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u,
+  arabic: /\p{Script=Arabic}/u,
+  hebrew: /\p{Script=Hebrew}/u,
+  devanagari: /\p{Script=Devanagari}/u,
+  thai: /\p{Script=Thai}/u,
+  emoji: /\p{Extended_Pictographic}/u
+};
+
+const GENERIC_FAMILIES = ['serif', 'sans-serif', 'monospace', 'cursive', 'fantasy', 'system-ui'];
+
+const STRONG_RTL = /[\p{Script=Arabic}\p{Script=Hebrew}\p{Script=Syriac}\p{Script=Thaana}\p{Script=Nko}]/u;
+const STRONG_LTR = /[\p{Script=Latin}\p{Script=Greek}\p{Script=Cyrillic}\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}\p{Script=Devanagari}\p{Script=Thai}]/u;
+
+/**
+ * Registers font files and builds font-family strings with per-script fallbacks,
+ * so names and bios in other scripts or with emoji don't render as empty boxes
+ */
+export class FontManager {
+  private static readonly registered = new Map<string, string>();
+  private static bundledLoaded = false;
+
+  /**
+   * Register a font file. Must be called before the canvas is created.
+   * @param font - Font file and face description
+   * @returns The family name the font was registered under
+   * @throws Error if the file does not exist
+   */
+  static register(font: FontDefinition): string {
+    const fontPath = path.resolve(font.path);
+    const existing = this.registered.get(fontPath);
+    if (existing) {
+      return existing;
+    }
+
+    if (!fs.existsSync(fontPath)) {
+      throw new Error(`Font file not found: ${font.path}`);
+    }
+
+    const family = this.getFamily(font);
+    const fileName = path.basename(fontPath);
+    registerFont(fontPath, {
+      family,
+      weight: font.weight || (/bold/i.test(fileName) ? 'bold' : undefined),
+      style: font.style || (/italic/i.test(fileName) ? 'italic' : undefined)
+    });
+    this.registered.set(fontPath, family);
+
+    return family;
+  }
+
+  /**
+   * Get the family name a font is registered under, without registering it
+   * @param font - Font file and face description
+   * @returns The given family, or one derived from the file name
+   */
+  static getFamily(font: FontDefinition): string {
+    return font.family || this.familyFromFileName(path.resolve(font.path));
+  }
+
+  /**
+   * Register every .ttf and .otf file in a directory
+   * @param dir - Directory to scan
+   * @returns Family names that were registered
+   */
+  static registerDirectory(dir: string): string[] {
+    if (!fs.existsSync(dir)) {
+      return [];
+    }
+
+    return fs.readdirSync(dir)
+      .filter(file => /\.(ttf|otf)$/i.test(file))
+      .sort()
+      .map(file => this.register({ path: path.join(dir, file) }));
+  }
+
+  /**
+   * Register the fonts in BUNDLED_FONTS_DIR once per process
+   */
+  static registerBundledFonts(): void {
+    if (this.bundledLoaded) {
+      return;
+    }
+    this.bundledLoaded = true;
+
+    try {
+      this.registerDirectory(BUNDLED_FONTS_DIR);
+    } catch (error) {
+      console.warn('Failed to register bundled fonts:', error);
+    }
+  }
+
+  /**
+   * Detect the scripts that need a fallback font
+   * @param text - Text to inspect
+   * @returns Scripts found in the text, always including latin
+   */
+  static detectScripts(text: string): FontScript[] {
+    const scripts: FontScript[] = ['latin'];
+
+    for (const [script, pattern] of Object.entries(SCRIPT_PATTERNS)) {
+      if (pattern.test(text)) {
+        scripts.push(script as FontScript);
+      }
+    }
+
+    return scripts;
+  }
+
+  /**
+   * Build a font-family list: the primary families, the fallbacks for every
+   * script in the text, the emoji fallbacks, then any generic family from the primary list
+   * @param primary - Font family or comma-separated family list
+   * @param text - Text the font will render; all script fallbacks are added when omitted
+   * @param fallbacks - Per-script overrides of DEFAULT_FONT_FALLBACKS
+   * @returns CSS font-family value
+   */
+  static buildFontFamily(
+    primary: string,
+    text?: string,
+    fallbacks: Partial<Record<FontScript, string[]>> = {}
+  ): string {
+    const families = primary.split(',').map(family => family.trim().replace(/^["']|["']$/g, '')).filter(Boolean);
+    const generic = families.filter(family => GENERIC_FAMILIES.includes(family.toLowerCase()));
+    const chain = families.filter(family => !generic.includes(family));
+
+    const scripts = text !== undefined
+      ? this.detectScripts(text)
+      : Object.keys(DEFAULT_FONT_FALLBACKS) as FontScript[];
+
+    for (const script of scripts) {
+      chain.push(...(fallbacks[script] || DEFAULT_FONT_FALLBACKS[script]));
+    }
+    // Emoji families close every chain: flags, keycaps and other sequences can slip past detection
+    chain.push(...(fallbacks.emoji || DEFAULT_FONT_FALLBACKS.emoji));
+
+    const unique = [...new Set([...chain, ...(generic.length > 0 ? generic : ['sans-serif'])])];
+    return unique.map(family => (/\s/.test(family) ? `"${family}"` : family)).join(', ');
+  }
+
+  /**
+   * Check whether text is right-to-left, based on its first strong character
+   * @param text - Text to inspect
+   */
+  static isRtl(text: string): boolean {
+    for (const char of text) {
+      if (STRONG_RTL.test(char)) {
+        return true;
+      }
+      if (STRONG_LTR.test(char)) {
+        return false;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Fill a line of text with the direction taken from its content. Right-to-left
+   * text in a left-aligned block of blockWidth is aligned to the block's right edge.
+   * @param ctx - Canvas context with font, color and alignment already set
+   * @param text - Line to draw
+   * @param x - Anchor x, as for fillText
+   * @param y - Anchor y
+   * @param blockWidth - Width of the text block the line belongs to
+   */
+  static fillText(ctx: CardRenderingContext, text: string, x: number, y: number, blockWidth?: number): void {
+    if (!this.isRtl(text)) {
+      ctx.fillText(text, x, y);
+      return;
+    }
+
+    ctx.save();
+    ctx.direction = 'rtl';
+    if (blockWidth !== undefined && ctx.textAlign === 'left') {
+      ctx.textAlign = 'right';
+      x += blockWidth;
+    }
+    ctx.fillText(text, x, y);
+    ctx.restore();
+  }
+
+  /**
+   * "NotoSansArabic-Bold.ttf" -> "Noto Sans Arabic"
+   */
+  private static familyFromFileName(fontPath: string): string {
+    return path.basename(fontPath, path.extname(fontPath))
+      .replace(/[-_](Regular|Bold|Italic|BoldItalic|Light|Medium|SemiBold|Black|Thin|VariableFont.*)$/i, '')
+      .replace(/[-_]+/g, ' ')
+      .replace(/([a-z])([A-Z])/g, '$1 $2')
+      .trim();
+  }
+}
@@ -0,0 +1,200 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs-extra';
+import { CardAssets } from './types';
+import { TwitterUrlParser } from './urlParser';
+
+/**
+ * Fields of a Google Cloud service account key file used for signing
+ */
+export interface GoogleServiceAccountKey {
+  client_email: string;
+  private_key: string;
+  private_key_id?: string;
+}
+
+/**
+ * Google Wallet generic pass options
+ */
+export interface GoogleWalletOptions {
+  /** Issuer ID from the Google Pay & Wallet Console */
+  issuerId: string;
+  serviceAccount: GoogleServiceAccountKey;
+  /** Suffix of the pass class shared by every card; defaults to "x_card_maker" */
+  classSuffix?: string;
+  /** Web origins allowed to show the Save to Wallet button */
+  origins?: string[];
+  /** Link encoded in the QR code; defaults to the profile URL */
+  url?: string;
+  backgroundColor?: string;
+  /** Public image URLs; default to the profile image and banner URLs the assets were downloaded from */
+  logoUrl?: string;
+  heroImageUrl?: string;
+}
+
+/**
+ * Exports profiles as Google Wallet generic passes and signs "Save to Wallet" JWTs.
+ * Everything is built and signed locally; no Google APIs are called.
+ */
+export class GoogleWalletExporter {
+  static readonly SAVE_URL = 'https://pay.google.com/gp/v/save/';
+
+  private readonly options: GoogleWalletOptions;
+
+  constructor(options: GoogleWalletOptions) {
+    if (!options.issuerId || !/^\d+$/.test(options.issuerId)) {
+      throw new Error('A numeric Google Wallet issuer ID is required');
+    }
+    if (!options.serviceAccount?.client_email || !options.serviceAccount?.private_key) {
+      throw new Error('Service account key must contain client_email and private_key');
+    }
+    this.options = options;
+  }
+
+  /**
+   * Load a service account key JSON file
+   * @param keyPath - Path to the key file downloaded from Google Cloud
+   * @returns Promise<GoogleServiceAccountKey> - The parsed key
+   */
+  static async loadServiceAccountKey(keyPath: string): Promise<GoogleServiceAccountKey> {
+    try {
+      const key = await fs.readJson(keyPath);
+      if (!key.client_email || !key.private_key) {
+        throw new Error('missing client_email or private_key');
+      }
+      return key;
+    } catch (error) {
+      throw new Error(`Invalid service account key ${keyPath}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  /**
+   * Get the full class ID shared by all exported passes
+   */
+  getClassId(): string {
+    return `${this.options.issuerId}.${this.options.classSuffix || 'x_card_maker'}`;
+  }
+
+  /**
+   * Create the generic class referenced by every pass object
+   */
+  createGenericClass(): Record<string, any> {
+    return {
+      id: this.getClassId()
+    };
+  }
+
+  /**
+   * Create a generic pass object for a profile
+   * @param assets - Profile assets and data
+   * @returns Generic object as accepted by the Google Wallet API
+   */
+  createGenericObject(assets: CardAssets): Record<string, any> {
+    const profile = assets.profileData;
+    const url = this.options.url || TwitterUrlParser.normalizeUrl(profile.username);
+    const logoUrl = this.options.logoUrl || (assets.profileImagePath ? profile.profileImageUrl : undefined);
+    const heroImageUrl = this.options.heroImageUrl || (assets.bannerImagePath ? profile.profileBannerUrl : undefined);
+
+    const genericObject: Record<string, any> = {
+      id: `${this.options.issuerId}.${this.toIdSuffix(profile.username)}`,
+      classId: this.getClassId(),
+      state: 'ACTIVE',
+      cardTitle: this.localized(profile.name),
+      header: this.localized(profile.name),
+      subheader: this.localized(`@${profile.username}`),
+      hexBackgroundColor: this.options.backgroundColor || '#000000',
+      barcode: {
+        type: 'QR_CODE',
+        value: url,
+        alternateText: `@${profile.username}`
+      },
+      textModulesData: [
+        { id: 'followers', header: 'Followers', body: profile.getFormattedFollowersCount() },
+        { id: 'following', header: 'Following', body: profile.getFormattedFollowingCount() },
+        { id: 'tweets', header: 'Tweets', body: profile.getFormattedTweetCount() }
+      ],
+      linksModuleData: {
+        uris: [{ id: 'profile', uri: url, description: `@${profile.username}` }]
+      }
+    };
+
+    if (profile.description) {
+      genericObject.textModulesData.push({ id: 'bio', header: 'Bio', body: profile.description });
+    }
+
+    if (logoUrl) {
+      genericObject.logo = {
+        sourceUri: { uri: logoUrl },
+        contentDescription: this.localized(`${profile.name} profile image`)
+      };
+    }
+
+    if (heroImageUrl) {
+      genericObject.heroImage = {
+        sourceUri: { uri: heroImageUrl },
+        contentDescription: this.localized(`${profile.name} banner`)
+      };
+    }
+
+    return genericObject;
+  }
+
+  /**
+   * Create a signed "Save to Wallet" JWT
+   * @param assets - Profile assets and data
+   * @param issuedAt - Issue time, defaults to now
+   * @returns The encoded JWT
+   */
+  createSaveJwt(assets: CardAssets, issuedAt: Date = new Date()): string {
+    const header: Record<string, string> = { alg: 'RS256', typ: 'JWT' };
+    if (this.options.serviceAccount.private_key_id) {
+      header.kid = this.options.serviceAccount.private_key_id;
+    }
+
+    const claims = {
+      iss: this.options.serviceAccount.client_email,
+      aud: 'google',
+      typ: 'savetowallet',
+      iat: Math.floor(issuedAt.getTime() / 1000),
+      origins: this.options.origins || [],
+      payload: {
+        genericClasses: [this.createGenericClass()],
+        genericObjects: [this.createGenericObject(assets)]
+      }
+    };
+
+    const unsigned = `${this.base64Url(JSON.stringify(header))}.${this.base64Url(JSON.stringify(claims))}`;
+
+    let signature: Buffer;
+    try {
+      signature = crypto.createSign('RSA-SHA256').update(unsigned).sign(this.options.serviceAccount.private_key);
+    } catch (error) {
+      throw new Error(`Failed to sign Google Wallet JWT: ${error instanceof Error ? error.message : error}`);
+    }
+
+    return `${unsigned}.${this.base64Url(signature)}`;
+  }
+
+  /**
+   * Create the "Save to Google Wallet" link for a profile
+   * @param assets - Profile assets and data
+   * @returns Save link containing the signed JWT
+   */
+  createSaveUrl(assets: CardAssets): string {
+    return `${GoogleWalletExporter.SAVE_URL}${this.createSaveJwt(assets)}`;
+  }
+
+  private localized(value: string): Record<string, any> {
+    return { defaultValue: { language: 'en-US', value } };
+  }
+
+  /**
+   * Object ID suffixes may only contain letters, digits, ".", "_" and "-"
+   */
+  private toIdSuffix(username: string): string {
+    return username.replace(/[^a-zA-Z0-9._-]/g, '_');
+  }
+
+  private base64Url(value: string | Buffer): string {
+    return Buffer.from(value).toString('base64url');
+  }
+}
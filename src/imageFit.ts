@@ -0,0 +1,123 @@
+import { Image } from 'canvas';
+import { CardRenderingContext } from './renderingContext';
+
+/**
+ * How an image is sized into its box, as in CSS object-fit
+ */
+export type ImageFitMode = 'cover' | 'contain' | 'fill';
+
+/**
+ * Point of the image to keep in view, as fractions of its width and height
+ * (0,0 is the top-left corner, 0.5,0.5 the center)
+ */
+export interface FocalPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Box an image is drawn into
+ */
+export interface ImageBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const IMAGE_FIT_MODES: readonly ImageFitMode[] = ['cover', 'contain', 'fill'];
+
+export const CENTER_FOCUS: FocalPoint = { x: 0.5, y: 0.5 };
+
+/**
+ * Sizes and positions images inside a box with cover, contain or fill and a focal point
+ */
+export class ImageFitter {
+  /**
+   * Compute where the image is drawn. The focal point works like CSS
+   * object-position percentages: that point of the image lines up with the
+   * same point of the box, so it stays visible whatever is cropped.
+   * @param imageWidth - Natural image width
+   * @param imageHeight - Natural image height
+   * @param box - Target box
+   * @param fit - Fit mode
+   * @param focus - Focal point
+   * @returns Destination rectangle, possibly larger than the box for cover
+   */
+  static getDrawRect(
+    imageWidth: number,
+    imageHeight: number,
+    box: ImageBox,
+    fit: ImageFitMode = 'cover',
+    focus: FocalPoint = CENTER_FOCUS
+  ): ImageBox {
+    if (fit === 'fill' || imageWidth <= 0 || imageHeight <= 0) {
+      return { ...box };
+    }
+
+    const scale = fit === 'cover'
+      ? Math.max(box.width / imageWidth, box.height / imageHeight)
+      : Math.min(box.width / imageWidth, box.height / imageHeight);
+    const width = imageWidth * scale;
+    const height = imageHeight * scale;
+
+    return {
+      x: box.x + (box.width - width) * focus.x,
+      y: box.y + (box.height - height) * focus.y,
+      width,
+      height
+    };
+  }
+
+  /**
+   * Draw an image into a box, clipped to the box
+   * @param ctx - Canvas context
+   * @param image - Loaded image
+   * @param box - Target box
+   * @param fit - Fit mode
+   * @param focus - Focal point
+   */
+  static draw(
+    ctx: CardRenderingContext,
+    image: Image,
+    box: ImageBox,
+    fit: ImageFitMode = 'cover',
+    focus: FocalPoint = CENTER_FOCUS
+  ): void {
+    const rect = this.getDrawRect(image.width, image.height, box, fit, focus);
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(box.x, box.y, box.width, box.height);
+    ctx.clip();
+    ctx.drawImage(image, rect.x, rect.y, rect.width, rect.height);
+    ctx.restore();
+  }
+
+  /**
+   * Parse a focal point such as "0.3,0.5"
+   * @param value - Focal point string
+   * @returns Focal point
+   * @throws Error if the value is not X,Y with both between 0 and 1
+   */
+  static parseFocus(value: string): FocalPoint {
+    const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*,\s*(\d+(?:\.\d+)?)$/);
+    const focus = match ? { x: parseFloat(match[1]), y: parseFloat(match[2]) } : null;
+    if (!focus || focus.x > 1 || focus.y > 1) {
+      throw new Error(`Invalid focal point "${value}". Expected X,Y between 0 and 1, e.g. 0.3,0.5`);
+    }
+    return focus;
+  }
+
+  /**
+   * Parse a fit mode
+   * @param value - cover, contain or fill
+   * @throws Error for any other value
+   */
+  static parseFit(value: string): ImageFitMode {
+    if (!IMAGE_FIT_MODES.includes(value as ImageFitMode)) {
+      throw new Error(`Invalid fit mode "${value}". Expected one of ${IMAGE_FIT_MODES.join(', ')}`);
+    }
+    return value as ImageFitMode;
+  }
+}
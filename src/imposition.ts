@@ -0,0 +1,259 @@
+import { createCanvas, loadImage, CanvasRenderingContext2D, Image } from 'canvas';
+import { ImpositionOptions } from './types';
+import { POINTS_PER_INCH } from './printLayout';
+import { ImageFitter } from './imageFit';
+
+/**
+ * Paper sizes in inches, portrait
+ */
+export const SHEET_SIZES: Record<string, { width: number; height: number }> = {
+  letter: { width: 8.5, height: 11 },
+  legal: { width: 8.5, height: 14 },
+  tabloid: { width: 11, height: 17 },
+  a4: { width: 210 / 25.4, height: 297 / 25.4 },
+  a3: { width: 297 / 25.4, height: 420 / 25.4 }
+};
+
+/**
+ * Default sheet settings: US business cards on Letter, with a 1/2" margin
+ * that clears most office printers' unprintable border and 1/4" gutters
+ */
+export const DEFAULT_IMPOSITION_OPTIONS: Required<ImpositionOptions> = {
+  sheet: 'letter',
+  orientation: 'auto',
+  cardWidth: 3.5,
+  cardHeight: 2,
+  margin: 0.5,
+  gutter: 0.25,
+  cutMarks: true,
+  copies: 1
+};
+
+/**
+ * Resolved sheet layout. Lengths are in inches from the top-left of the sheet.
+ */
+export interface ImpositionGrid {
+  options: Required<ImpositionOptions>;
+  sheetWidth: number;
+  sheetHeight: number;
+  columns: number;
+  rows: number;
+  /** Top-left corner of the first card; the grid is centered inside the margins */
+  originX: number;
+  originY: number;
+}
+
+/** Cut marks start this far from the cards so they never print on them */
+const CUT_MARK_OFFSET = 0.0625;
+const CUT_MARK_LENGTH = 0.25;
+
+/**
+ * Lays rendered cards out N-up on sheets of paper with cut marks
+ */
+export class Imposition {
+  /**
+   * Parse a sheet size name or WIDTHxHEIGHT in inches
+   * @param value - Size such as "letter", "A4" or "8.5x11"
+   * @returns Sheet width and height in inches
+   * @throws Error if the value is neither
+   */
+  static parseSheetSize(value: string): { width: number; height: number } {
+    // Only own keys, so names such as "constructor" don't resolve to Object.prototype members
+    const key = value.trim().toLowerCase();
+    if (Object.prototype.hasOwnProperty.call(SHEET_SIZES, key)) {
+      return SHEET_SIZES[key];
+    }
+
+    const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*x\s*(\d+(?:\.\d+)?)$/i);
+    if (!match) {
+      throw new Error(`Invalid sheet size "${value}". Use one of ${Object.keys(SHEET_SIZES).join(', ')} or WIDTHxHEIGHT in inches`);
+    }
+    return { width: parseFloat(match[1]), height: parseFloat(match[2]) };
+  }
+
+  /**
+   * Merge options with defaults and fit as many cards on a sheet as the margins allow
+   * @param options - Partial imposition options
+   * @returns ImpositionGrid - Resolved sheet layout
+   * @throws Error if a length is invalid or no card fits on the sheet
+   */
+  static resolve(options: ImpositionOptions = {}): ImpositionGrid {
+    const opts: Required<ImpositionOptions> = {
+      ...DEFAULT_IMPOSITION_OPTIONS,
+      ...Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined))
+    };
+
+    if (!(opts.cardWidth > 0) || !(opts.cardHeight > 0)) {
+      throw new Error(`Invalid card size: ${opts.cardWidth}x${opts.cardHeight} inches`);
+    }
+    if (!(opts.margin >= 0) || !(opts.gutter >= 0)) {
+      throw new Error('Margin and gutter must not be negative');
+    }
+    if (!Number.isInteger(opts.copies) || opts.copies < 1) {
+      throw new Error(`Invalid copies: ${opts.copies}. Expected a whole number of at least 1`);
+    }
+
+    const sheet = this.parseSheetSize(opts.sheet);
+    const portrait = this.fit(opts, Math.min(sheet.width, sheet.height), Math.max(sheet.width, sheet.height));
+    const landscape = this.fit(opts, Math.max(sheet.width, sheet.height), Math.min(sheet.width, sheet.height));
+    const grid = opts.orientation === 'portrait' ? portrait
+      : opts.orientation === 'landscape' ? landscape
+      : landscape.columns * landscape.rows > portrait.columns * portrait.rows ? landscape : portrait;
+
+    if (grid.columns === 0 || grid.rows === 0) {
+      throw new Error(
+        `A ${opts.cardWidth}x${opts.cardHeight}" card doesn't fit on a ${opts.sheet} sheet with ${opts.margin}" margins`
+      );
+    }
+
+    return grid;
+  }
+
+  /**
+   * Get the top-left corner of a slot on the sheet
+   * @param grid - Resolved sheet layout
+   * @param slot - Slot index, left to right and top to bottom
+   * @returns Position in inches
+   */
+  static getSlotPosition(grid: ImpositionGrid, slot: number): { x: number; y: number } {
+    const { cardWidth, cardHeight, gutter } = grid.options;
+    return {
+      x: grid.originX + (slot % grid.columns) * (cardWidth + gutter),
+      y: grid.originY + Math.floor(slot / grid.columns) * (cardHeight + gutter)
+    };
+  }
+
+  /**
+   * Draw cut marks in the margin around the grid, one in line with every card
+   * edge. Coordinates are in points with the origin at the top-left of the sheet.
+   * @param ctx - PDF canvas context
+   * @param grid - Resolved sheet layout
+   */
+  static drawCutMarks(ctx: CanvasRenderingContext2D, grid: ImpositionGrid): void {
+    const { cardWidth, cardHeight, gutter } = grid.options;
+    const gridRight = grid.originX + grid.columns * cardWidth + (grid.columns - 1) * gutter;
+    const gridBottom = grid.originY + grid.rows * cardHeight + (grid.rows - 1) * gutter;
+
+    // Neighbouring cards share their cut line when there's no gutter
+    const xs = new Set<number>();
+    for (let column = 0; column < grid.columns; column++) {
+      const left = grid.originX + column * (cardWidth + gutter);
+      xs.add(+left.toFixed(4)).add(+(left + cardWidth).toFixed(4));
+    }
+    const ys = new Set<number>();
+    for (let row = 0; row < grid.rows; row++) {
+      const top = grid.originY + row * (cardHeight + gutter);
+      ys.add(+top.toFixed(4)).add(+(top + cardHeight).toFixed(4));
+    }
+
+    const inch = POINTS_PER_INCH;
+    const verticalLength = Math.min(CUT_MARK_LENGTH, grid.originY - CUT_MARK_OFFSET);
+    const horizontalLength = Math.min(CUT_MARK_LENGTH, grid.originX - CUT_MARK_OFFSET);
+
+    ctx.save();
+    ctx.strokeStyle = '#000000';
+    ctx.lineWidth = 0.25;
+    ctx.beginPath();
+
+    if (verticalLength > 0) {
+      for (const x of xs) {
+        ctx.moveTo(x * inch, (grid.originY - CUT_MARK_OFFSET - verticalLength) * inch);
+        ctx.lineTo(x * inch, (grid.originY - CUT_MARK_OFFSET) * inch);
+        ctx.moveTo(x * inch, (gridBottom + CUT_MARK_OFFSET) * inch);
+        ctx.lineTo(x * inch, (gridBottom + CUT_MARK_OFFSET + verticalLength) * inch);
+      }
+    }
+
+    if (horizontalLength > 0) {
+      for (const y of ys) {
+        ctx.moveTo((grid.originX - CUT_MARK_OFFSET - horizontalLength) * inch, y * inch);
+        ctx.lineTo((grid.originX - CUT_MARK_OFFSET) * inch, y * inch);
+        ctx.moveTo((gridRight + CUT_MARK_OFFSET) * inch, y * inch);
+        ctx.lineTo((gridRight + CUT_MARK_OFFSET + horizontalLength) * inch, y * inch);
+      }
+    }
+
+    ctx.stroke();
+    ctx.restore();
+  }
+
+  /**
+   * Lay card images out on as many sheets as needed, each image covering its
+   * card's trim box
+   * @param imagePaths - Rendered PNG or JPEG cards, in order
+   * @param options - Imposition options
+   * @returns Promise<{ buffer: Buffer; grid: ImpositionGrid; sheets: number }> - Multi-page PDF and its layout
+   * @throws Error if there are no images or one can't be loaded
+   */
+  static async render(
+    imagePaths: string[],
+    options: ImpositionOptions = {}
+  ): Promise<{ buffer: Buffer; grid: ImpositionGrid; sheets: number }> {
+    if (imagePaths.length === 0) {
+      throw new Error('No cards to impose');
+    }
+
+    const grid = this.resolve(options);
+    const images: Image[] = [];
+    for (const imagePath of imagePaths) {
+      try {
+        images.push(await loadImage(imagePath));
+      } catch (error) {
+        throw new Error(`Failed to load card ${imagePath}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    const cards = images.flatMap(image => Array<Image>(grid.options.copies).fill(image));
+    const perSheet = grid.columns * grid.rows;
+    const sheets = Math.ceil(cards.length / perSheet);
+
+    const canvas = createCanvas(grid.sheetWidth * POINTS_PER_INCH, grid.sheetHeight * POINTS_PER_INCH, 'pdf');
+    const ctx = canvas.getContext('2d');
+
+    for (let sheet = 0; sheet < sheets; sheet++) {
+      if (sheet > 0) {
+        ctx.addPage();
+      }
+
+      cards.slice(sheet * perSheet, (sheet + 1) * perSheet).forEach((image, slot) => {
+        const { x, y } = this.getSlotPosition(grid, slot);
+        ImageFitter.draw(ctx, image, {
+          x: x * POINTS_PER_INCH,
+          y: y * POINTS_PER_INCH,
+          width: grid.options.cardWidth * POINTS_PER_INCH,
+          height: grid.options.cardHeight * POINTS_PER_INCH
+        }, 'cover');
+      });
+
+      if (grid.options.cutMarks) {
+        this.drawCutMarks(ctx, grid);
+      }
+    }
+
+    return {
+      buffer: canvas.toBuffer('application/pdf', { title: 'Card sheets', creator: 'x-card-maker' }),
+      grid,
+      sheets
+    };
+  }
+
+  /**
+   * Count the cards that fit across and down a sheet and center the grid
+   */
+  private static fit(options: Required<ImpositionOptions>, sheetWidth: number, sheetHeight: number): ImpositionGrid {
+    const { cardWidth, cardHeight, margin, gutter } = options;
+    // The epsilon keeps exact fits such as 5 x 2" on 10" from rounding down
+    const columns = Math.max(0, Math.floor((sheetWidth - margin * 2 + gutter) / (cardWidth + gutter) + 1e-9));
+    const rows = Math.max(0, Math.floor((sheetHeight - margin * 2 + gutter) / (cardHeight + gutter) + 1e-9));
+
+    return {
+      options,
+      sheetWidth,
+      sheetHeight,
+      columns,
+      rows,
+      originX: (sheetWidth - (columns * cardWidth + Math.max(0, columns - 1) * gutter)) / 2,
+      originY: (sheetHeight - (rows * cardHeight + Math.max(0, rows - 1) * gutter)) / 2
+    };
+  }
+}
@@ -135,4 +135,28 @@ export * from './urlParser';
 export * from './twitterApi';
 export * from './assetDownloader';
 export * from './csvExporter';
-export * from './folderManager';
\ No newline at end of file
+export * from './vcardExporter';
+export * from './folderManager';
+export * from './profileCardGenerator';
+export * from './cardLayouts';
+export * from './cardBackLayout';
+export * from './tweetCardLayout';
+export * from './comparisonLayout';
+export * from './rosterLayout';
+export * from './cardTemplate';
+export * from './printLayout';
+export * from './imposition';
+export * from './svgContext';
+export * from './renderingContext';
+export * from './qrCode';
+export * from './fontManager';
+export * from './textFit';
+export * from './imageFit';
+export * from './sizePresets';
+export * from './verificationBadge';
+export * from './colorPalette';
+export * from './cardTheme';
+export * from './locale';
+export * from './richText';
+export * from './walletPass';
+export * from './googleWalletExporter';
\ No newline at end of file
@@ -0,0 +1,205 @@
+/**
+ * Labels for the profile counts shown on cards
+ */
+export interface StatLabels {
+  followers: string;
+  following: string;
+  tweets: string;
+  listed: string;
+  likes: string;
+  media: string;
+}
+
+/**
+ * Labels for the profile detail rows. `{date}` in `joined` is replaced with the month and year.
+ */
+export interface DetailLabels {
+  joined: string;
+  pinned: string;
+}
+
+/**
+ * Labels for the engagement counts on tweet cards
+ */
+export interface TweetLabels {
+  replies: string;
+  reposts: string;
+  quotes: string;
+  likes: string;
+  bookmarks: string;
+  views: string;
+}
+
+export const DEFAULT_LOCALE = 'en';
+
+/**
+ * Translated stat labels by language, following X's own wording where it has one
+ */
+export const STAT_LABELS: Record<string, StatLabels> = {
+  en: { followers: 'Followers', following: 'Following', tweets: 'Tweets', listed: 'Listed', likes: 'Likes', media: 'Media' },
+  es: { followers: 'Seguidores', following: 'Siguiendo', tweets: 'Tweets', listed: 'Listas', likes: 'Me gusta', media: 'Multimedia' },
+  fr: { followers: 'Abonnés', following: 'Abonnements', tweets: 'Tweets', listed: 'Listes', likes: 'J\'aime', media: 'Médias' },
+  de: { followers: 'Follower', following: 'Folge ich', tweets: 'Tweets', listed: 'Listen', likes: 'Gefällt mir', media: 'Medien' },
+  it: { followers: 'Follower', following: 'Seguiti', tweets: 'Tweet', listed: 'Liste', likes: 'Mi piace', media: 'Media' },
+  pt: { followers: 'Seguidores', following: 'Seguindo', tweets: 'Tweets', listed: 'Listas', likes: 'Curtidas', media: 'Mídia' },
+  nl: { followers: 'Volgers', following: 'Volgend', tweets: 'Tweets', listed: 'Lijsten', likes: 'Vind-ik-leuks', media: 'Media' },
+  tr: { followers: 'Takipçi', following: 'Takip edilen', tweets: 'Tweetler', listed: 'Listeler', likes: 'Beğeni', media: 'Medya' },
+  ru: { followers: 'Читатели', following: 'В читаемых', tweets: 'Твиты', listed: 'Списки', likes: 'Нравится', media: 'Медиа' },
+  ar: { followers: 'متابعون', following: 'يتابع', tweets: 'تغريدات', listed: 'القوائم', likes: 'الإعجابات', media: 'الوسائط' },
+  hi: { followers: 'फ़ॉलोअर्स', following: 'फ़ॉलो कर रहे हैं', tweets: 'ट्वीट', listed: 'सूचियाँ', likes: 'पसंद', media: 'मीडिया' },
+  ja: { followers: 'フォロワー', following: 'フォロー中', tweets: 'ツイート', listed: 'リスト', likes: 'いいね', media: 'メディア' },
+  ko: { followers: '팔로워', following: '팔로잉', tweets: '트윗', listed: '리스트', likes: '마음에 들어요', media: '미디어' },
+  zh: { followers: '关注者', following: '正在关注', tweets: '推文', listed: '列表', likes: '喜欢', media: '媒体' }
+};
+
+/**
+ * Translated detail row labels by language
+ */
+export const DETAIL_LABELS: Record<string, DetailLabels> = {
+  en: { joined: 'Joined {date}', pinned: 'Pinned' },
+  es: { joined: 'Se unió en {date}', pinned: 'Fijado' },
+  fr: { joined: 'Inscrit en {date}', pinned: 'Épinglé' },
+  de: { joined: 'Beigetreten {date}', pinned: 'Angeheftet' },
+  it: { joined: 'Iscritto da {date}', pinned: 'In evidenza' },
+  pt: { joined: 'Ingressou em {date}', pinned: 'Fixado' },
+  nl: { joined: 'Lid sinds {date}', pinned: 'Vastgezet' },
+  tr: { joined: '{date} tarihinde katıldı', pinned: 'Sabitlendi' },
+  ru: { joined: 'Регистрация: {date}', pinned: 'Закреплено' },
+  ar: { joined: 'انضم في {date}', pinned: 'مثبّت' },
+  hi: { joined: '{date} में जुड़े', pinned: 'पिन किया गया' },
+  ja: { joined: '{date}から利用しています', pinned: '固定' },
+  ko: { joined: '가입일: {date}', pinned: '고정됨' },
+  zh: { joined: '{date}加入', pinned: '已置顶' }
+};
+
+/**
+ * Translated tweet engagement labels by language
+ */
+export const TWEET_LABELS: Record<string, TweetLabels> = {
+  en: { replies: 'Replies', reposts: 'Reposts', quotes: 'Quotes', likes: 'Likes', bookmarks: 'Bookmarks', views: 'Views' },
+  es: { replies: 'Respuestas', reposts: 'Reposts', quotes: 'Citas', likes: 'Me gusta', bookmarks: 'Elementos guardados', views: 'Visualizaciones' },
+  fr: { replies: 'Réponses', reposts: 'Reposts', quotes: 'Citations', likes: 'J\'aime', bookmarks: 'Signets', views: 'Vues' },
+  de: { replies: 'Antworten', reposts: 'Reposts', quotes: 'Zitate', likes: 'Gefällt mir', bookmarks: 'Lesezeichen', views: 'Mal angezeigt' },
+  it: { replies: 'Risposte', reposts: 'Repost', quotes: 'Citazioni', likes: 'Mi piace', bookmarks: 'Segnalibri', views: 'Visualizzazioni' },
+  pt: { replies: 'Respostas', reposts: 'Reposts', quotes: 'Citações', likes: 'Curtidas', bookmarks: 'Itens salvos', views: 'Visualizações' },
+  nl: { replies: 'Antwoorden', reposts: 'Reposts', quotes: 'Citaten', likes: 'Vind-ik-leuks', bookmarks: 'Bladwijzers', views: 'Weergaven' },
+  tr: { replies: 'Yanıt', reposts: 'Yeniden gönderi', quotes: 'Alıntı', likes: 'Beğeni', bookmarks: 'Yer işareti', views: 'Görüntülenme' },
+  ru: { replies: 'Ответы', reposts: 'Репосты', quotes: 'Цитаты', likes: 'Нравится', bookmarks: 'Закладки', views: 'Просмотры' },
+  ar: { replies: 'الردود', reposts: 'إعادات النشر', quotes: 'الاقتباسات', likes: 'الإعجابات', bookmarks: 'العلامات المرجعية', views: 'المشاهدات' },
+  hi: { replies: 'जवाब', reposts: 'रीपोस्ट', quotes: 'कोट', likes: 'पसंद', bookmarks: 'बुकमार्क', views: 'व्यू' },
+  ja: { replies: '返信', reposts: 'リポスト', quotes: '引用', likes: 'いいね', bookmarks: 'ブックマーク', views: '件の表示' },
+  ko: { replies: '답글', reposts: '재게시', quotes: '인용', likes: '마음에 들어요', bookmarks: '북마크', views: '조회수' },
+  zh: { replies: '回复', reposts: '转帖', quotes: '引用', likes: '喜欢', bookmarks: '书签', views: '查看' }
+};
+
+/**
+ * Locale-aware number formatting and stat labels
+ */
+export class CardLocale {
+  /**
+   * Format a count the way X does: in full below 1,000, compact above it
+   * ("1.2K", "3.4M", "2.1B" in English, "1,2 Mio." in German, "1.2万" in
+   * Japanese). Values round to one decimal and move to the next unit when
+   * rounding reaches it, so 999,950 becomes "1M" rather than "1000.0K".
+   * @param value - Count to format
+   * @param locale - BCP 47 locale such as "en", "de" or "pt-BR"
+   * @returns Formatted count
+   */
+  static formatCount(value: number, locale: string = DEFAULT_LOCALE): string {
+    const tag = this.normalize(locale);
+    if (Math.abs(value) < 1000) {
+      return new Intl.NumberFormat(tag, { maximumFractionDigits: 0 }).format(value);
+    }
+    return new Intl.NumberFormat(tag, { notation: 'compact', maximumFractionDigits: 1 }).format(value);
+  }
+
+  /**
+   * Get the stat labels for a locale, falling back from "pt-BR" to "pt" and
+   * then to English for languages without a translation
+   * @param locale - BCP 47 locale
+   * @returns Stat labels
+   */
+  static getLabels(locale: string = DEFAULT_LOCALE): StatLabels {
+    return this.lookup(STAT_LABELS, locale);
+  }
+
+  /**
+   * Get the detail row labels for a locale, with the same fallbacks as getLabels
+   * @param locale - BCP 47 locale
+   * @returns Detail labels
+   */
+  static getDetailLabels(locale: string = DEFAULT_LOCALE): DetailLabels {
+    return this.lookup(DETAIL_LABELS, locale);
+  }
+
+  /**
+   * Get the tweet engagement labels for a locale, with the same fallbacks as getLabels
+   * @param locale - BCP 47 locale
+   * @returns Tweet labels
+   */
+  static getTweetLabels(locale: string = DEFAULT_LOCALE): TweetLabels {
+    return this.lookup(TWEET_LABELS, locale);
+  }
+
+  /**
+   * Format a tweet's post time like X's tweet detail view, e.g. "3:42 PM · Oct 19, 2026"
+   * @param date - Post time as a Date or ISO 8601 string
+   * @param locale - BCP 47 locale
+   * @param timeZone - IANA time zone, defaults to the system time zone
+   * @returns Localized time and date, or an empty string for invalid dates
+   */
+  static formatTweetTime(date: Date | string, locale: string = DEFAULT_LOCALE, timeZone?: string): string {
+    const value = typeof date === 'string' ? new Date(date) : date;
+    if (isNaN(value.getTime())) {
+      return '';
+    }
+
+    const tag = this.normalize(locale);
+    const time = new Intl.DateTimeFormat(tag, { hour: 'numeric', minute: '2-digit', timeZone }).format(value);
+    const day = new Intl.DateTimeFormat(tag, { month: 'short', day: 'numeric', year: 'numeric', timeZone }).format(value);
+    return `${time} · ${day}`;
+  }
+
+  /**
+   * Format a join date like X's profile header, e.g. "Joined March 2019"
+   * @param date - Account creation time as a Date or ISO 8601 string
+   * @param locale - BCP 47 locale
+   * @returns Localized label with the month and year in UTC
+   */
+  static formatJoinDate(date: Date | string, locale: string = DEFAULT_LOCALE): string {
+    const value = typeof date === 'string' ? new Date(date) : date;
+    if (isNaN(value.getTime())) {
+      return '';
+    }
+
+    const formatted = new Intl.DateTimeFormat(this.normalize(locale), { month: 'long', year: 'numeric', timeZone: 'UTC' })
+      .format(value);
+    return this.getDetailLabels(locale).joined.replace('{date}', formatted);
+  }
+
+  /**
+   * Canonicalize a locale tag ("en_us" becomes "en-US")
+   * @param locale - Locale tag; underscores are accepted
+   * @returns Canonical BCP 47 tag
+   * @throws Error if the tag is not a valid locale
+   */
+  static normalize(locale: string): string {
+    try {
+      return Intl.getCanonicalLocales(locale.trim().replace(/_/g, '-'))[0] || DEFAULT_LOCALE;
+    } catch {
+      throw new Error(`Invalid locale "${locale}". Expected a language tag such as en, de or pt-BR`);
+    }
+  }
+
+  /**
+   * Get the languages with translated labels
+   */
+  static list(): string[] {
+    return Object.keys(STAT_LABELS);
+  }
+
+  private static lookup<T>(table: Record<string, T>, locale: string): T {
+    const tag = this.normalize(locale).toLowerCase();
+    return table[tag] || table[tag.split('-')[0]] || table[DEFAULT_LOCALE];
+  }
+}
@@ -0,0 +1,153 @@
+import { CanvasRenderingContext2D } from 'canvas';
+import { PrintOptions } from './types';
+
+/**
+ * PDF canvases measure in points
+ */
+export const POINTS_PER_INCH = 72;
+
+/**
+ * Default print settings: US business card (3.5" x 2") at 300 DPI with
+ * 1/8" bleed and a 1/8" safe zone, matching Vistaprint's requirements
+ */
+export const DEFAULT_PRINT_OPTIONS: Required<PrintOptions> = {
+  trimWidth: 3.5,
+  trimHeight: 2,
+  dpi: 300,
+  bleed: 0.125,
+  safeZone: 0.125,
+  cropMarks: false,
+  showSafeZone: false
+};
+
+/**
+ * Resolved print geometry. Inch values describe the physical page,
+ * pixel values the artwork size the card layout is rendered at.
+ */
+export interface PrintGeometry {
+  options: Required<PrintOptions>;
+  /** Margin outside the bleed holding crop marks, in inches */
+  slug: number;
+  pageWidth: number;
+  pageHeight: number;
+  /** Artwork size including bleed, in pixels at options.dpi */
+  artworkWidthPx: number;
+  artworkHeightPx: number;
+}
+
+/**
+ * Print layout helpers for print-ready PDF output
+ */
+export class PrintLayout {
+  /**
+   * Merge print options with defaults and compute page geometry
+   * @param options - Partial print options
+   * @returns PrintGeometry - Resolved geometry
+   * @throws Error if a dimension is not positive
+   */
+  static resolve(options: PrintOptions = {}): PrintGeometry {
+    const opts: Required<PrintOptions> = { ...DEFAULT_PRINT_OPTIONS, ...this.withoutUndefined(options) };
+
+    if (!(opts.trimWidth > 0) || !(opts.trimHeight > 0)) {
+      throw new Error(`Invalid trim size: ${opts.trimWidth}x${opts.trimHeight} inches`);
+    }
+    if (!(opts.dpi > 0)) {
+      throw new Error(`Invalid print DPI: ${opts.dpi}`);
+    }
+    if (opts.bleed < 0 || opts.safeZone < 0) {
+      throw new Error('Bleed and safe zone must not be negative');
+    }
+
+    const slug = opts.cropMarks ? 0.25 : 0;
+    const artworkWidth = opts.trimWidth + opts.bleed * 2;
+    const artworkHeight = opts.trimHeight + opts.bleed * 2;
+
+    return {
+      options: opts,
+      slug,
+      pageWidth: artworkWidth + slug * 2,
+      pageHeight: artworkHeight + slug * 2,
+      artworkWidthPx: Math.round(artworkWidth * opts.dpi),
+      artworkHeightPx: Math.round(artworkHeight * opts.dpi)
+    };
+  }
+
+  /**
+   * Parse a trim size such as "3.5x2" (inches)
+   * @param value - Size string
+   * @returns Trim width and height in inches
+   * @throws Error if the value is not WIDTHxHEIGHT
+   */
+  static parseTrimSize(value: string): { trimWidth: number; trimHeight: number } {
+    const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*x\s*(\d+(?:\.\d+)?)$/i);
+    if (!match) {
+      throw new Error(`Invalid trim size "${value}". Expected WIDTHxHEIGHT in inches, e.g. 3.5x2`);
+    }
+    return { trimWidth: parseFloat(match[1]), trimHeight: parseFloat(match[2]) };
+  }
+
+  /**
+   * Draw crop marks at the trim lines, outside the bleed.
+   * Coordinates are in points with the origin at the top-left of the page.
+   * @param ctx - PDF canvas context
+   * @param geometry - Resolved print geometry
+   */
+  static drawCropMarks(ctx: CanvasRenderingContext2D, geometry: PrintGeometry): void {
+    const { bleed, trimWidth, trimHeight } = geometry.options;
+    const trimLeft = (geometry.slug + bleed) * POINTS_PER_INCH;
+    const trimTop = (geometry.slug + bleed) * POINTS_PER_INCH;
+    const trimRight = trimLeft + trimWidth * POINTS_PER_INCH;
+    const trimBottom = trimTop + trimHeight * POINTS_PER_INCH;
+    const pageRight = geometry.pageWidth * POINTS_PER_INCH;
+    const pageBottom = geometry.pageHeight * POINTS_PER_INCH;
+
+    // Marks start 1/16" beyond the bleed so they never print on the card
+    const gap = (bleed + 0.0625) * POINTS_PER_INCH;
+
+    ctx.save();
+    ctx.strokeStyle = '#000000';
+    ctx.lineWidth = 0.25;
+    ctx.beginPath();
+
+    for (const x of [trimLeft, trimRight]) {
+      ctx.moveTo(x, 0);
+      ctx.lineTo(x, trimTop - gap);
+      ctx.moveTo(x, trimBottom + gap);
+      ctx.lineTo(x, pageBottom);
+    }
+
+    for (const y of [trimTop, trimBottom]) {
+      ctx.moveTo(0, y);
+      ctx.lineTo(trimLeft - gap, y);
+      ctx.moveTo(trimRight + gap, y);
+      ctx.lineTo(pageRight, y);
+    }
+
+    ctx.stroke();
+    ctx.restore();
+  }
+
+  /**
+   * Draw the safe zone as a dashed guide for proofing.
+   * Coordinates are in artwork pixels with the origin at the bleed corner.
+   * @param ctx - Canvas context
+   * @param geometry - Resolved print geometry
+   */
+  static drawSafeZoneGuide(ctx: CanvasRenderingContext2D, geometry: PrintGeometry): void {
+    const { bleed, safeZone, dpi } = geometry.options;
+    const inset = (bleed + safeZone) * dpi;
+
+    ctx.save();
+    ctx.strokeStyle = '#ff00ff';
+    ctx.lineWidth = Math.max(1, dpi / 150);
+    ctx.setLineDash([dpi / 20, dpi / 40]);
+    ctx.strokeRect(inset, inset, geometry.artworkWidthPx - inset * 2, geometry.artworkHeightPx - inset * 2);
+    ctx.restore();
+  }
+
+  private static withoutUndefined(options: PrintOptions): PrintOptions {
+    return Object.fromEntries(
+      Object.entries(options).filter(([, value]) => value !== undefined)
+    ) as PrintOptions;
+  }
+}
@@ -1,7 +1,26 @@
-import { createCanvas, loadImage, Canvas, CanvasRenderingContext2D } from 'canvas';
+import { createCanvas } from 'canvas';
 import * as fs from 'fs-extra';
 import * as path from 'path';
-import { TwitterProfileData, CardGenerationOptions, CardGenerationResult, CardAssets } from './types';
+import { TwitterProfileData, CardGenerationOptions, CardGenerationResult, CardAssets, QrCodeOptions, ImpositionOptions, ImpositionResult, StatMetric, STAT_METRICS } from './types';
+import { CardLayoutRegistry, CardLayout } from './cardLayouts';
+import { CardTemplate, CardTemplateLoader, TemplateLayout } from './cardTemplate';
+import { PrintLayout, PrintGeometry, POINTS_PER_INCH } from './printLayout';
+import { SvgRenderingContext } from './svgContext';
+import { QrCodeRenderer, DEFAULT_QR_CODE_OPTIONS } from './qrCode';
+import { TwitterUrlParser } from './urlParser';
+import { CardBackLayout } from './cardBackLayout';
+import { TweetCardLayout } from './tweetCardLayout';
+import { ComparisonLayout } from './comparisonLayout';
+import { RosterLayout } from './rosterLayout';
+import { Imposition } from './imposition';
+import { FontManager } from './fontManager';
+import { SizePresets } from './sizePresets';
+import { ColorPalette, PaletteTheme } from './colorPalette';
+import { CardThemes } from './cardTheme';
+import { CSVExporter } from './csvExporter';
+import { CardLocale } from './locale';
+import { COMPARISONS_DIR, ROSTERS_DIR } from './folderManager';
+import { CardRenderingContext } from './renderingContext';
 
 /**
  * Profile card generator using node-canvas
@@ -12,16 +31,101 @@ export class ProfileCardGenerator {
     height: 630,
     backgroundColor: '#000000',
     textColor: '#ffffff',
+    secondaryTextColor: '#71767b',
     accentColor: '#1d9bf0',
+    dividerColor: '#2f3336',
+    avatarBorderWidth: null,
     fontFamily: 'Arial, sans-serif',
     showBanner: true,
     showStats: true,
+    stats: ['followers', 'following', 'tweets'],
     showDescription: true,
     cardStyle: 'modern',
     outputFormat: 'png',
-    quality: 90
+    quality: 90,
+    template: null,
+    print: {},
+    showGuides: false,
+    qrCode: null,
+    doubleSided: false,
+    back: {},
+    fonts: [],
+    fontFallbacks: {},
+    descriptionMaxLines: null,
+    bannerFit: 'cover',
+    bannerFocus: { x: 0.5, y: 0.5 },
+    avatarFit: 'cover',
+    avatarFocus: { x: 0.5, y: 0.5 },
+    preset: null,
+    showBadge: true,
+    autoTheme: false,
+    theme: null,
+    locale: 'en',
+    profileDetails: [],
+    roster: {}
   };
 
+  /**
+   * Register a custom card style that can be selected with `cardStyle`
+   * @param layout - Layout implementation
+   * @param override - Replace an existing style with the same name
+   */
+  static registerLayout(layout: CardLayout, override: boolean = false): void {
+    CardLayoutRegistry.register(layout, override);
+  }
+
+  /**
+   * Get the names of all size presets
+   * @returns Array of preset names
+   */
+  static getAvailablePresets(): string[] {
+    return SizePresets.list();
+  }
+
+  /**
+   * Get the names of the built-in themes
+   * @returns Array of theme names
+   */
+  static getAvailableThemes(): string[] {
+    return CardThemes.list();
+  }
+
+  /**
+   * Get the names of all available card styles
+   * @returns Array of style names
+   */
+  static getAvailableStyles(): string[] {
+    return CardLayoutRegistry.list();
+  }
+
+  /**
+   * Parse the stats to show, in order
+   * @param value - Comma-separated metric names, as --stats takes them, or a list of them
+   * @returns Array of stat metrics
+   * @throws Error for a metric that isn't in STAT_METRICS
+   */
+  static parseStats(value: string | readonly string[]): StatMetric[] {
+    const metrics = typeof value === 'string'
+      ? value.split(',').map(metric => metric.trim()).filter(Boolean)
+      : [...value];
+    for (const metric of metrics) {
+      if (!STAT_METRICS.includes(metric as StatMetric)) {
+        throw new Error(`Invalid stat "${metric}". Expected any of ${STAT_METRICS.join(', ')}`);
+      }
+    }
+    return metrics as StatMetric[];
+  }
+
+  /**
+   * Load and validate a JSON card template
+   * @param templatePath - Path to the template file
+   * @returns Promise<CardTemplate> - The validated template
+   * @throws Error describing every problem if the template is invalid
+   */
+  async loadTemplate(templatePath: string): Promise<CardTemplate> {
+    return CardTemplateLoader.load(templatePath);
+  }
+
   /**
    * Generate a profile card from stored assets and data
    * @param assets - Profile assets and data
@@ -34,62 +138,265 @@ export class ProfileCardGenerator {
     options: CardGenerationOptions = {},
     outputPath?: string
   ): Promise<CardGenerationResult> {
+    return this.generate(assets, options, outputPath);
+  }
+
+  /**
+   * Generate an image of a single tweet with its author, media and engagement stats
+   * @param assets - The tweet, its author's data and avatar, and downloaded media
+   * @param options - Card generation options; cardStyle and template are ignored
+   * @param outputPath - Output file path
+   * @returns Promise<CardGenerationResult> - Generation result
+   */
+  async generateTweetCard(
+    assets: CardAssets,
+    options: CardGenerationOptions = {},
+    outputPath?: string
+  ): Promise<CardGenerationResult> {
+    const tweet = assets.tweet;
+    if (!tweet) {
+      return { success: false, error: 'No tweet data in the card assets' };
+    }
+
+    // QR codes link to the tweet unless another URL is given
+    const qrCode = options.qrCode ? { ...options.qrCode, url: options.qrCode.url || tweet.url } : options.qrCode;
+    return this.generate(assets, { ...options, qrCode }, outputPath, {
+      layout: new TweetCardLayout(),
+      fileName: `${assets.profileData.username}_tweet_${tweet.id}`
+    });
+  }
+
+  /**
+   * Generate one image comparing several profiles side by side, with a bar per
+   * stat in `options.stats`
+   * @param profiles - Two or more profiles, drawn left to right
+   * @param options - Card generation options; cardStyle, template and doubleSided are ignored,
+   * and a QR code is only drawn when it has its own URL
+   * @param outputPath - Output file path, defaults to downloads/comparisons/
+   * @returns Promise<CardGenerationResult> - Generation result
+   */
+  async generateComparisonCard(
+    profiles: CardAssets[],
+    options: CardGenerationOptions = {},
+    outputPath?: string
+  ): Promise<CardGenerationResult> {
+    if (profiles.length < 2) {
+      return { success: false, error: 'A comparison needs at least two profiles' };
+    }
+
+    const fileName = `${profiles.map(profile => profile.profileData.username).join('_vs_')}_${new Date().toISOString().replace(/[:.]/g, '-')}`;
+    return this.generate(profiles[0], {
+      ...options,
+      doubleSided: false,
+      qrCode: options.qrCode?.url ? options.qrCode : null
+    }, outputPath, {
+      layout: new ComparisonLayout(profiles),
+      fileName,
+      directory: COMPARISONS_DIR,
+      profiles
+    });
+  }
+
+  /**
+   * Generate a team roster: a grid of avatars with names and handles, sized
+   * to the number of members, under the optional `options.roster` title and logo
+   * @param members - Profiles to list, in reading order
+   * @param options - Card generation options; cardStyle, template and doubleSided are ignored,
+   * and a QR code is only drawn when it has its own URL
+   * @param outputPath - Output file path, defaults to downloads/rosters/
+   * @returns Promise<CardGenerationResult> - Generation result
+   */
+  async generateRosterCard(
+    members: CardAssets[],
+    options: CardGenerationOptions = {},
+    outputPath?: string
+  ): Promise<CardGenerationResult> {
+    if (members.length === 0) {
+      return { success: false, error: 'A roster needs at least one profile' };
+    }
+
+    const title = (options.roster?.title || '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+    const fileName = `${title || 'roster'}_${new Date().toISOString().replace(/[:.]/g, '-')}`;
+    return this.generate(members[0], {
+      ...options,
+      doubleSided: false,
+      qrCode: options.qrCode?.url ? options.qrCode : null
+    }, outputPath, {
+      layout: new RosterLayout(members),
+      fileName,
+      directory: ROSTERS_DIR,
+      profiles: members
+    });
+  }
+
+  /**
+   * Load the profiles of a roster from their directories
+   * @param members - Usernames, or the path of a collection file with one
+   * profile URL or username per line (blank lines and # comments are skipped)
+   * @param downloadsDir - Downloads directory path
+   * @returns Promise<CardAssets[]> - Loaded assets in roster order
+   */
+  async loadRosterFromDirectory(members: string[] | string, downloadsDir: string = './downloads'): Promise<CardAssets[]> {
+    const entries = typeof members === 'string'
+      ? (await fs.readFile(members, 'utf8'))
+        .split('\n')
+        .map(line => line.trim())
+        .filter(line => line && !line.startsWith('#'))
+      : members;
+
+    const assets: CardAssets[] = [];
+    for (const entry of entries) {
+      assets.push(await this.loadAssetsFromDirectory(TwitterUrlParser.extractUsername(entry), downloadsDir));
+    }
+    return assets;
+  }
+
+  /**
+   * Lay rendered cards out N-up on Letter, A4 or custom sheets with cut marks,
+   * as a multi-page PDF for office printers
+   * @param cardPaths - Rendered PNG or JPEG cards, in order
+   * @param options - Sheet size, margins, gutters, cut marks and copies
+   * @param outputPath - Output PDF path, defaults to downloads/cards_<sheet>_<timestamp>.pdf
+   * @returns Promise<ImpositionResult> - Imposition result
+   */
+  async imposeCards(
+    cardPaths: string[],
+    options: ImpositionOptions = {},
+    outputPath?: string
+  ): Promise<ImpositionResult> {
     try {
-      const opts = { ...this.defaultOptions, ...options };
+      const { buffer, grid, sheets } = await Imposition.render(cardPaths, options);
+
+      if (!outputPath) {
+        const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+        const sheet = grid.options.sheet.toLowerCase().replace(/[^a-z0-9.]+/g, '-');
+        outputPath = path.join(process.cwd(), 'downloads', `cards_${sheet}_${timestamp}.pdf`);
+      }
+
+      await fs.ensureDir(path.dirname(outputPath));
+      await fs.writeFile(outputPath, buffer);
+      const stats = await fs.stat(outputPath);
+
+      return {
+        success: true,
+        outputPath,
+        sheetInfo: {
+          sheets,
+          cards: cardPaths.length * grid.options.copies,
+          columns: grid.columns,
+          rows: grid.rows,
+          fileSize: stats.size
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
+    }
+  }
+
+  /**
+   * Resolve the options, render every side and write the output files
+   * @param override - Layout to draw instead of the style or template, its default
+   * file name and directory under downloads/, and every profile it draws
+   */
+  private async generate(
+    assets: CardAssets,
+    options: CardGenerationOptions,
+    outputPath?: string,
+    override?: { layout: CardLayout; fileName: string; directory?: string; profiles?: CardAssets[] }
+  ): Promise<CardGenerationResult> {
+    try {
+      // Options left undefined fall through to the theme, preset and defaults
+      const explicit = Object.fromEntries(
+        Object.entries(options).filter(([, value]) => value !== undefined)
+      ) as CardGenerationOptions;
       
-      // Create canvas
-      const canvas = createCanvas(opts.width, opts.height);
-      const ctx = canvas.getContext('2d');
+      // A preset replaces the default size and a theme the default colors and font
+      const preset = explicit.preset ? SizePresets.get(explicit.preset) : null;
+      const theme = typeof explicit.theme === 'string' ? await CardThemes.resolve(explicit.theme) : explicit.theme;
+      const opts: Required<CardGenerationOptions> = {
+        ...this.defaultOptions,
+        ...(preset ? { width: preset.width, height: preset.height } : {}),
+        ...(theme ? CardThemes.getValues(theme) : {}),
+        ...explicit
+      };
       
-      // Set up canvas
-      this.setupCanvas(ctx, opts);
+      // Replace the theme colors with a palette taken from the banner and avatar
+      if (opts.autoTheme) {
+        const images = (override?.profiles || [assets])
+          .flatMap(profile => [profile.bannerImagePath, profile.profileImagePath])
+          .filter((image): image is string => !!image);
+        const picked = ColorPalette.pickTheme(await ColorPalette.extract(images), opts);
+        for (const key of Object.keys(picked) as Array<keyof PaletteTheme>) {
+          if (explicit[key] === undefined) {
+            opts[key] = picked[key];
+          }
+        }
+      }
       
-      // Draw background
-      this.drawBackground(ctx, opts);
+      opts.locale = CardLocale.normalize(opts.locale);
+      opts.stats = ProfileCardGenerator.parseStats(opts.stats);
       
-      // Load and draw banner if available
-      if (opts.showBanner && assets.bannerImagePath) {
-        await this.drawBanner(ctx, assets.bannerImagePath, opts);
+      // Fonts have to be registered before the first canvas is created
+      FontManager.registerBundledFonts();
+      for (const font of opts.fonts) {
+        FontManager.register(font);
       }
       
-      // Load and draw profile image
-      if (assets.profileImagePath) {
-        await this.drawProfileImage(ctx, assets.profileImagePath, opts);
-      }
+      // Fall back to script and emoji fonts for whatever the card text contains
+      const cardText = (override?.profiles || [assets]).map(profile => this.getCardText(profile, opts)).join('\n');
+      opts.fontFamily = FontManager.buildFontFamily(opts.fontFamily, cardText, opts.fontFallbacks);
       
-      // Draw profile information
-      this.drawProfileInfo(ctx, assets.profileData, opts);
+      // Draw the card with the template, or the layout registered for the requested style
+      const layout = override?.layout
+        ?? (opts.template ? new TemplateLayout(opts.template) : CardLayoutRegistry.get(opts.cardStyle));
       
-      // Draw stats if enabled
-      if (opts.showStats) {
-        this.drawStats(ctx, assets.profileData, opts);
-      }
+      // Double-sided cards add the back as a second image or PDF page
+      const sides: CardLayout[] = opts.doubleSided ? [layout, new CardBackLayout()] : [layout];
       
-      // Draw description if enabled
-      if (opts.showDescription && assets.profileData.description) {
-        this.drawDescription(ctx, assets.profileData.description, opts);
+      let buffers: Buffer[];
+      if (opts.outputFormat === 'pdf') {
+        // Print output is laid out at the physical card size instead of width/height
+        const geometry = PrintLayout.resolve(opts.print);
+        opts.width = geometry.artworkWidthPx;
+        opts.height = geometry.artworkHeightPx;
+        buffers = [await this.renderPrintPdf(sides, assets, opts, geometry)];
+      } else {
+        buffers = [];
+        for (let i = 0; i < sides.length; i++) {
+          buffers.push(await this.renderImage(sides[i], assets, opts, i === 0));
+        }
       }
       
       // Generate output path if not provided
       if (!outputPath) {
         const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-        const extension = opts.outputFormat === 'jpeg' ? 'jpg' : 'png';
-        const filename = `${assets.profileData.username}_card_${timestamp}.${extension}`;
-        outputPath = path.join(process.cwd(), 'downloads', assets.profileData.username, filename);
+        const extension = this.getFileExtension(opts.outputFormat);
+        const filename = `${override?.fileName ?? `${assets.profileData.username}_card_${timestamp}`}.${extension}`;
+        outputPath = path.join(process.cwd(), 'downloads', override?.directory ?? assets.profileData.username, filename);
       }
       
       // Ensure output directory exists
       await fs.ensureDir(path.dirname(outputPath));
       
       // Save the card
-      const buffer = canvas.toBuffer();
-      await fs.writeFile(outputPath, buffer);
+      await fs.writeFile(outputPath, buffers[0]);
+      
+      let backOutputPath: string | undefined;
+      if (buffers.length > 1) {
+        const parsed = path.parse(outputPath);
+        backOutputPath = path.join(parsed.dir, `${parsed.name}_back${parsed.ext}`);
+        await fs.writeFile(backOutputPath, buffers[1]);
+      }
       
       const stats = await fs.stat(outputPath);
       
       return {
         success: true,
         outputPath,
+        backOutputPath,
         cardInfo: {
           width: opts.width,
           height: opts.height,
@@ -107,200 +414,155 @@ export class ProfileCardGenerator {
   }
 
   /**
-   * Set up canvas with basic properties
+   * Render one side of a card as a PNG, JPEG or SVG buffer
    */
-  private setupCanvas(ctx: CanvasRenderingContext2D, options: Required<CardGenerationOptions>): void {
-    ctx.antialias = 'default';
-    ctx.textAlign = 'left';
-    ctx.textBaseline = 'top';
+  private async renderImage(
+    layout: CardLayout,
+    assets: CardAssets,
+    options: Required<CardGenerationOptions>,
+    isFront: boolean
+  ): Promise<Buffer> {
+    if (options.outputFormat === 'svg') {
+      // Record drawing as SVG so text stays selectable and sharp at any scale
+      const ctx = new SvgRenderingContext(options.width, options.height);
+      this.setupCanvas(ctx, options);
+      await this.renderCard(ctx, layout, assets, options, isFront);
+      return Buffer.from(ctx.toSVG(), 'utf8');
+    }
+    
+    const canvas = createCanvas(options.width, options.height);
+    const ctx = canvas.getContext('2d');
+    this.setupCanvas(ctx, options);
+    await this.renderCard(ctx, layout, assets, options, isFront);
+    return options.outputFormat === 'jpeg'
+      ? canvas.toBuffer('image/jpeg', { quality: options.quality / 100 })
+      : canvas.toBuffer('image/png');
   }
 
   /**
-   * Draw card background
+   * Render the layout followed by the optional overlay layers
    */
-  private drawBackground(ctx: CanvasRenderingContext2D, options: Required<CardGenerationOptions>): void {
-    ctx.fillStyle = options.backgroundColor;
-    ctx.fillRect(0, 0, options.width, options.height);
+  private async renderCard(
+    ctx: CardRenderingContext,
+    layout: CardLayout,
+    assets: CardAssets,
+    options: Required<CardGenerationOptions>,
+    isFront: boolean = true
+  ): Promise<void> {
+    await layout.render(ctx, assets, options);
+    
+    if (isFront && options.qrCode) {
+      this.drawQrCode(ctx, assets.profileData, options.qrCode, options);
+    }
   }
 
   /**
-   * Draw banner image
+   * Draw a QR code linking to the profile or a custom URL
    */
-  private async drawBanner(
-    ctx: CanvasRenderingContext2D, 
-    bannerPath: string, 
+  private drawQrCode(
+    ctx: CardRenderingContext,
+    profileData: TwitterProfileData,
+    qrOptions: QrCodeOptions,
     options: Required<CardGenerationOptions>
-  ): Promise<void> {
-    try {
-      const bannerImage = await loadImage(bannerPath);
-      const bannerHeight = Math.floor(options.height * 0.4);
-      
-      // Calculate dimensions to maintain aspect ratio
-      const aspectRatio = bannerImage.width / bannerImage.height;
-      const bannerWidth = bannerHeight * aspectRatio;
-      
-      // Center the banner horizontally
-      const x = (options.width - bannerWidth) / 2;
-      
-      ctx.drawImage(bannerImage, x, 0, bannerWidth, bannerHeight);
-      
-      // Add overlay for better text readability
-      const overlay = ctx.createLinearGradient(0, 0, 0, bannerHeight);
-      overlay.addColorStop(0, 'rgba(0, 0, 0, 0.3)');
-      overlay.addColorStop(1, 'rgba(0, 0, 0, 0.7)');
-      ctx.fillStyle = overlay;
-      ctx.fillRect(0, 0, options.width, bannerHeight);
-      
-    } catch (error) {
-      console.warn('Failed to load banner image:', error);
+  ): void {
+    const url = qrOptions.url || TwitterUrlParser.normalizeUrl(profileData.username);
+    
+    // On print output keep corner-positioned codes out of the bleed and safe zone
+    let margin = qrOptions.margin ?? DEFAULT_QR_CODE_OPTIONS.margin;
+    if (options.outputFormat === 'pdf') {
+      const print = PrintLayout.resolve(options.print).options;
+      margin = Math.max(margin, Math.ceil((print.bleed + print.safeZone) * print.dpi));
     }
+    
+    const { x, y } = QrCodeRenderer.resolvePosition({ ...qrOptions, margin }, options.width, options.height);
+    QrCodeRenderer.draw(ctx, url, x, y, qrOptions);
   }
 
   /**
-   * Draw profile image
+   * Render card sides to a print-ready PDF, one page per side: artwork extends
+   * into the bleed, crop marks sit in the slug around it
    */
-  private async drawProfileImage(
-    ctx: CanvasRenderingContext2D, 
-    profilePath: string, 
-    options: Required<CardGenerationOptions>
-  ): Promise<void> {
-    try {
-      const profileImage = await loadImage(profilePath);
-      const profileSize = 120;
-      const x = 60;
-      const y = options.showBanner ? Math.floor(options.height * 0.4) - profileSize / 2 : 60;
+  private async renderPrintPdf(
+    sides: CardLayout[],
+    assets: CardAssets,
+    options: Required<CardGenerationOptions>,
+    geometry: PrintGeometry
+  ): Promise<Buffer> {
+    const canvas = createCanvas(
+      geometry.pageWidth * POINTS_PER_INCH,
+      geometry.pageHeight * POINTS_PER_INCH,
+      'pdf'
+    );
+    const ctx = canvas.getContext('2d');
+    
+    for (let i = 0; i < sides.length; i++) {
+      if (i > 0) {
+        ctx.addPage();
+      }
+      this.setupCanvas(ctx, options);
+      
+      if (geometry.options.cropMarks) {
+        PrintLayout.drawCropMarks(ctx, geometry);
+      }
       
-      // Draw circular profile image
+      // Layouts draw in pixels at print DPI; scale them down to points
       ctx.save();
+      ctx.translate(geometry.slug * POINTS_PER_INCH, geometry.slug * POINTS_PER_INCH);
+      ctx.scale(POINTS_PER_INCH / geometry.options.dpi, POINTS_PER_INCH / geometry.options.dpi);
       ctx.beginPath();
-      ctx.arc(x + profileSize / 2, y + profileSize / 2, profileSize / 2, 0, Math.PI * 2);
+      ctx.rect(0, 0, geometry.artworkWidthPx, geometry.artworkHeightPx);
       ctx.clip();
-      ctx.drawImage(profileImage, x, y, profileSize, profileSize);
+      await this.renderCard(ctx, sides[i], assets, options, i === 0);
+      if (geometry.options.showSafeZone) {
+        PrintLayout.drawSafeZoneGuide(ctx, geometry);
+      }
       ctx.restore();
-      
-      // Draw border
-      ctx.strokeStyle = options.backgroundColor;
-      ctx.lineWidth = 4;
-      ctx.beginPath();
-      ctx.arc(x + profileSize / 2, y + profileSize / 2, profileSize / 2, 0, Math.PI * 2);
-      ctx.stroke();
-      
-    } catch (error) {
-      console.warn('Failed to load profile image:', error);
     }
+    
+    return canvas.toBuffer('application/pdf', {
+      title: `${assets.profileData.name} (@${assets.profileData.username})`,
+      creator: 'x-card-maker'
+    });
   }
 
   /**
-   * Draw profile information (name, username, verification)
+   * Collect the profile text drawn on the card, used to pick fallback fonts
    */
-  private drawProfileInfo(
-    ctx: CanvasRenderingContext2D, 
-    profileData: TwitterProfileData, 
-    options: Required<CardGenerationOptions>
-  ): void {
-    const startY = options.showBanner ? Math.floor(options.height * 0.4) + 20 : 200;
-    const x = 60;
-    let currentY = startY;
-    
-    // Name
-    ctx.fillStyle = options.textColor;
-    ctx.font = `bold 36px ${options.fontFamily}`;
-    ctx.fillText(profileData.name, x, currentY);
-    currentY += 50;
-    
-    // Username with @ symbol
-    ctx.fillStyle = '#71767b';
-    ctx.font = `28px ${options.fontFamily}`;
-    ctx.fillText(`@${profileData.username}`, x, currentY);
-    currentY += 40;
-    
-    // Verification badge
-    if (profileData.verified) {
-      ctx.fillStyle = options.accentColor;
-      ctx.font = `24px ${options.fontFamily}`;
-      ctx.fillText('✓ Verified', x, currentY);
-      currentY += 40;
-    }
+  private getCardText(assets: CardAssets, options: Required<CardGenerationOptions>): string {
+    const profile = assets.profileData;
+    return [
+      profile.name,
+      profile.username,
+      profile.description,
+      assets.tweet?.text || '',
+      options.roster.title || '',
+      ...(options.back.contactLines || [])
+    ].join('\n');
   }
 
   /**
-   * Draw profile statistics
+   * Get the file extension for an output format
    */
-  private drawStats(
-    ctx: CanvasRenderingContext2D, 
-    profileData: TwitterProfileData, 
-    options: Required<CardGenerationOptions>
-  ): void {
-    const startY = options.showBanner ? Math.floor(options.height * 0.4) + 200 : 400;
-    const x = 60;
-    const spacing = 120;
-    let currentX = x;
-    
-    ctx.fillStyle = options.textColor;
-    ctx.font = `bold 24px ${options.fontFamily}`;
-    
-    // Followers
-    ctx.fillText(profileData.getFormattedFollowersCount(), currentX, startY);
-    ctx.fillStyle = '#71767b';
-    ctx.font = `18px ${options.fontFamily}`;
-    ctx.fillText('Followers', currentX, startY + 30);
-    currentX += spacing;
-    
-    // Following
-    ctx.fillStyle = options.textColor;
-    ctx.font = `bold 24px ${options.fontFamily}`;
-    ctx.fillText(profileData.getFormattedFollowingCount(), currentX, startY);
-    ctx.fillStyle = '#71767b';
-    ctx.font = `18px ${options.fontFamily}`;
-    ctx.fillText('Following', currentX, startY + 30);
-    currentX += spacing;
-    
-    // Tweets
-    ctx.fillStyle = options.textColor;
-    ctx.font = `bold 24px ${options.fontFamily}`;
-    ctx.fillText(profileData.getFormattedTweetCount(), currentX, startY);
-    ctx.fillStyle = '#71767b';
-    ctx.font = `18px ${options.fontFamily}`;
-    ctx.fillText('Tweets', currentX, startY + 30);
+  private getFileExtension(format: Required<CardGenerationOptions>['outputFormat']): string {
+    switch (format) {
+      case 'jpeg':
+        return 'jpg';
+      case 'pdf':
+        return 'pdf';
+      case 'svg':
+        return 'svg';
+      default:
+        return 'png';
+    }
   }
 
   /**
-   * Draw profile description
+   * Set up canvas with basic properties
    */
-  private drawDescription(
-    ctx: CanvasRenderingContext2D, 
-    description: string, 
-    options: Required<CardGenerationOptions>
-  ): void {
-    const startY = options.showBanner ? Math.floor(options.height * 0.4) + 300 : 500;
-    const x = 60;
-    const maxWidth = options.width - 120;
-    
-    ctx.fillStyle = options.textColor;
-    ctx.font = `20px ${options.fontFamily}`;
-    
-    // Wrap text
-    const words = description.split(' ');
-    let line = '';
-    let currentY = startY;
-    const lineHeight = 30;
-    
-    for (const word of words) {
-      const testLine = line + word + ' ';
-      const metrics = ctx.measureText(testLine);
-      
-      if (metrics.width > maxWidth && line !== '') {
-        ctx.fillText(line, x, currentY);
-        line = word + ' ';
-        currentY += lineHeight;
-      } else {
-        line = testLine;
-      }
-    }
-    
-    if (line) {
-      ctx.fillText(line, x, currentY);
-    }
+  private setupCanvas(ctx: CardRenderingContext, options: Required<CardGenerationOptions>): void {
+    ctx.antialias = 'default';
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'top';
   }
 
   /**
@@ -319,34 +581,12 @@ export class ProfileCardGenerator {
     let profileData: TwitterProfileData;
     try {
       const csvContent = await fs.readFile(dataPath, 'utf-8');
-      const lines = csvContent.split('\n');
-      const headers = lines[0].split(',');
-      const data = lines[1].split(',');
-      
-      // Create a mock TwitterUser object from CSV data
-      const mockUser = {
-        id: data[0] || '',
-        name: data[1] || '',
-        username: data[2] || '',
-        description: data[3] || '',
-        profile_image_url: data[13] || '',
-        profile_banner_url: data[14] || '',
-        verified: data[4] === 'true',
-        public_metrics: {
-          followers_count: parseInt(data[5]) || 0,
-          following_count: parseInt(data[6]) || 0,
-          tweet_count: parseInt(data[7]) || 0,
-          listed_count: parseInt(data[8]) || 0,
-          like_count: parseInt(data[9]) || 0,
-          media_count: parseInt(data[10]) || 0
-        },
-        subscription: {
-          subscribes_to_you: data[11] === 'true'
-        },
-        subscription_type: data[12] || ''
-      };
+      const [row] = new CSVExporter().parseCSVContent(csvContent);
+      if (!row) {
+        throw new Error('no data row');
+      }
       
-      profileData = new TwitterProfileData(mockUser);
+      profileData = TwitterProfileData.fromCSVRow(row);
     } catch (error) {
       throw new Error(`Failed to load profile data for ${username}: ${error}`);
     }
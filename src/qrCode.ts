@@ -0,0 +1,142 @@
+import * as QRCode from 'qrcode';
+import { QrCodeOptions } from './types';
+import { CardRenderingContext } from './renderingContext';
+
+/**
+ * Default QR code settings
+ */
+export const DEFAULT_QR_CODE_OPTIONS: Required<Omit<QrCodeOptions, 'url'>> = {
+  size: 160,
+  position: 'bottom-right',
+  margin: 40,
+  errorCorrectionLevel: 'M',
+  foregroundColor: '#000000',
+  backgroundColor: '#ffffff',
+  quietZone: 4
+};
+
+/**
+ * QR code generation and drawing.
+ * Codes are encoded locally and drawn as vector squares so they stay sharp
+ * in PNG, SVG and PDF output.
+ */
+export class QrCodeRenderer {
+  /**
+   * Encode text as a QR code module matrix
+   * @param text - Text or URL to encode
+   * @param errorCorrectionLevel - L (7%), M (15%), Q (25%) or H (30%)
+   * @returns Square matrix of dark (true) and light (false) modules
+   * @throws Error if the text is empty or too long for a QR code
+   */
+  static encode(text: string, errorCorrectionLevel: QrCodeOptions['errorCorrectionLevel'] = 'M'): boolean[][] {
+    if (!text) {
+      throw new Error('QR code content must be a non-empty string');
+    }
+
+    const qr = QRCode.create(text, { errorCorrectionLevel });
+    const size = qr.modules.size;
+    const matrix: boolean[][] = [];
+
+    for (let row = 0; row < size; row++) {
+      const cells: boolean[] = [];
+      for (let col = 0; col < size; col++) {
+        cells.push(!!qr.modules.get(row, col));
+      }
+      matrix.push(cells);
+    }
+
+    return matrix;
+  }
+
+  /**
+   * Draw a QR code
+   * @param ctx - Canvas context
+   * @param text - Text or URL to encode
+   * @param x - Left edge of the code including its quiet zone
+   * @param y - Top edge of the code including its quiet zone
+   * @param options - Size, colors and error correction
+   */
+  static draw(
+    ctx: CardRenderingContext,
+    text: string,
+    x: number,
+    y: number,
+    options: QrCodeOptions = {}
+  ): void {
+    const opts = { ...DEFAULT_QR_CODE_OPTIONS, ...options };
+    const matrix = this.encode(text, opts.errorCorrectionLevel);
+    const modules = matrix.length + opts.quietZone * 2;
+    const moduleSize = opts.size / modules;
+
+    ctx.save();
+
+    ctx.fillStyle = opts.backgroundColor;
+    ctx.fillRect(x, y, opts.size, opts.size);
+
+    // One path for all dark modules keeps SVG and PDF output compact
+    ctx.fillStyle = opts.foregroundColor;
+    ctx.beginPath();
+    matrix.forEach((cells, row) => {
+      cells.forEach((dark, col) => {
+        if (dark) {
+          ctx.rect(
+            x + (col + opts.quietZone) * moduleSize,
+            y + (row + opts.quietZone) * moduleSize,
+            moduleSize,
+            moduleSize
+          );
+        }
+      });
+    });
+    ctx.fill();
+
+    ctx.restore();
+  }
+
+  /**
+   * Resolve the top-left corner of a QR code on a card
+   * @param options - QR code options
+   * @param cardWidth - Card width
+   * @param cardHeight - Card height
+   * @returns Top-left position
+   */
+  static resolvePosition(options: QrCodeOptions, cardWidth: number, cardHeight: number): { x: number; y: number } {
+    const opts = { ...DEFAULT_QR_CODE_OPTIONS, ...options };
+    const position = opts.position;
+
+    if (typeof position === 'object') {
+      return { x: position.x, y: position.y };
+    }
+
+    const left = opts.margin;
+    const right = cardWidth - opts.size - opts.margin;
+    const top = opts.margin;
+    const bottom = cardHeight - opts.size - opts.margin;
+
+    switch (position) {
+      case 'top-left':
+        return { x: left, y: top };
+      case 'top-right':
+        return { x: right, y: top };
+      case 'bottom-left':
+        return { x: left, y: bottom };
+      case 'bottom-right':
+        return { x: right, y: bottom };
+      default:
+        throw new Error(`Invalid QR code position "${position}". Use top-left, top-right, bottom-left, bottom-right or X,Y`);
+    }
+  }
+
+  /**
+   * Parse a CLI position: a corner name or "X,Y" in pixels
+   * @param value - Position string
+   * @returns Position option value
+   */
+  static parsePosition(value: string): QrCodeOptions['position'] {
+    const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*,\s*(\d+(?:\.\d+)?)$/);
+    if (match) {
+      return { x: parseFloat(match[1]), y: parseFloat(match[2]) };
+    }
+    return value.trim() as QrCodeOptions['position'];
+  }
+}
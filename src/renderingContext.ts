@@ -0,0 +1,46 @@
+import { CanvasRenderingContext2D } from 'canvas';
+
+/**
+ * The part of the canvas 2D API that card layouts draw with. node-canvas
+ * contexts and SvgRenderingContext both implement it, so anything drawn
+ * through it renders the same to PNG, JPEG, PDF and SVG.
+ */
+export type CardRenderingContext = Pick<
+  CanvasRenderingContext2D,
+  | 'fillStyle'
+  | 'strokeStyle'
+  | 'lineWidth'
+  | 'lineCap'
+  | 'lineJoin'
+  | 'font'
+  | 'textAlign'
+  | 'textBaseline'
+  | 'direction'
+  | 'globalAlpha'
+  | 'antialias'
+  | 'save'
+  | 'restore'
+  | 'translate'
+  | 'scale'
+  | 'rotate'
+  | 'transform'
+  | 'beginPath'
+  | 'moveTo'
+  | 'lineTo'
+  | 'closePath'
+  | 'rect'
+  | 'arc'
+  | 'arcTo'
+  | 'fill'
+  | 'stroke'
+  | 'clip'
+  | 'fillRect'
+  | 'strokeRect'
+  | 'clearRect'
+  | 'createLinearGradient'
+  | 'measureText'
+  | 'fillText'
+  | 'drawImage'
+  | 'setLineDash'
+  | 'getLineDash'
+>;
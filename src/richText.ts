@@ -0,0 +1,178 @@
+import { TextFitter, TextFitOptions, FittedText } from './textFit';
+import { FontManager } from './fontManager';
+import { CardRenderingContext } from './renderingContext';
+
+/**
+ * Kind of a piece of bio text
+ */
+export type RichTextTokenType = 'text' | 'mention' | 'hashtag' | 'cashtag' | 'url';
+
+/**
+ * A run of text of one kind
+ */
+export interface RichTextToken {
+  type: RichTextTokenType;
+  text: string;
+}
+
+// Bare domains need a well-known TLD so that words like "Node.js" stay plain text
+const BARE_DOMAIN_TLDS = 'com|org|net|io|dev|co|me|app|ai|gg|xyz|edu|gov|info|tv|ly|so|link|site|page|blog|social|us|uk|de|fr|ca|jp|in|eu';
+
+const ENTITY_PATTERN = new RegExp(
+  [
+    `(?<url>(?:https?:\\/\\/|www\\.)\\S+|(?<![\\w@.-])(?:[a-z0-9-]+\\.)+(?:${BARE_DOMAIN_TLDS})(?:\\/\\S*)?(?![\\w-]))`,
+    '(?<mention>(?<![\\w@])[@＠]\\w{1,15}(?![\\w@]))',
+    '(?<hashtag>(?<![\\w#&])[#＃][\\p{L}\\p{M}\\p{N}_]*[\\p{L}\\p{M}][\\p{L}\\p{M}\\p{N}_]*)',
+    '(?<cashtag>(?<![\\w$])\\$[A-Za-z]{1,6}(?:[._][A-Za-z]{1,2})?(?![\\w$]))'
+  ].join('|'),
+  'giu'
+);
+
+// Sentence punctuation after a link is not part of it
+const URL_TRAILING_PUNCTUATION = /[.,!?:;)\]'"]+$/;
+
+/**
+ * Splits bios into plain text, mentions, hashtags, cashtags and links and draws
+ * them X-style, with everything but plain text in the accent color
+ */
+export class RichText {
+  /**
+   * Split text into tokens. Joining the token texts gives back the input.
+   * @param text - Text to split
+   * @returns Tokens in order
+   */
+  static tokenize(text: string): RichTextToken[] {
+    const tokens: RichTextToken[] = [];
+    let last = 0;
+
+    for (const match of text.matchAll(ENTITY_PATTERN)) {
+      const groups = match.groups || {};
+      const type = (['url', 'mention', 'hashtag', 'cashtag'] as const).find(name => groups[name] !== undefined);
+      if (!type) {
+        continue;
+      }
+
+      const value = type === 'url' ? match[0].replace(URL_TRAILING_PUNCTUATION, '') : match[0];
+      const start = match.index ?? 0;
+      if (start > last) {
+        tokens.push({ type: 'text', text: text.slice(last, start) });
+      }
+      tokens.push({ type, text: value });
+      last = start + value.length;
+    }
+
+    if (last < text.length) {
+      tokens.push({ type: 'text', text: text.slice(last) });
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Fit text like TextFitter.draw, drawing plain text with the current fill
+   * style and mentions, hashtags, cashtags and links in the highlight color.
+   * Right-to-left lines are drawn in a single color so canvas keeps handling
+   * their bidi reordering.
+   * @param ctx - Canvas context with fill style and alignment set
+   * @param text - Text to draw
+   * @param x - Anchor x, as for fillText
+   * @param y - Top of the first line
+   * @param options - Box and font constraints
+   * @param highlightColor - Color for mentions, hashtags, cashtags and links
+   * @returns The fitted text that was drawn
+   */
+  static draw(
+    ctx: CardRenderingContext,
+    text: string,
+    x: number,
+    y: number,
+    options: TextFitOptions,
+    highlightColor: string
+  ): FittedText {
+    return this.drawTokens(ctx, this.tokenize(text), x, y, options, highlightColor);
+  }
+
+  /**
+   * Fit and draw tokens that were already split, for text where the caller
+   * knows which parts are links (see draw)
+   * @param ctx - Canvas context with fill style and alignment set
+   * @param tokens - Tokens to draw in order
+   * @param x - Anchor x, as for fillText
+   * @param y - Top of the first line
+   * @param options - Box and font constraints
+   * @param highlightColor - Color for every token that isn't plain text
+   * @returns The fitted text that was drawn
+   */
+  static drawTokens(
+    ctx: CardRenderingContext,
+    tokens: RichTextToken[],
+    x: number,
+    y: number,
+    options: TextFitOptions,
+    highlightColor: string
+  ): FittedText {
+    const fitted = TextFitter.fit(ctx, tokens.map(token => token.text).join(''), options);
+    const styled = tokens.flatMap(token =>
+      Array.from(token.text).map(char => ({ char, highlight: token.type !== 'text' }))
+    );
+
+    // Wrapping only drops whitespace and appends an ellipsis, so walking the
+    // lines alongside the source text recovers each character's token
+    let position = 0;
+    let currentY = y;
+    for (const line of fitted.lines) {
+      const runs: Array<{ text: string; highlight: boolean }> = [];
+
+      for (const char of Array.from(line)) {
+        while (position < styled.length && styled[position].char !== char && /\s/.test(styled[position].char)) {
+          position++;
+        }
+        const highlight = position < styled.length && styled[position].char === char
+          ? styled[position++].highlight
+          : false;
+
+        const run = runs[runs.length - 1];
+        if (run && run.highlight === highlight) {
+          run.text += char;
+        } else {
+          runs.push({ text: char, highlight });
+        }
+      }
+
+      if (FontManager.isRtl(line) || runs.every(run => !run.highlight)) {
+        FontManager.fillText(ctx, line, x, currentY, options.maxWidth);
+      } else {
+        this.drawRuns(ctx, runs, x, currentY, highlightColor);
+      }
+      currentY += fitted.lineHeight;
+    }
+
+    return fitted;
+  }
+
+  /**
+   * Draw colored runs one after another, honoring the context's text alignment for the whole line
+   */
+  private static drawRuns(
+    ctx: CardRenderingContext,
+    runs: Array<{ text: string; highlight: boolean }>,
+    x: number,
+    y: number,
+    highlightColor: string
+  ): void {
+    const lineWidth = ctx.measureText(runs.map(run => run.text).join('')).width;
+    const baseColor = ctx.fillStyle;
+    let currentX = ctx.textAlign === 'center' ? x - lineWidth / 2
+      : ctx.textAlign === 'right' || ctx.textAlign === 'end' ? x - lineWidth
+      : x;
+
+    ctx.save();
+    ctx.textAlign = 'left';
+    for (const run of runs) {
+      ctx.fillStyle = run.highlight ? highlightColor : baseColor;
+      ctx.fillText(run.text, currentX, y);
+      currentX += ctx.measureText(run.text).width;
+    }
+    ctx.restore();
+  }
+}
@@ -0,0 +1,178 @@
+import { CardAssets } from './types';
+import { CardLayout, ResolvedCardOptions, loadImageSafely, getContentInset } from './cardLayouts';
+import { TextFitter } from './textFit';
+import { ImageFitter } from './imageFit';
+import { VerificationBadge } from './verificationBadge';
+import { CardRenderingContext } from './renderingContext';
+
+const HEADER_HEIGHT = 72;
+const GRID_GAP = 24;
+const MAX_AVATAR_SIZE = 200;
+/** Cell height as a multiple of the avatar size: avatar, name and handle */
+const CELL_HEIGHT_RATIO = 1.6;
+
+/**
+ * Team roster: an optional logo and title above a grid of circular avatars
+ * with names and handles. The grid picks the column count that gives the
+ * largest avatars for the number of members. Sized relative to a 1200x630 card.
+ */
+export class RosterLayout implements CardLayout {
+  readonly name = 'roster';
+  readonly description = 'Grid of team members with avatars, names and handles';
+
+  /**
+   * @param members - Profiles to list, in reading order
+   */
+  constructor(private readonly members: CardAssets[]) {}
+
+  async render(ctx: CardRenderingContext, _assets: CardAssets, options: ResolvedCardOptions): Promise<void> {
+    const scale = Math.min(options.width / 1200, options.height / 630);
+    const width = options.width / scale;
+    const height = options.height / scale;
+    const inset = getContentInset(options, scale, 56);
+
+    ctx.save();
+    ctx.scale(scale, scale);
+
+    ctx.fillStyle = options.backgroundColor;
+    ctx.fillRect(0, 0, width, height);
+    ctx.textBaseline = 'top';
+
+    let top = inset;
+    if (options.roster.title || options.roster.logoPath) {
+      await this.drawHeader(ctx, options, inset, width - inset * 2);
+      top += HEADER_HEIGHT + 32;
+    }
+
+    const area = { x: inset, y: top, width: width - inset * 2, height: height - inset - top };
+    const grid = RosterLayout.getGrid(this.members.length, area.width, area.height);
+    const cellWidth = (area.width - GRID_GAP * (grid.columns - 1)) / grid.columns;
+    const cellHeight = grid.avatarSize * CELL_HEIGHT_RATIO;
+    const gridHeight = grid.rows * cellHeight + (grid.rows - 1) * GRID_GAP;
+    const gridTop = area.y + Math.max(0, (area.height - gridHeight) / 2);
+
+    for (let i = 0; i < this.members.length; i++) {
+      const row = Math.floor(i / grid.columns);
+      const column = i % grid.columns;
+      // Center the last row when it isn't full
+      const inRow = Math.min(grid.columns, this.members.length - row * grid.columns);
+      const rowOffset = (grid.columns - inRow) * (cellWidth + GRID_GAP) / 2;
+
+      await this.drawMember(ctx, this.members[i], options, {
+        x: area.x + rowOffset + column * (cellWidth + GRID_GAP),
+        y: gridTop + row * (cellHeight + GRID_GAP),
+        width: cellWidth,
+        avatarSize: grid.avatarSize
+      });
+    }
+
+    ctx.restore();
+  }
+
+  /**
+   * Pick the column count that gives the largest avatars in the area
+   * @param count - Number of members
+   * @param width - Grid area width
+   * @param height - Grid area height
+   * @returns Columns, rows and the avatar size
+   */
+  static getGrid(count: number, width: number, height: number): { columns: number; rows: number; avatarSize: number } {
+    let best = { columns: 1, rows: Math.max(1, count), avatarSize: 0 };
+
+    for (let columns = 1; columns <= Math.max(1, count); columns++) {
+      const rows = Math.ceil(count / columns);
+      const cellWidth = (width - GRID_GAP * (columns - 1)) / columns;
+      const cellHeight = (height - GRID_GAP * (rows - 1)) / rows;
+      const avatarSize = Math.min(cellWidth * 0.75, cellHeight / CELL_HEIGHT_RATIO, MAX_AVATAR_SIZE);
+
+      // Prefer fewer rows when sizes tie, e.g. once every count hits the size cap
+      if (avatarSize > best.avatarSize + 0.5) {
+        best = { columns, rows, avatarSize };
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Logo contained in a box at the top-left, followed by the title shrunk to fit
+   */
+  private async drawHeader(
+    ctx: CardRenderingContext,
+    options: ResolvedCardOptions,
+    inset: number,
+    maxWidth: number
+  ): Promise<void> {
+    const { title, logoPath } = options.roster;
+    let titleX = inset;
+
+    if (logoPath) {
+      const logo = await loadImageSafely(logoPath, 'roster logo');
+      if (logo) {
+        const logoScale = Math.min(200 / logo.width, HEADER_HEIGHT / logo.height);
+        const logoWidth = logo.width * logoScale;
+        const logoHeight = logo.height * logoScale;
+        ctx.drawImage(logo, inset, inset + (HEADER_HEIGHT - logoHeight) / 2, logoWidth, logoHeight);
+        titleX += logoWidth + 24;
+      }
+    }
+
+    if (title) {
+      ctx.textAlign = 'left';
+      ctx.fillStyle = options.textColor;
+      const fitted = TextFitter.fit(ctx, title, {
+        fontSize: 44, minFontSize: 28, fontStyle: 'bold', fontFamily: options.fontFamily, maxWidth: maxWidth - (titleX - inset), maxLines: 1
+      });
+      TextFitter.draw(ctx, title, titleX, inset + (HEADER_HEIGHT - fitted.fontSize) / 2, {
+        fontSize: fitted.fontSize, fontStyle: 'bold', fontFamily: options.fontFamily, maxWidth: maxWidth - (titleX - inset), maxLines: 1
+      });
+    }
+  }
+
+  /**
+   * One grid cell: avatar, then the name with its badge and the handle, centered
+   */
+  private async drawMember(
+    ctx: CardRenderingContext,
+    member: CardAssets,
+    options: ResolvedCardOptions,
+    cell: { x: number; y: number; width: number; avatarSize: number }
+  ): Promise<void> {
+    const profile = member.profileData;
+    const size = cell.avatarSize;
+    const centerX = cell.x + cell.width / 2;
+    const avatar = member.profileImagePath
+      ? await loadImageSafely(member.profileImagePath, `profile image for @${profile.username}`)
+      : null;
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.arc(centerX, cell.y + size / 2, size / 2, 0, Math.PI * 2);
+    if (avatar) {
+      ctx.clip();
+      const box = { x: centerX - size / 2, y: cell.y, width: size, height: size };
+      const rect = ImageFitter.getDrawRect(avatar.width, avatar.height, box, options.avatarFit, options.avatarFocus);
+      ctx.drawImage(avatar, rect.x, rect.y, rect.width, rect.height);
+    } else {
+      // Keep the grid even for members without a downloaded avatar
+      ctx.fillStyle = options.dividerColor;
+      ctx.fill();
+    }
+    ctx.restore();
+
+    const nameSize = Math.min(30, Math.max(12, size * 0.2));
+    const nameY = cell.y + size + size * 0.1;
+
+    ctx.textAlign = 'center';
+    ctx.fillStyle = options.textColor;
+    const badge = options.showBadge ? VerificationBadge.getType(profile) : 'none';
+    VerificationBadge.drawNameWithBadge(ctx, profile.name, badge, centerX, nameY, {
+      fontSize: nameSize, minFontSize: nameSize * 0.7, fontStyle: 'bold', fontFamily: options.fontFamily, maxWidth: cell.width
+    });
+
+    ctx.fillStyle = options.secondaryTextColor;
+    TextFitter.draw(ctx, `@${profile.username}`, centerX, nameY + nameSize * 1.3, {
+      fontSize: nameSize * 0.8, minFontSize: nameSize * 0.6, fontFamily: options.fontFamily, maxWidth: cell.width, maxLines: 1
+    });
+  }
+}
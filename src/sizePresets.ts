@@ -0,0 +1,47 @@
+/**
+ * A named card size for a common destination
+ */
+export interface CardSizePreset {
+  name: string;
+  description: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Built-in size presets. The business card is 3.5" x 2" at 300 DPI.
+ */
+export const CARD_SIZE_PRESETS: Record<string, CardSizePreset> = {
+  opengraph: { name: 'opengraph', description: 'OpenGraph / link preview image', width: 1200, height: 630 },
+  'x-header': { name: 'x-header', description: 'X/Twitter profile header', width: 1500, height: 500 },
+  'instagram-story': { name: 'instagram-story', description: 'Instagram story', width: 1080, height: 1920 },
+  square: { name: 'square', description: 'Square post', width: 1080, height: 1080 },
+  'business-card': { name: 'business-card', description: 'US business card, 3.5" x 2" at 300 DPI', width: 1050, height: 600 }
+};
+
+/**
+ * Lookup for the built-in size presets
+ */
+export class SizePresets {
+  /**
+   * Get a preset by name
+   * @param name - Preset name
+   * @returns The preset
+   * @throws Error listing the available presets if the name is unknown
+   */
+  static get(name: string): CardSizePreset {
+    // Only own keys, so names such as "constructor" don't resolve to Object.prototype members
+    const key = name.toLowerCase();
+    if (!Object.prototype.hasOwnProperty.call(CARD_SIZE_PRESETS, key)) {
+      throw new Error(`Unknown size preset "${name}". Available presets: ${this.list().join(', ')}`);
+    }
+    return CARD_SIZE_PRESETS[key];
+  }
+
+  /**
+   * Get the names of all presets
+   */
+  static list(): string[] {
+    return Object.keys(CARD_SIZE_PRESETS);
+  }
+}
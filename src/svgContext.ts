@@ -0,0 +1,553 @@
+import { createCanvas, Canvas, CanvasRenderingContext2D, Image, TextMetrics } from 'canvas';
+import * as fs from 'fs-extra';
+import { CardRenderingContext } from './renderingContext';
+
+/**
+ * Linear gradient recorded by SvgRenderingContext
+ */
+export class SvgLinearGradient {
+  readonly stops: Array<{ offset: number; color: string }> = [];
+
+  constructor(
+    readonly x0: number,
+    readonly y0: number,
+    readonly x1: number,
+    readonly y1: number
+  ) {}
+
+  addColorStop(offset: number, color: string): void {
+    this.stops.push({ offset, color });
+  }
+}
+
+type Paint = CardRenderingContext['fillStyle'];
+
+interface DrawingState {
+  fillStyle: Paint;
+  strokeStyle: Paint;
+  lineWidth: number;
+  lineCap: CardRenderingContext['lineCap'];
+  lineJoin: CardRenderingContext['lineJoin'];
+  lineDash: number[];
+  font: string;
+  textAlign: CardRenderingContext['textAlign'];
+  textBaseline: CardRenderingContext['textBaseline'];
+  direction: CardRenderingContext['direction'];
+  globalAlpha: number;
+  transform: [number, number, number, number, number, number];
+  /** Number of clip groups opened while this state was current */
+  openGroups: number;
+}
+
+/**
+ * The CardRenderingContext part of the canvas 2D API, recording drawing as SVG.
+ * Text stays as <text> elements and images are embedded as data URIs, so the
+ * card layouts can render a vector card without changes. Text measurement is
+ * delegated to a node-canvas context so wrapping matches raster output.
+ */
+export class SvgRenderingContext implements CardRenderingContext {
+  antialias: CardRenderingContext['antialias'] = 'default';
+
+  private state: DrawingState = {
+    fillStyle: '#000000',
+    strokeStyle: '#000000',
+    lineWidth: 1,
+    lineCap: 'butt',
+    lineJoin: 'miter',
+    lineDash: [],
+    font: '10px sans-serif',
+    textAlign: 'start',
+    textBaseline: 'alphabetic',
+    direction: 'ltr',
+    globalAlpha: 1,
+    transform: [1, 0, 0, 1, 0, 0],
+    openGroups: 0
+  };
+  private readonly stack: DrawingState[] = [];
+  private readonly defs: string[] = [];
+  private readonly body: string[] = [];
+  private readonly imageCache = new Map<string | Buffer, string>();
+  private readonly measureContext: CanvasRenderingContext2D;
+  private path: string[] = [];
+  private currentPoint: [number, number] | null = null;
+  private subpathStart: [number, number] | null = null;
+  private nextId = 0;
+
+  constructor(readonly width: number, readonly height: number) {
+    this.measureContext = createCanvas(1, 1).getContext('2d');
+  }
+
+  // Style properties
+
+  get fillStyle(): Paint { return this.state.fillStyle; }
+  set fillStyle(value: Paint) { this.state.fillStyle = value; }
+  get strokeStyle(): Paint { return this.state.strokeStyle; }
+  set strokeStyle(value: Paint) { this.state.strokeStyle = value; }
+  get lineWidth(): number { return this.state.lineWidth; }
+  set lineWidth(value: number) { this.state.lineWidth = value; }
+  get lineCap(): DrawingState['lineCap'] { return this.state.lineCap; }
+  set lineCap(value: DrawingState['lineCap']) { this.state.lineCap = value; }
+  get lineJoin(): DrawingState['lineJoin'] { return this.state.lineJoin; }
+  set lineJoin(value: DrawingState['lineJoin']) { this.state.lineJoin = value; }
+  get font(): string { return this.state.font; }
+  set font(value: string) { this.state.font = value; }
+  get textAlign(): DrawingState['textAlign'] { return this.state.textAlign; }
+  set textAlign(value: DrawingState['textAlign']) { this.state.textAlign = value; }
+  get textBaseline(): DrawingState['textBaseline'] { return this.state.textBaseline; }
+  set textBaseline(value: DrawingState['textBaseline']) { this.state.textBaseline = value; }
+  get direction(): DrawingState['direction'] { return this.state.direction; }
+  set direction(value: DrawingState['direction']) { this.state.direction = value; }
+  get globalAlpha(): number { return this.state.globalAlpha; }
+  set globalAlpha(value: number) { this.state.globalAlpha = value; }
+
+  setLineDash(segments: number[]): void {
+    this.state.lineDash = [...segments];
+  }
+
+  getLineDash(): number[] {
+    return [...this.state.lineDash];
+  }
+
+  // State and transforms
+
+  save(): void {
+    this.stack.push({ ...this.state, lineDash: [...this.state.lineDash], transform: [...this.state.transform] as DrawingState['transform'] });
+    this.state.openGroups = 0;
+  }
+
+  restore(): void {
+    const previous = this.stack.pop();
+    if (!previous) {
+      return;
+    }
+    for (let i = 0; i < this.state.openGroups; i++) {
+      this.body.push('</g>');
+    }
+    this.state = previous;
+  }
+
+  translate(x: number, y: number): void {
+    this.transform(1, 0, 0, 1, x, y);
+  }
+
+  scale(x: number, y: number): void {
+    this.transform(x, 0, 0, y, 0, 0);
+  }
+
+  rotate(angle: number): void {
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    this.transform(cos, sin, -sin, cos, 0, 0);
+  }
+
+  transform(a: number, b: number, c: number, d: number, e: number, f: number): void {
+    const [a0, b0, c0, d0, e0, f0] = this.state.transform;
+    this.state.transform = [
+      a0 * a + c0 * b,
+      b0 * a + d0 * b,
+      a0 * c + c0 * d,
+      b0 * c + d0 * d,
+      a0 * e + c0 * f + e0,
+      b0 * e + d0 * f + f0
+    ];
+  }
+
+  setTransform(a: number, b: number, c: number, d: number, e: number, f: number): void {
+    this.state.transform = [a, b, c, d, e, f];
+  }
+
+  // Paths
+
+  beginPath(): void {
+    this.path = [];
+    this.currentPoint = null;
+    this.subpathStart = null;
+  }
+
+  moveTo(x: number, y: number): void {
+    this.path.push(`M${this.num(x)} ${this.num(y)}`);
+    this.currentPoint = [x, y];
+    this.subpathStart = [x, y];
+  }
+
+  lineTo(x: number, y: number): void {
+    if (!this.currentPoint) {
+      this.moveTo(x, y);
+      return;
+    }
+    this.path.push(`L${this.num(x)} ${this.num(y)}`);
+    this.currentPoint = [x, y];
+  }
+
+  closePath(): void {
+    if (this.currentPoint) {
+      this.path.push('Z');
+      this.currentPoint = this.subpathStart;
+    }
+  }
+
+  rect(x: number, y: number, w: number, h: number): void {
+    this.moveTo(x, y);
+    this.lineTo(x + w, y);
+    this.lineTo(x + w, y + h);
+    this.lineTo(x, y + h);
+    this.closePath();
+  }
+
+  arc(cx: number, cy: number, radius: number, startAngle: number, endAngle: number, counterclockwise: boolean = false): void {
+    const startX = cx + radius * Math.cos(startAngle);
+    const startY = cy + radius * Math.sin(startAngle);
+
+    if (this.currentPoint) {
+      this.lineTo(startX, startY);
+    } else {
+      this.moveTo(startX, startY);
+    }
+
+    let sweep = endAngle - startAngle;
+    if (!counterclockwise && sweep >= Math.PI * 2) {
+      sweep = Math.PI * 2;
+    } else if (counterclockwise && -sweep >= Math.PI * 2) {
+      sweep = -Math.PI * 2;
+    } else if (!counterclockwise && sweep < 0) {
+      sweep = (sweep % (Math.PI * 2)) + Math.PI * 2;
+    } else if (counterclockwise && sweep > 0) {
+      sweep = (sweep % (Math.PI * 2)) - Math.PI * 2;
+    }
+
+    // SVG arcs cannot describe a full circle, so split into two halves
+    const segments = Math.abs(sweep) >= Math.PI * 2 - 1e-9 ? 2 : 1;
+    let angle = startAngle;
+    for (let i = 0; i < segments; i++) {
+      const step = sweep / segments;
+      angle += step;
+      const x = cx + radius * Math.cos(angle);
+      const y = cy + radius * Math.sin(angle);
+      const largeArc = Math.abs(step) > Math.PI ? 1 : 0;
+      const sweepFlag = step > 0 ? 1 : 0;
+      this.path.push(`A${this.num(radius)} ${this.num(radius)} 0 ${largeArc} ${sweepFlag} ${this.num(x)} ${this.num(y)}`);
+      this.currentPoint = [x, y];
+    }
+  }
+
+  arcTo(x1: number, y1: number, x2: number, y2: number, radius: number): void {
+    if (!this.currentPoint) {
+      this.moveTo(x1, y1);
+    }
+    const [x0, y0] = this.currentPoint!;
+
+    const v1x = x0 - x1;
+    const v1y = y0 - y1;
+    const v2x = x2 - x1;
+    const v2y = y2 - y1;
+    const len1 = Math.hypot(v1x, v1y);
+    const len2 = Math.hypot(v2x, v2y);
+    const cross = v1x * v2y - v1y * v2x;
+
+    if (radius === 0 || len1 === 0 || len2 === 0 || Math.abs(cross) < 1e-9) {
+      this.lineTo(x1, y1);
+      return;
+    }
+
+    const angle = Math.acos((v1x * v2x + v1y * v2y) / (len1 * len2));
+    const distance = radius / Math.tan(angle / 2);
+    const t1x = x1 + (v1x / len1) * distance;
+    const t1y = y1 + (v1y / len1) * distance;
+    const t2x = x1 + (v2x / len2) * distance;
+    const t2y = y1 + (v2y / len2) * distance;
+
+    this.lineTo(t1x, t1y);
+    this.path.push(`A${this.num(radius)} ${this.num(radius)} 0 0 ${cross < 0 ? 1 : 0} ${this.num(t2x)} ${this.num(t2y)}`);
+    this.currentPoint = [t2x, t2y];
+  }
+
+  fill(): void {
+    if (this.path.length > 0) {
+      this.body.push(`<path d="${this.path.join(' ')}"${this.fillAttributes()}${this.commonAttributes()}/>`);
+    }
+  }
+
+  stroke(): void {
+    if (this.path.length > 0) {
+      this.body.push(`<path d="${this.path.join(' ')}" fill="none"${this.strokeAttributes()}${this.commonAttributes()}/>`);
+    }
+  }
+
+  clip(): void {
+    const id = this.createId('clip');
+    this.defs.push(`<clipPath id="${id}"><path d="${this.path.join(' ')}"${this.transformAttribute()}/></clipPath>`);
+    this.body.push(`<g clip-path="url(#${id})">`);
+    this.state.openGroups++;
+  }
+
+  // Rectangles
+
+  fillRect(x: number, y: number, w: number, h: number): void {
+    this.body.push(`<rect x="${this.num(x)}" y="${this.num(y)}" width="${this.num(w)}" height="${this.num(h)}"${this.fillAttributes()}${this.commonAttributes()}/>`);
+  }
+
+  strokeRect(x: number, y: number, w: number, h: number): void {
+    this.body.push(`<rect x="${this.num(x)}" y="${this.num(y)}" width="${this.num(w)}" height="${this.num(h)}" fill="none"${this.strokeAttributes()}${this.commonAttributes()}/>`);
+  }
+
+  clearRect(x: number, y: number, w: number, h: number): void {
+    this.body.push(`<rect x="${this.num(x)}" y="${this.num(y)}" width="${this.num(w)}" height="${this.num(h)}" fill="#ffffff"${this.transformAttribute()}/>`);
+  }
+
+  // Gradients
+
+  createLinearGradient(x0: number, y0: number, x1: number, y1: number): SvgLinearGradient {
+    return new SvgLinearGradient(x0, y0, x1, y1);
+  }
+
+  // Text
+
+  measureText(text: string): TextMetrics {
+    this.measureContext.font = this.state.font;
+    return this.measureContext.measureText(text);
+  }
+
+  fillText(text: string, x: number, y: number): void {
+    const font = this.parseFont(this.state.font);
+    const anchor = this.textAnchor();
+    const baselineY = y + this.baselineOffset(text);
+
+    const attributes = [
+      `x="${this.num(x)}"`,
+      `y="${this.num(baselineY)}"`,
+      `font-family="${this.escape(font.family)}"`,
+      `font-size="${this.num(font.size)}"`
+    ];
+    if (font.weight !== 'normal') {
+      attributes.push(`font-weight="${font.weight}"`);
+    }
+    if (font.style !== 'normal') {
+      attributes.push(`font-style="${font.style}"`);
+    }
+    if (anchor !== 'start') {
+      attributes.push(`text-anchor="${anchor}"`);
+    }
+    if (this.state.direction === 'rtl') {
+      attributes.push('direction="rtl"');
+    }
+
+    this.body.push(`<text ${attributes.join(' ')}${this.fillAttributes()}${this.commonAttributes()} xml:space="preserve">${this.escape(text)}</text>`);
+  }
+
+  // Images
+
+  drawImage(image: Image | Canvas, ...args: number[]): void {
+    const href = this.imageHref(image);
+    const imageWidth = image.width;
+    const imageHeight = image.height;
+
+    let sx = 0, sy = 0, sw = imageWidth, sh = imageHeight;
+    let dx: number, dy: number, dw: number, dh: number;
+
+    if (args.length === 2) {
+      [dx, dy] = args;
+      dw = imageWidth;
+      dh = imageHeight;
+    } else if (args.length === 4) {
+      [dx, dy, dw, dh] = args;
+    } else {
+      [sx, sy, sw, sh, dx, dy, dw, dh] = args;
+    }
+
+    this.body.push(
+      `<svg x="${this.num(dx)}" y="${this.num(dy)}" width="${this.num(dw)}" height="${this.num(dh)}" ` +
+      `viewBox="${this.num(sx)} ${this.num(sy)} ${this.num(sw)} ${this.num(sh)}" preserveAspectRatio="none" overflow="hidden"` +
+      `${this.commonAttributes()}>` +
+      `<image width="${imageWidth}" height="${imageHeight}" href="${href}"/></svg>`
+    );
+  }
+
+  /**
+   * Serialize everything drawn so far as a standalone SVG document
+   */
+  toSVG(): string {
+    const open: string[] = [];
+    let groups = this.state.openGroups + this.stack.reduce((sum, state) => sum + state.openGroups, 0);
+    while (groups-- > 0) {
+      open.push('</g>');
+    }
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" ` +
+      `width="${this.width}" height="${this.height}" viewBox="0 0 ${this.width} ${this.height}">`,
+      `<defs>${this.defs.join('')}</defs>`,
+      ...this.body,
+      ...open,
+      '</svg>',
+      ''
+    ].join('\n');
+  }
+
+  private fillAttributes(): string {
+    return ` fill="${this.paint(this.state.fillStyle)}"`;
+  }
+
+  private strokeAttributes(): string {
+    const attributes = [
+      ` stroke="${this.paint(this.state.strokeStyle)}"`,
+      ` stroke-width="${this.num(this.state.lineWidth)}"`
+    ];
+    if (this.state.lineCap !== 'butt') {
+      attributes.push(` stroke-linecap="${this.state.lineCap}"`);
+    }
+    if (this.state.lineJoin !== 'miter') {
+      attributes.push(` stroke-linejoin="${this.state.lineJoin}"`);
+    }
+    if (this.state.lineDash.length > 0) {
+      attributes.push(` stroke-dasharray="${this.state.lineDash.map(v => this.num(v)).join(' ')}"`);
+    }
+    return attributes.join('');
+  }
+
+  private commonAttributes(): string {
+    const opacity = this.state.globalAlpha < 1 ? ` opacity="${this.num(this.state.globalAlpha)}"` : '';
+    return `${opacity}${this.transformAttribute()}`;
+  }
+
+  private transformAttribute(): string {
+    const [a, b, c, d, e, f] = this.state.transform;
+    if (a === 1 && b === 0 && c === 0 && d === 1 && e === 0 && f === 0) {
+      return '';
+    }
+    return ` transform="matrix(${[a, b, c, d, e, f].map(v => this.num(v)).join(' ')})"`;
+  }
+
+  private paint(style: Paint): string {
+    if (typeof style === 'string') {
+      return this.escape(style);
+    }
+    if (!(style instanceof SvgLinearGradient)) {
+      throw new Error('SVG output supports colors and linear gradients only');
+    }
+
+    const id = this.createId('gradient');
+    const stops = style.stops
+      .map(stop => `<stop offset="${this.num(stop.offset)}" stop-color="${this.escape(stop.color)}"/>`)
+      .join('');
+    this.defs.push(
+      `<linearGradient id="${id}" gradientUnits="userSpaceOnUse" ` +
+      `x1="${this.num(style.x0)}" y1="${this.num(style.y0)}" x2="${this.num(style.x1)}" y2="${this.num(style.y1)}">` +
+      `${stops}</linearGradient>`
+    );
+    return `url(#${id})`;
+  }
+
+  private textAnchor(): 'start' | 'middle' | 'end' {
+    const rtl = this.state.direction === 'rtl';
+    switch (this.state.textAlign) {
+      case 'center':
+        return 'middle';
+      case 'right':
+        return rtl ? 'start' : 'end';
+      case 'end':
+        return 'end';
+      case 'left':
+        return rtl ? 'end' : 'start';
+      default:
+        return 'start';
+    }
+  }
+
+  /**
+   * SVG text is positioned by its alphabetic baseline; convert canvas baselines
+   */
+  private baselineOffset(text: string): number {
+    if (this.state.textBaseline === 'alphabetic') {
+      return 0;
+    }
+
+    this.measureContext.font = this.state.font;
+    this.measureContext.textBaseline = 'alphabetic';
+    const metrics = this.measureContext.measureText(text || 'M');
+
+    switch (this.state.textBaseline) {
+      case 'top':
+      case 'hanging':
+        return metrics.emHeightAscent;
+      case 'middle':
+        return (metrics.emHeightAscent - metrics.emHeightDescent) / 2;
+      case 'bottom':
+      case 'ideographic':
+        return -metrics.emHeightDescent;
+      default:
+        return 0;
+    }
+  }
+
+  private parseFont(font: string): { style: string; weight: string; size: number; family: string } {
+    const match = font.match(/^\s*((?:(?:normal|italic|oblique|bold|bolder|lighter|small-caps|\d{3})\s+)*)(\d+(?:\.\d+)?)px(?:\/\S+)?\s+(.+)$/i);
+    if (!match) {
+      return { style: 'normal', weight: 'normal', size: 10, family: 'sans-serif' };
+    }
+
+    let style = 'normal';
+    let weight = 'normal';
+    for (const token of match[1].trim().split(/\s+/).filter(Boolean)) {
+      if (/^(italic|oblique)$/i.test(token)) {
+        style = token.toLowerCase();
+      } else if (/^(bold|bolder|lighter|\d{3})$/i.test(token)) {
+        weight = token.toLowerCase();
+      }
+    }
+
+    return { style, weight, size: parseFloat(match[2]), family: match[3].trim() };
+  }
+
+  private imageHref(image: Image | Canvas): string {
+    if (image instanceof Canvas) {
+      return image.toDataURL('image/png');
+    }
+
+    const source = image.src;
+    const cached = this.imageCache.get(source);
+    if (cached) {
+      return cached;
+    }
+
+    let href: string;
+    if (typeof source === 'string' && source.startsWith('data:')) {
+      href = source;
+    } else {
+      const data = typeof source === 'string' ? fs.readFileSync(source) : source;
+      href = `data:${this.detectMimeType(data)};base64,${data.toString('base64')}`;
+    }
+
+    this.imageCache.set(source, href);
+    return href;
+  }
+
+  private detectMimeType(data: Buffer): string {
+    if (data[0] === 0x89 && data[1] === 0x50) {
+      return 'image/png';
+    }
+    if (data[0] === 0x47 && data[1] === 0x49) {
+      return 'image/gif';
+    }
+    if (data.slice(0, 4).toString() === 'RIFF') {
+      return 'image/webp';
+    }
+    return 'image/jpeg';
+  }
+
+  private createId(prefix: string): string {
+    return `${prefix}${this.nextId++}`;
+  }
+
+  private num(value: number): string {
+    return String(Math.round(value * 100) / 100);
+  }
+
+  private escape(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+}
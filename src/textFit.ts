@@ -0,0 +1,207 @@
+import { FontManager } from './fontManager';
+import { CardRenderingContext } from './renderingContext';
+
+/**
+ * How a piece of text should be fitted into its box
+ */
+export interface TextFitOptions {
+  /** Preferred (largest) font size in pixels */
+  fontSize: number;
+  /** Smallest font size the text may shrink to; defaults to fontSize (no shrinking) */
+  minFontSize?: number;
+  /** Font family list */
+  fontFamily: string;
+  /** Font style and weight prefix, e.g. "bold" or "italic" */
+  fontStyle?: string;
+  /** Width of the text box */
+  maxWidth: number;
+  /** Height of the text box; limits the number of lines */
+  maxHeight?: number;
+  /** Maximum number of lines; 1 for single-line text such as names */
+  maxLines?: number;
+  /** Line height at fontSize; scaled along with the font. Defaults to 1.4 x fontSize */
+  lineHeight?: number;
+  /** Appended to the last line when the text is clamped */
+  ellipsis?: string;
+}
+
+/**
+ * Result of fitting text into a box
+ */
+export interface FittedText {
+  lines: string[];
+  fontSize: number;
+  lineHeight: number;
+  /** CSS font string the lines were measured with */
+  font: string;
+  /** True when lines were dropped or shortened to fit */
+  truncated: boolean;
+}
+
+/**
+ * Text fitting engine shared by every text layer: wraps text to a width,
+ * breaks words that have no spaces (long URLs, CJK), shrinks the font between
+ * a maximum and minimum size and clamps what still doesn't fit with an ellipsis
+ */
+export class TextFitter {
+  /**
+   * Wrap text to lines no wider than maxWidth using the current font.
+   * Newlines start a new line; words wider than maxWidth are broken between characters.
+   * @param ctx - Canvas context with the font set
+   * @param text - Text to wrap
+   * @param maxWidth - Maximum line width
+   * @returns Wrapped lines
+   */
+  static wrap(ctx: CardRenderingContext, text: string, maxWidth: number): string[] {
+    const lines: string[] = [];
+
+    for (const paragraph of text.split(/\r?\n/)) {
+      let line = '';
+
+      for (const word of paragraph.split(' ').filter(Boolean)) {
+        const testLine = line ? `${line} ${word}` : word;
+        if (ctx.measureText(testLine).width <= maxWidth) {
+          line = testLine;
+          continue;
+        }
+
+        if (line) {
+          lines.push(line);
+        }
+
+        // A word that fits on its own line starts the next line, anything wider is broken up
+        if (ctx.measureText(word).width <= maxWidth) {
+          line = word;
+        } else {
+          const pieces = this.breakWord(ctx, word, maxWidth);
+          lines.push(...pieces.slice(0, -1));
+          line = pieces[pieces.length - 1];
+        }
+      }
+
+      if (line) {
+        lines.push(line);
+      }
+    }
+
+    return lines;
+  }
+
+  /**
+   * Shorten a line until it fits maxWidth with the ellipsis appended
+   * @param ctx - Canvas context with the font set
+   * @param line - Line to shorten
+   * @param maxWidth - Maximum line width
+   * @param ellipsis - Suffix marking the cut
+   * @returns The shortened line
+   */
+  static truncate(ctx: CardRenderingContext, line: string, maxWidth: number, ellipsis: string = '…'): string {
+    const chars = Array.from(line.trimEnd());
+
+    while (chars.length > 0 && ctx.measureText(`${chars.join('').trimEnd()}${ellipsis}`).width > maxWidth) {
+      chars.pop();
+    }
+
+    return `${chars.join('').trimEnd()}${ellipsis}`;
+  }
+
+  /**
+   * Fit text into a box: try font sizes from fontSize down to minFontSize and
+   * use the first that fits; at the minimum size clamp the text with an ellipsis.
+   * Leaves ctx.font set to the chosen font.
+   * @param ctx - Canvas context
+   * @param text - Text to fit
+   * @param options - Box and font constraints
+   * @returns The fitted lines and font
+   */
+  static fit(ctx: CardRenderingContext, text: string, options: TextFitOptions): FittedText {
+    const minFontSize = Math.min(options.minFontSize ?? options.fontSize, options.fontSize);
+    const lineRatio = (options.lineHeight ?? options.fontSize * 1.4) / options.fontSize;
+
+    let fontSize = options.fontSize;
+    while (true) {
+      const font = this.toFont(fontSize, options);
+      const lineHeight = fontSize * lineRatio;
+      const maxLines = this.getMaxLines(options, fontSize, lineHeight);
+
+      ctx.font = font;
+      const lines = this.wrap(ctx, text, options.maxWidth);
+
+      if (lines.length <= maxLines) {
+        return { lines, fontSize, lineHeight, font, truncated: false };
+      }
+
+      if (fontSize <= minFontSize) {
+        const clamped = lines.slice(0, maxLines);
+        if (clamped.length > 0) {
+          clamped[clamped.length - 1] = this.truncate(
+            ctx,
+            clamped[clamped.length - 1],
+            options.maxWidth,
+            options.ellipsis ?? '…'
+          );
+        }
+        return { lines: clamped, fontSize, lineHeight, font, truncated: true };
+      }
+
+      fontSize = Math.max(minFontSize, fontSize - Math.max(1, Math.round(options.fontSize / 36)));
+    }
+  }
+
+  /**
+   * Fit text and draw it top-down from (x, y) with the current fill style and alignment
+   * @param ctx - Canvas context
+   * @param text - Text to draw
+   * @param x - Anchor x, as for fillText
+   * @param y - Top of the first line
+   * @param options - Box and font constraints
+   * @returns The fitted text that was drawn
+   */
+  static draw(ctx: CardRenderingContext, text: string, x: number, y: number, options: TextFitOptions): FittedText {
+    const fitted = this.fit(ctx, text, options);
+
+    let currentY = y;
+    for (const line of fitted.lines) {
+      FontManager.fillText(ctx, line, x, currentY, options.maxWidth);
+      currentY += fitted.lineHeight;
+    }
+
+    return fitted;
+  }
+
+  private static getMaxLines(options: TextFitOptions, fontSize: number, lineHeight: number): number {
+    let maxLines = options.maxLines ?? Infinity;
+    if (options.maxHeight !== undefined) {
+      // The last line only needs room for the glyphs, not the full line gap
+      maxLines = Math.min(maxLines, Math.floor((options.maxHeight - fontSize) / lineHeight) + 1);
+    }
+    return Math.max(1, maxLines);
+  }
+
+  /**
+   * Split a word into pieces no wider than maxWidth
+   */
+  private static breakWord(ctx: CardRenderingContext, word: string, maxWidth: number): string[] {
+    const pieces: string[] = [];
+    let piece = '';
+
+    for (const char of Array.from(word)) {
+      if (piece && ctx.measureText(piece + char).width > maxWidth) {
+        pieces.push(piece);
+        piece = char;
+      } else {
+        piece += char;
+      }
+    }
+
+    if (piece) {
+      pieces.push(piece);
+    }
+
+    return pieces;
+  }
+
+  private static toFont(fontSize: number, options: TextFitOptions): string {
+    return `${options.fontStyle ? `${options.fontStyle} ` : ''}${fontSize}px ${options.fontFamily}`;
+  }
+}
@@ -0,0 +1,262 @@
+import { Image } from 'canvas';
+import { CardAssets, TweetData } from './types';
+import { CardLayout, ResolvedCardOptions, loadImageSafely, getContentInset } from './cardLayouts';
+import { TextFitter } from './textFit';
+import { RichText } from './richText';
+import { ImageFitter, ImageBox } from './imageFit';
+import { CardLocale } from './locale';
+import { VerificationBadge } from './verificationBadge';
+import { CardRenderingContext } from './renderingContext';
+
+const AVATAR_SIZE = 88;
+const MEDIA_GAP = 4;
+const MEDIA_RADIUS = 16;
+/** Media boxes shorter than this are left out rather than drawn as a sliver */
+const MIN_MEDIA_HEIGHT = 120;
+
+/**
+ * A single tweet as a shareable image: author header, text, up to four media
+ * images, post time and engagement counts. Sized relative to a 1200x630 card.
+ */
+export class TweetCardLayout implements CardLayout {
+  readonly name = 'tweet';
+  readonly description = 'Single tweet with author, text, media and engagement stats';
+
+  async render(ctx: CardRenderingContext, assets: CardAssets, options: ResolvedCardOptions): Promise<void> {
+    const tweet = assets.tweet;
+    if (!tweet) {
+      throw new Error('The tweet layout needs a tweet in the card assets');
+    }
+
+    // Draw in 1200x630 units, extending the longer side like the profile layouts
+    const scale = Math.min(options.width / 1200, options.height / 630);
+    const width = options.width / scale;
+    const height = options.height / scale;
+    const inset = getContentInset(options, scale, 56);
+
+    ctx.save();
+    ctx.scale(scale, scale);
+
+    ctx.fillStyle = options.backgroundColor;
+    ctx.fillRect(0, 0, width, height);
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'top';
+
+    await this.drawHeader(ctx, assets, options, inset, width);
+
+    // Footer from the bottom up: stats row, divider, post time
+    const statsY = height - inset - 28;
+    const dividerY = options.showStats ? statsY - 24 : height - inset;
+    const timeY = dividerY - 24 - 26;
+    this.drawTime(ctx, tweet, options, inset, timeY, width - inset * 2);
+    if (options.showStats) {
+      ctx.fillStyle = options.dividerColor;
+      ctx.fillRect(inset, dividerY, width - inset * 2, 1);
+      this.drawStats(ctx, tweet, options, inset, statsY, width - inset * 2);
+    }
+
+    // Text and media share the space between the header and the post time
+    const bodyTop = inset + AVATAR_SIZE + 28;
+    const bodyBottom = timeY - 28;
+    const bodyWidth = width - inset * 2;
+    const mediaPaths = assets.tweetMediaPaths || [];
+    const hasMedia = mediaPaths.length > 0 && bodyBottom - bodyTop >= MIN_MEDIA_HEIGHT;
+
+    let textBottom = bodyTop;
+    if (tweet.text) {
+      const fontSize = hasMedia ? 30 : 40;
+      ctx.fillStyle = options.textColor;
+      const fitted = RichText.draw(ctx, tweet.text, inset, bodyTop, {
+        fontSize,
+        minFontSize: hasMedia ? 22 : 24,
+        fontFamily: options.fontFamily,
+        maxWidth: bodyWidth,
+        maxHeight: (bodyBottom - bodyTop) * (hasMedia ? 0.45 : 1),
+        lineHeight: fontSize * 1.3
+      }, options.accentColor);
+      textBottom = bodyTop + (fitted.lines.length - 1) * fitted.lineHeight + fitted.fontSize + 24;
+    }
+
+    if (hasMedia && bodyBottom - textBottom >= MIN_MEDIA_HEIGHT) {
+      await this.drawMedia(ctx, mediaPaths, { x: inset, y: textBottom, width: bodyWidth, height: bodyBottom - textBottom });
+    }
+
+    ctx.restore();
+  }
+
+  /**
+   * Avatar, name with badge and username
+   */
+  private async drawHeader(
+    ctx: CardRenderingContext,
+    assets: CardAssets,
+    options: ResolvedCardOptions,
+    inset: number,
+    width: number
+  ): Promise<void> {
+    const profile = assets.profileData;
+
+    if (assets.profileImagePath) {
+      const avatar = await loadImageSafely(assets.profileImagePath, 'profile image');
+      if (avatar) {
+        const box = { x: inset, y: inset, width: AVATAR_SIZE, height: AVATAR_SIZE };
+        const rect = ImageFitter.getDrawRect(avatar.width, avatar.height, box, options.avatarFit, options.avatarFocus);
+        ctx.save();
+        ctx.beginPath();
+        ctx.arc(inset + AVATAR_SIZE / 2, inset + AVATAR_SIZE / 2, AVATAR_SIZE / 2, 0, Math.PI * 2);
+        ctx.clip();
+        ctx.drawImage(avatar, rect.x, rect.y, rect.width, rect.height);
+        ctx.restore();
+      }
+    }
+
+    const textX = inset + AVATAR_SIZE + 20;
+    const textWidth = width - inset - textX;
+
+    ctx.fillStyle = options.textColor;
+    const badge = options.showBadge ? VerificationBadge.getType(profile) : 'none';
+    VerificationBadge.drawNameWithBadge(ctx, profile.name, badge, textX, inset + 10, {
+      fontSize: 32, minFontSize: 22, fontStyle: 'bold', fontFamily: options.fontFamily, maxWidth: textWidth
+    });
+
+    ctx.fillStyle = options.secondaryTextColor;
+    TextFitter.draw(ctx, `@${profile.username}`, textX, inset + 52, {
+      fontSize: 24, minFontSize: 18, fontFamily: options.fontFamily, maxWidth: textWidth, maxLines: 1
+    });
+  }
+
+  /**
+   * Post time and view count, e.g. "3:42 PM · Oct 19, 2026 · 12.3K Views"
+   */
+  private drawTime(
+    ctx: CardRenderingContext,
+    tweet: TweetData,
+    options: ResolvedCardOptions,
+    x: number,
+    y: number,
+    maxWidth: number
+  ): void {
+    const parts = [tweet.createdAt ? CardLocale.formatTweetTime(tweet.createdAt, options.locale) : ''];
+    if (tweet.viewCount > 0) {
+      parts.push(`${CardLocale.formatCount(tweet.viewCount, options.locale)} ${CardLocale.getTweetLabels(options.locale).views}`);
+    }
+
+    const line = parts.filter(part => part !== '').join(' · ');
+    if (!line) {
+      return;
+    }
+
+    ctx.fillStyle = options.secondaryTextColor;
+    TextFitter.draw(ctx, line, x, y, {
+      fontSize: 24, minFontSize: 18, fontFamily: options.fontFamily, maxWidth, maxLines: 1
+    });
+  }
+
+  /**
+   * Engagement counts in X's order, bold values followed by their labels.
+   * Zero counts are left out, as on X; the row shrinks to fit and drops
+   * trailing counts that still don't fit at the smallest size.
+   */
+  private drawStats(
+    ctx: CardRenderingContext,
+    tweet: TweetData,
+    options: ResolvedCardOptions,
+    x: number,
+    y: number,
+    maxWidth: number
+  ): void {
+    const labels = CardLocale.getTweetLabels(options.locale);
+    const items = [
+      { count: tweet.replyCount, label: labels.replies },
+      { count: tweet.repostCount, label: labels.reposts },
+      { count: tweet.quoteCount, label: labels.quotes },
+      { count: tweet.likeCount, label: labels.likes },
+      { count: tweet.bookmarkCount, label: labels.bookmarks }
+    ]
+      .filter(item => item.count > 0)
+      .map(item => ({ value: CardLocale.formatCount(item.count, options.locale), label: ` ${item.label}` }));
+
+    const measure = (fontSize: number) => items.map(item => {
+      ctx.font = `bold ${fontSize}px ${options.fontFamily}`;
+      const valueWidth = ctx.measureText(item.value).width;
+      ctx.font = `${fontSize}px ${options.fontFamily}`;
+      return { valueWidth, width: valueWidth + ctx.measureText(item.label).width };
+    });
+    const totalWidth = (widths: Array<{ width: number }>, gap: number) =>
+      widths.reduce((sum, item) => sum + item.width, 0) + gap * Math.max(0, widths.length - 1);
+
+    let fontSize = 24;
+    let widths = measure(fontSize);
+    while (fontSize > 16 && totalWidth(widths, fontSize * 1.4) > maxWidth) {
+      fontSize -= 1;
+      widths = measure(fontSize);
+    }
+
+    const gap = fontSize * 1.4;
+    let currentX = x;
+    items.forEach((item, index) => {
+      if (currentX + widths[index].width > x + maxWidth) {
+        return;
+      }
+      ctx.font = `bold ${fontSize}px ${options.fontFamily}`;
+      ctx.fillStyle = options.textColor;
+      ctx.fillText(item.value, currentX, y);
+      ctx.font = `${fontSize}px ${options.fontFamily}`;
+      ctx.fillStyle = options.secondaryTextColor;
+      ctx.fillText(item.label, currentX + widths[index].valueWidth, y);
+      currentX += widths[index].width + gap;
+    });
+  }
+
+  /**
+   * Media images in X's grid: one full box, two side by side, three as one
+   * large image beside two stacked ones, four as a 2x2 grid
+   */
+  private async drawMedia(ctx: CardRenderingContext, mediaPaths: string[], box: ImageBox): Promise<void> {
+    const images: Image[] = [];
+    for (const mediaPath of mediaPaths.slice(0, 4)) {
+      const image = await loadImageSafely(mediaPath, 'tweet media');
+      if (image) {
+        images.push(image);
+      }
+    }
+    if (images.length === 0) {
+      return;
+    }
+
+    const halfWidth = (box.width - MEDIA_GAP) / 2;
+    const halfHeight = (box.height - MEDIA_GAP) / 2;
+    const rightX = box.x + halfWidth + MEDIA_GAP;
+    const lowerY = box.y + halfHeight + MEDIA_GAP;
+    const cells: ImageBox[][] = [
+      [box],
+      [{ ...box, width: halfWidth }, { ...box, x: rightX, width: halfWidth }],
+      [
+        { ...box, width: halfWidth },
+        { x: rightX, y: box.y, width: halfWidth, height: halfHeight },
+        { x: rightX, y: lowerY, width: halfWidth, height: halfHeight }
+      ],
+      [
+        { x: box.x, y: box.y, width: halfWidth, height: halfHeight },
+        { x: rightX, y: box.y, width: halfWidth, height: halfHeight },
+        { x: box.x, y: lowerY, width: halfWidth, height: halfHeight },
+        { x: rightX, y: lowerY, width: halfWidth, height: halfHeight }
+      ]
+    ];
+
+    // Round the outer corners of the whole grid
+    const r = Math.min(MEDIA_RADIUS, box.width / 2, box.height / 2);
+    ctx.save();
+    ctx.beginPath();
+    ctx.moveTo(box.x + r, box.y);
+    ctx.arcTo(box.x + box.width, box.y, box.x + box.width, box.y + box.height, r);
+    ctx.arcTo(box.x + box.width, box.y + box.height, box.x, box.y + box.height, r);
+    ctx.arcTo(box.x, box.y + box.height, box.x, box.y, r);
+    ctx.arcTo(box.x, box.y, box.x + box.width, box.y, r);
+    ctx.closePath();
+    ctx.clip();
+
+    cells[images.length - 1].forEach((cell, index) => ImageFitter.draw(ctx, images[index], cell, 'cover'));
+    ctx.restore();
+  }
+}
@@ -1,5 +1,24 @@
 import axios, { AxiosResponse } from 'axios';
-import { TwitterApiResponse, TwitterApiError, TwitterUser, TwitterProfileData } from './types';
+import { TwitterApiResponse, TwitterApiError, TwitterUser, TwitterProfileData, TwitterTweetResponse, TweetData } from './types';
+
+/**
+ * Query parameters for every user lookup: profile fields plus the pinned tweet
+ */
+const USER_PARAMS = {
+  'user.fields': 'created_at,description,entities,location,pinned_tweet_id,profile_banner_url,profile_image_url,public_metrics,subscription,subscription_type,url,username,verified,verified_type',
+  'expansions': 'pinned_tweet_id',
+  'tweet.fields': 'created_at,entities'
+};
+
+/**
+ * Query parameters for tweet lookups: text, metrics and media plus the author's profile
+ */
+const TWEET_PARAMS = {
+  'tweet.fields': 'attachments,author_id,created_at,entities,lang,public_metrics',
+  'expansions': 'author_id,attachments.media_keys',
+  'user.fields': USER_PARAMS['user.fields'],
+  'media.fields': 'alt_text,height,preview_image_url,type,url,width'
+};
 
 /**
  * Twitter API v2 Client
@@ -25,9 +44,7 @@ export class TwitterApiClient {
       const response: AxiosResponse<TwitterApiResponse> = await axios.get(
         `${this.baseUrl}/users/by/username/${username}`,
         {
-          params: {
-            'user.fields': 'description,profile_banner_url,profile_image_url,public_metrics,subscription,subscription_type,username,verified'
-          },
+          params: USER_PARAMS,
           headers: {
             'Authorization': `Bearer ${this.bearerToken}`,
             'Content-Type': 'application/json'
@@ -39,7 +56,7 @@ export class TwitterApiClient {
         throw new Error('No user data found in API response');
       }
 
-      return new TwitterProfileData(response.data.data);
+      return this.toProfileData(response.data);
     } catch (error) {
       if (axios.isAxiosError(error)) {
         if (error.response?.status === 404) {
@@ -70,9 +87,7 @@ export class TwitterApiClient {
       const response: AxiosResponse<TwitterApiResponse> = await axios.get(
         `${this.baseUrl}/users/${userId}`,
         {
-          params: {
-            'user.fields': 'description,profile_banner_url,profile_image_url,public_metrics,subscription,subscription_type,username,verified'
-          },
+          params: USER_PARAMS,
           headers: {
             'Authorization': `Bearer ${this.bearerToken}`,
             'Content-Type': 'application/json'
@@ -84,7 +99,7 @@ export class TwitterApiClient {
         throw new Error('No user data found in API response');
       }
 
-      return new TwitterProfileData(response.data.data);
+      return this.toProfileData(response.data);
     } catch (error) {
       if (axios.isAxiosError(error)) {
         if (error.response?.status === 404) {
@@ -105,6 +120,64 @@ export class TwitterApiClient {
     }
   }
 
+  /**
+   * Get a tweet by ID, with its author and attached media
+   * @param tweetId - The tweet's status ID
+   * @returns Promise<TweetData> - The tweet wrapped in a dataclass
+   */
+  async getTweetById(tweetId: string): Promise<TweetData> {
+    try {
+      const response: AxiosResponse<TwitterTweetResponse> = await axios.get(
+        `${this.baseUrl}/tweets/${tweetId}`,
+        {
+          params: TWEET_PARAMS,
+          headers: {
+            'Authorization': `Bearer ${this.bearerToken}`,
+            'Content-Type': 'application/json'
+          }
+        }
+      );
+
+      const tweet = response.data.data;
+      if (!tweet) {
+        throw new Error(`Tweet not found: ${tweetId}`);
+      }
+
+      const author = response.data.includes?.users?.find(user => user.id === tweet.author_id);
+      if (!author) {
+        throw new Error('No author data found in API response');
+      }
+
+      return new TweetData(tweet, new TwitterProfileData(author), response.data.includes?.media);
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        if (error.response?.status === 404) {
+          throw new Error(`Tweet not found: ${tweetId}`);
+        } else if (error.response?.status === 401) {
+          throw new Error('Invalid or expired bearer token');
+        } else if (error.response?.status === 429) {
+          throw new Error('Rate limit exceeded. Please try again later.');
+        } else if (error.response?.data) {
+          const apiError = error.response.data as TwitterApiError;
+          if (apiError.errors && apiError.errors.length > 0) {
+            throw new Error(`Twitter API Error: ${apiError.errors[0].detail}`);
+          }
+        }
+        throw new Error(`Twitter API request failed: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Wrap a user response, attaching the pinned tweet from the expansions
+   */
+  private toProfileData(response: TwitterApiResponse): TwitterProfileData {
+    const user = response.data;
+    const pinnedTweet = response.includes?.tweets?.find(tweet => tweet.id === user.pinned_tweet_id);
+    return new TwitterProfileData(user, pinnedTweet);
+  }
+
   /**
    * Test the API connection
    * @returns Promise<boolean> - True if connection is successful
@@ -2,6 +2,13 @@
  * TypeScript interfaces for Twitter API v2 User data
  */
 
+import type { CardTemplate } from './cardTemplate';
+import type { FontDefinition, FontScript } from './fontManager';
+import type { ImageFitMode, FocalPoint } from './imageFit';
+import type { CardTheme } from './cardTheme';
+import { CardLocale, DEFAULT_LOCALE } from './locale';
+import { TwitterUrlParser } from './urlParser';
+
 export interface PublicMetrics {
   followers_count: number;
   following_count: number;
@@ -11,6 +18,29 @@ export interface PublicMetrics {
   media_count: number;
 }
 
+/**
+ * Shortened link in a user's description or URL field
+ */
+export interface UrlEntity {
+  start: number;
+  end: number;
+  /** t.co link as it appears in the text */
+  url: string;
+  expanded_url?: string;
+  display_url?: string;
+  /** Set on links to attached photos and videos */
+  media_key?: string;
+}
+
+export interface UserEntities {
+  url?: {
+    urls?: UrlEntity[];
+  };
+  description?: {
+    urls?: UrlEntity[];
+  };
+}
+
 export interface Subscription {
   subscribes_to_you: boolean;
 }
@@ -23,13 +53,67 @@ export interface TwitterUser {
   profile_image_url: string;
   profile_banner_url: string;
   verified: boolean;
+  /** "blue", "business", "government" or "none" */
+  verified_type?: string;
   public_metrics: PublicMetrics;
   subscription: Subscription;
   subscription_type: string;
+  entities?: UserEntities;
+  location?: string;
+  /** Website as a t.co link; the full URL is in entities.url */
+  url?: string;
+  /** Account creation time, ISO 8601 */
+  created_at?: string;
+  pinned_tweet_id?: string;
+}
+
+export interface TwitterTweet {
+  id: string;
+  text: string;
+  created_at?: string;
+  author_id?: string;
+  lang?: string;
+  entities?: {
+    urls?: UrlEntity[];
+  };
+  public_metrics?: {
+    retweet_count: number;
+    reply_count: number;
+    like_count: number;
+    quote_count: number;
+    bookmark_count?: number;
+    impression_count?: number;
+  };
+  attachments?: {
+    media_keys?: string[];
+  };
+}
+
+export interface TwitterMedia {
+  media_key: string;
+  type: 'photo' | 'video' | 'animated_gif';
+  /** Image URL; photos only */
+  url?: string;
+  /** Still frame for videos and GIFs */
+  preview_image_url?: string;
+  width?: number;
+  height?: number;
+  alt_text?: string;
+}
+
+export interface TwitterTweetResponse {
+  data: TwitterTweet;
+  includes?: {
+    users?: TwitterUser[];
+    media?: TwitterMedia[];
+  };
 }
 
 export interface TwitterApiResponse {
   data: TwitterUser;
+  includes?: {
+    tweets?: TwitterTweet[];
+  };
 }
 
 export interface TwitterApiError {
@@ -54,6 +138,8 @@ export class TwitterProfileData {
   public readonly profileImageUrl: string;
   public readonly profileBannerUrl: string;
   public readonly verified: boolean;
+  /** Kind of verification: "blue", "business", "government" or "none"; empty when unknown */
+  public readonly verifiedType: string;
   public readonly followersCount: number;
   public readonly followingCount: number;
   public readonly tweetCount: number;
@@ -62,8 +148,26 @@ export class TwitterProfileData {
   public readonly mediaCount: number;
   public readonly subscribesToYou: boolean;
   public readonly subscriptionType: string;
+  /** t.co links in the description with their display URLs */
+  public readonly descriptionUrls: UrlEntity[];
+  public readonly location: string;
+  /** Full website URL, with the t.co link expanded */
+  public readonly websiteUrl: string;
+  /** Website as X shows it, e.g. "hhaider.dev/blog" */
+  public readonly websiteDisplayUrl: string;
+  /** Account creation time, ISO 8601; empty when unknown */
+  public readonly createdAt: string;
+  public readonly pinnedTweetId: string;
+  /** Pinned tweet text with t.co links expanded; empty when not fetched */
+  public readonly pinnedTweetText: string;
+  /** Locale used for the formatted counts in toJSON() */
+  public locale: string = DEFAULT_LOCALE;
 
-  constructor(user: TwitterUser) {
+  /**
+   * @param user - User object from the API
+   * @param pinnedTweet - The user's pinned tweet from the API includes
+   */
+  constructor(user: TwitterUser, pinnedTweet?: TwitterTweet) {
     this.id = user.id;
     this.name = user.name;
     this.username = user.username;
@@ -71,6 +175,7 @@ export class TwitterProfileData {
     this.profileImageUrl = user.profile_image_url;
     this.profileBannerUrl = user.profile_banner_url;
     this.verified = user.verified;
+    this.verifiedType = user.verified_type || '';
     this.followersCount = user.public_metrics.followers_count;
     this.followingCount = user.public_metrics.following_count;
     this.tweetCount = user.public_metrics.tweet_count;
@@ -79,36 +184,95 @@ export class TwitterProfileData {
     this.mediaCount = user.public_metrics.media_count;
     this.subscribesToYou = user.subscription.subscribes_to_you;
     this.subscriptionType = user.subscription_type;
+    this.descriptionUrls = user.entities?.description?.urls || [];
+    this.location = user.location || '';
+
+    const website = (user.entities?.url?.urls || []).find(entity => entity.url === user.url);
+    this.websiteUrl = website?.expanded_url || user.url || '';
+    this.websiteDisplayUrl = website?.display_url || this.websiteUrl.replace(/^https?:\/\/(www\.)?/, '').replace(/\/$/, '');
+    this.createdAt = user.created_at || '';
+    this.pinnedTweetId = user.pinned_tweet_id || '';
+    this.pinnedTweetText = pinnedTweet && pinnedTweet.id === this.pinnedTweetId
+      ? TwitterUrlParser.expandUrls(pinnedTweet.text, pinnedTweet.entities?.urls)
+      : '';
+  }
+
+  /**
+   * Get the description with t.co links replaced by their display URLs
+   */
+  getExpandedDescription(): string {
+    return TwitterUrlParser.expandUrls(this.description, this.descriptionUrls);
+  }
+
+  /**
+   * Get the localized join date, e.g. "Joined March 2019"
+   * @param locale - Locale for the label and month name, defaults to the profile locale
+   * @returns The join date, or an empty string when the creation time is unknown
+   */
+  getFormattedJoinDate(locale: string = this.locale): string {
+    return this.createdAt ? CardLocale.formatJoinDate(this.createdAt, locale) : '';
   }
 
   /**
    * Get a formatted follower count (e.g., "1.2K", "5.3M")
+   * @param locale - Locale for separators and units, defaults to the profile locale
    */
-  getFormattedFollowersCount(): string {
-    return this.formatNumber(this.followersCount);
+  getFormattedFollowersCount(locale: string = this.locale): string {
+    return CardLocale.formatCount(this.followersCount, locale);
   }
 
   /**
    * Get a formatted following count (e.g., "1.2K", "5.3M")
+   * @param locale - Locale for separators and units, defaults to the profile locale
    */
-  getFormattedFollowingCount(): string {
-    return this.formatNumber(this.followingCount);
+  getFormattedFollowingCount(locale: string = this.locale): string {
+    return CardLocale.formatCount(this.followingCount, locale);
   }
 
   /**
    * Get a formatted tweet count (e.g., "1.2K", "5.3M")
+   * @param locale - Locale for separators and units, defaults to the profile locale
+   */
+  getFormattedTweetCount(locale: string = this.locale): string {
+    return CardLocale.formatCount(this.tweetCount, locale);
+  }
+
+  /**
+   * Get the formatted counts and their translated labels
+   * @param locale - Locale for numbers and labels, defaults to the profile locale
    */
-  getFormattedTweetCount(): string {
-    return this.formatNumber(this.tweetCount);
+  getFormattedStats(locale: string = this.locale): Record<string, string> {
+    const labels = CardLocale.getLabels(locale);
+    return {
+      formattedFollowersCount: this.getFormattedFollowersCount(locale),
+      formattedFollowingCount: this.getFormattedFollowingCount(locale),
+      formattedTweetCount: this.getFormattedTweetCount(locale),
+      formattedListedCount: CardLocale.formatCount(this.listedCount, locale),
+      formattedLikeCount: CardLocale.formatCount(this.likeCount, locale),
+      formattedMediaCount: CardLocale.formatCount(this.mediaCount, locale),
+      followersLabel: labels.followers,
+      followingLabel: labels.following,
+      tweetsLabel: labels.tweets,
+      listedLabel: labels.listed,
+      likesLabel: labels.likes,
+      mediaLabel: labels.media
+    };
   }
 
-  private formatNumber(num: number): string {
-    if (num >= 1000000) {
-      return (num / 1000000).toFixed(1) + 'M';
-    } else if (num >= 1000) {
-      return (num / 1000).toFixed(1) + 'K';
-    }
-    return num.toString();
+  /**
+   * Get the count behind a stat
+   * @param metric - Stat to look up
+   */
+  getStatCount(metric: StatMetric): number {
+    const counts: Record<StatMetric, number> = {
+      followers: this.followersCount,
+      following: this.followingCount,
+      tweets: this.tweetCount,
+      listed: this.listedCount,
+      likes: this.likeCount,
+      media: this.mediaCount
+    };
+    return counts[metric];
   }
 
   /**
@@ -123,6 +287,7 @@ export class TwitterProfileData {
       profileImageUrl: this.profileImageUrl,
       profileBannerUrl: this.profileBannerUrl,
       verified: this.verified,
+      verifiedType: this.verifiedType,
       followersCount: this.followersCount,
       followingCount: this.followingCount,
       tweetCount: this.tweetCount,
@@ -131,9 +296,16 @@ export class TwitterProfileData {
       mediaCount: this.mediaCount,
       subscribesToYou: this.subscribesToYou,
       subscriptionType: this.subscriptionType,
-      formattedFollowersCount: this.getFormattedFollowersCount(),
-      formattedFollowingCount: this.getFormattedFollowingCount(),
-      formattedTweetCount: this.getFormattedTweetCount(),
+      descriptionUrls: this.descriptionUrls,
+      location: this.location,
+      websiteUrl: this.websiteUrl,
+      websiteDisplayUrl: this.websiteDisplayUrl,
+      createdAt: this.createdAt,
+      pinnedTweetId: this.pinnedTweetId,
+      pinnedTweetText: this.pinnedTweetText,
+      formattedJoinDate: this.getFormattedJoinDate(),
+      locale: this.locale,
+      ...this.getFormattedStats(),
     };
   }
 
@@ -147,6 +319,7 @@ export class TwitterProfileData {
       username: this.username,
       description: this.description,
       verified: this.verified,
+      verified_type: this.verifiedType,
       followers_count: this.followersCount,
       following_count: this.followingCount,
       tweet_count: this.tweetCount,
@@ -157,11 +330,178 @@ export class TwitterProfileData {
       subscription_type: this.subscriptionType,
       profile_image_url: this.profileImageUrl,
       profile_banner_url: this.profileBannerUrl,
-      created_at: new Date().toISOString()
+      created_at: new Date().toISOString(),
+      location: this.location,
+      website_url: this.websiteUrl,
+      website_display_url: this.websiteDisplayUrl,
+      account_created_at: this.createdAt,
+      pinned_tweet_id: this.pinnedTweetId,
+      pinned_tweet_text: this.pinnedTweetText,
+      description_urls: this.descriptionUrls.length > 0 ? JSON.stringify(this.descriptionUrls) : ''
+    };
+  }
+
+  /**
+   * Rebuild profile data from a row written by toCSVRow()
+   * @param row - CSV columns by header
+   * @returns TwitterProfileData - The profile
+   */
+  static fromCSVRow(row: Record<string, string>): TwitterProfileData {
+    const user: TwitterUser = {
+      id: row.id || '',
+      name: row.name || '',
+      username: row.username || '',
+      description: row.description || '',
+      profile_image_url: row.profile_image_url || '',
+      profile_banner_url: row.profile_banner_url || '',
+      verified: row.verified === 'true',
+      verified_type: row.verified_type || '',
+      public_metrics: {
+        followers_count: parseInt(row.followers_count) || 0,
+        following_count: parseInt(row.following_count) || 0,
+        tweet_count: parseInt(row.tweet_count) || 0,
+        listed_count: parseInt(row.listed_count) || 0,
+        like_count: parseInt(row.like_count) || 0,
+        media_count: parseInt(row.media_count) || 0
+      },
+      subscription: {
+        subscribes_to_you: row.subscribes_to_you === 'true'
+      },
+      subscription_type: row.subscription_type || '',
+      location: row.location,
+      url: row.website_url,
+      created_at: row.account_created_at,
+      pinned_tweet_id: row.pinned_tweet_id,
+      entities: {
+        url: row.website_url
+          ? { urls: [{ start: 0, end: 0, url: row.website_url, expanded_url: row.website_url, display_url: row.website_display_url }] }
+          : undefined,
+        description: { urls: row.description_urls ? JSON.parse(row.description_urls) : [] }
+      }
+    };
+    const pinnedTweet = row.pinned_tweet_id && row.pinned_tweet_text
+      ? { id: row.pinned_tweet_id, text: row.pinned_tweet_text }
+      : undefined;
+
+    return new TwitterProfileData(user, pinnedTweet);
+  }
+}
+
+/**
+ * Parsed tweet with its author, as shown on tweet cards
+ */
+export class TweetData {
+  public readonly id: string;
+  /** Text with t.co links expanded and links to attached media removed */
+  public readonly text: string;
+  public readonly author: TwitterProfileData;
+  /** Post time, ISO 8601; empty when unknown */
+  public readonly createdAt: string;
+  public readonly lang: string;
+  public readonly replyCount: number;
+  public readonly repostCount: number;
+  public readonly quoteCount: number;
+  public readonly likeCount: number;
+  public readonly bookmarkCount: number;
+  /** Impressions; only returned for tweets posted after views were introduced */
+  public readonly viewCount: number;
+  /** Attached photos, videos and GIFs in display order */
+  public readonly media: TwitterMedia[];
+
+  /**
+   * @param tweet - Tweet object from the API
+   * @param author - The tweet's author
+   * @param media - Media objects from the API includes
+   */
+  constructor(tweet: TwitterTweet, author: TwitterProfileData, media: TwitterMedia[] = []) {
+    const urls = tweet.entities?.urls || [];
+    const mediaUrls = urls.filter(entity => entity.media_key).map(entity => entity.url);
+    const text = mediaUrls.reduce((result, url) => result.split(url).join(''), tweet.text);
+
+    this.id = tweet.id;
+    this.text = this.decodeEntities(TwitterUrlParser.expandUrls(text, urls.filter(entity => !entity.media_key))).trim();
+    this.author = author;
+    this.createdAt = tweet.created_at || '';
+    this.lang = tweet.lang || '';
+    this.replyCount = tweet.public_metrics?.reply_count || 0;
+    this.repostCount = tweet.public_metrics?.retweet_count || 0;
+    this.quoteCount = tweet.public_metrics?.quote_count || 0;
+    this.likeCount = tweet.public_metrics?.like_count || 0;
+    this.bookmarkCount = tweet.public_metrics?.bookmark_count || 0;
+    this.viewCount = tweet.public_metrics?.impression_count || 0;
+
+    const keys = tweet.attachments?.media_keys || [];
+    this.media = keys
+      .map(key => media.find(item => item.media_key === key))
+      .filter((item): item is TwitterMedia => !!item);
+  }
+
+  /**
+   * Link to the tweet on X
+   */
+  get url(): string {
+    return `https://x.com/${this.author.username}/status/${this.id}`;
+  }
+
+  /**
+   * Get the image to show for each attachment: the photo itself, or the
+   * preview frame for videos and GIFs
+   */
+  getMediaImageUrls(): string[] {
+    return this.media
+      .map(item => (item.type === 'photo' ? item.url : item.preview_image_url) || '')
+      .filter(url => url !== '');
+  }
+
+  /**
+   * Convert to plain object for serialization
+   */
+  toJSON(): Record<string, any> {
+    return {
+      id: this.id,
+      url: this.url,
+      text: this.text,
+      createdAt: this.createdAt,
+      lang: this.lang,
+      replyCount: this.replyCount,
+      repostCount: this.repostCount,
+      quoteCount: this.quoteCount,
+      likeCount: this.likeCount,
+      bookmarkCount: this.bookmarkCount,
+      viewCount: this.viewCount,
+      media: this.media,
+      author: this.author.toJSON()
     };
   }
+
+  /**
+   * The API escapes &, < and > in tweet text
+   */
+  private decodeEntities(text: string): string {
+    return text.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+  }
 }
 
+/**
+ * Card style name. Built-in styles are listed; custom styles can be added
+ * through CardLayoutRegistry.
+ */
+export type CardStyle = 'modern' | 'classic' | 'minimal' | 'business' | (string & {});
+
+/**
+ * Profile counts a card can show as stats, keyed like StatLabels
+ */
+export const STAT_METRICS = ['followers', 'following', 'tweets', 'listed', 'likes', 'media'] as const;
+
+export type StatMetric = typeof STAT_METRICS[number];
+
+/**
+ * Optional profile rows a card can show under the header
+ */
+export const PROFILE_DETAILS = ['location', 'website', 'joinDate', 'pinnedTweet'] as const;
+
+export type ProfileDetail = typeof PROFILE_DETAILS[number];
+
 /**
  * Profile card generation options
  */
@@ -170,14 +510,159 @@ export interface CardGenerationOptions {
   height?: number;
   backgroundColor?: string;
   textColor?: string;
+  /** Username, stat labels and other secondary text */
+  secondaryTextColor?: string;
   accentColor?: string;
+  /** Rules between stat columns */
+  dividerColor?: string;
+  /** Avatar border width; null keeps each layout's own width */
+  avatarBorderWidth?: number | null;
   fontFamily?: string;
   showBanner?: boolean;
   showStats?: boolean;
+  /** Stats to show, in order; defaults to followers, following and tweets */
+  stats?: StatMetric[];
   showDescription?: boolean;
-  cardStyle?: 'modern' | 'classic' | 'minimal';
-  outputFormat?: 'png' | 'jpeg';
+  cardStyle?: CardStyle;
+  outputFormat?: 'png' | 'jpeg' | 'pdf' | 'svg';
   quality?: number;
+  /** Declarative template; takes precedence over cardStyle when set */
+  template?: CardTemplate | null;
+  /** Physical size, bleed and marks used when outputFormat is 'pdf' */
+  print?: PrintOptions;
+  /** Draw alignment guides on layouts that support them (e.g. the business grid) */
+  showGuides?: boolean;
+  /** QR code drawn on top of the card; omitted when null */
+  qrCode?: QrCodeOptions | null;
+  /** Also render a back side (second image or second PDF page) */
+  doubleSided?: boolean;
+  /** Content of the back side */
+  back?: CardBackOptions;
+  /** Font files to register before drawing */
+  fonts?: FontDefinition[];
+  /** Per-script overrides of the fallback font families */
+  fontFallbacks?: Partial<Record<FontScript, string[]>>;
+  /** Clamp the bio to this many lines with an ellipsis; null fits as many as the layout has room for */
+  descriptionMaxLines?: number | null;
+  /** How the banner fills its area */
+  bannerFit?: ImageFitMode;
+  /** Point of the banner kept in view when it is cropped */
+  bannerFocus?: FocalPoint;
+  /** How the avatar fills its circle */
+  avatarFit?: ImageFitMode;
+  /** Point of the avatar kept in view when it is cropped */
+  avatarFocus?: FocalPoint;
+  /** Named size preset (see CARD_SIZE_PRESETS); explicit width and height take precedence */
+  preset?: string | null;
+  /** Draw the verification badge next to the name */
+  showBadge?: boolean;
+  /** Pick background, text and accent colors from the banner and avatar */
+  autoTheme?: boolean;
+  /**
+   * Built-in theme name, theme file path or theme object. Theme values replace
+   * the defaults; options passed explicitly still take precedence.
+   */
+  theme?: string | CardTheme | null;
+  /** Locale for stat numbers and labels, e.g. "en", "de" or "pt-BR" */
+  locale?: string;
+  /**
+   * Extra rows: location, website and join date share one line, the pinned
+   * tweet gets its own. Details the profile doesn't have are skipped.
+   */
+  profileDetails?: ProfileDetail[];
+  /** Title and logo of roster cards */
+  roster?: RosterOptions;
+}
+
+/**
+ * Back side content for double-sided cards
+ */
+export interface CardBackOptions {
+  showBio?: boolean;
+  showQrCode?: boolean;
+  /** QR code settings for the back; falls back to the front qrCode settings */
+  qrCode?: QrCodeOptions;
+  /** Extra lines such as email, phone or website */
+  contactLines?: string[];
+  /** Logo image drawn at the top-left */
+  logoPath?: string;
+}
+
+/**
+ * Header of roster cards; the header is left out when neither is set
+ */
+export interface RosterOptions {
+  /** Team name drawn above the grid */
+  title?: string;
+  /** Logo image drawn at the top-left, before the title */
+  logoPath?: string;
+}
+
+/**
+ * QR code layer settings. Sizes and positions are in card pixels.
+ */
+export interface QrCodeOptions {
+  /** Link to encode; defaults to the profile URL */
+  url?: string;
+  size?: number;
+  position?: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' | { x: number; y: number };
+  /** Distance from the card edges when position is a corner */
+  margin?: number;
+  errorCorrectionLevel?: 'L' | 'M' | 'Q' | 'H';
+  foregroundColor?: string;
+  backgroundColor?: string;
+  /** Light border around the code, in modules; the QR spec asks for 4 */
+  quietZone?: number;
+}
+
+/**
+ * Print settings for PDF output. All lengths are in inches.
+ */
+export interface PrintOptions {
+  trimWidth?: number;
+  trimHeight?: number;
+  dpi?: number;
+  bleed?: number;
+  safeZone?: number;
+  cropMarks?: boolean;
+  showSafeZone?: boolean;
+}
+
+/**
+ * N-up sheet settings for printing cards on office paper. Lengths are in inches.
+ */
+export interface ImpositionOptions {
+  /** "letter", "a4", "legal", "a3", "tabloid" or WIDTHxHEIGHT in inches */
+  sheet?: string;
+  /** "auto" picks the orientation that fits more cards, preferring portrait */
+  orientation?: 'portrait' | 'landscape' | 'auto';
+  /** Card trim size */
+  cardWidth?: number;
+  cardHeight?: number;
+  /** Minimum distance from the sheet edges to the cards; keep it outside the printer's unprintable border */
+  margin?: number;
+  /** Space between neighbouring cards; 0 makes cards share cut lines */
+  gutter?: number;
+  /** Draw cut marks in the margin, in line with every card edge */
+  cutMarks?: boolean;
+  /** Times each card is repeated */
+  copies?: number;
+}
+
+/**
+ * Imposed PDF result
+ */
+export interface ImpositionResult {
+  success: boolean;
+  outputPath?: string;
+  error?: string;
+  sheetInfo?: {
+    sheets: number;
+    cards: number;
+    columns: number;
+    rows: number;
+    fileSize: number;
+  };
 }
 
 /**
@@ -186,6 +671,8 @@ export interface CardGenerationOptions {
 export interface CardGenerationResult {
   success: boolean;
   outputPath?: string;
+  /** Back side image for double-sided PNG/JPEG/SVG output */
+  backOutputPath?: string;
   error?: string;
   cardInfo?: {
     width: number;
@@ -202,4 +689,8 @@ export interface CardAssets {
   profileImagePath?: string;
   bannerImagePath?: string;
   profileData: TwitterProfileData;
+  /** Tweet drawn by the tweet card layout; profileData is its author */
+  tweet?: TweetData;
+  /** Downloaded images for the tweet's media, in display order */
+  tweetMediaPaths?: string[];
 }
\ No newline at end of file
@@ -2,6 +2,8 @@
  * Twitter profile URL parser utility
  */
 
+import type { UrlEntity } from './types';
+
 export class TwitterUrlParser {
   private static readonly TWITTER_URL_PATTERNS = [
     // Standard Twitter URLs
@@ -30,6 +32,58 @@ export class TwitterUrlParser {
     /^@?([a-zA-Z0-9_]+)$/,
   ];
 
+  // Tweet permalinks, including the /i/status/ and /i/web/status/ forms without a username
+  private static readonly STATUS_URL_PATTERN =
+    /^(?:https?:\/\/)?(?:(?:www|mobile)\.)?(?:twitter|x)\.com\/(?:([a-zA-Z0-9_]+)|i\/web|i)\/status(?:es)?\/(\d+)(?:[/?#].*)?$/;
+
+  /**
+   * Extract the tweet ID and author username from a tweet URL
+   * @param url - Tweet URL such as https://x.com/jack/status/20
+   * @returns The status ID, and the username when the URL contains one
+   * @throws Error if the URL is not a tweet URL
+   */
+  static parseStatusUrl(url: string): { statusId: string; username: string | null } {
+    if (!url || typeof url !== 'string') {
+      throw new Error('Invalid URL: URL must be a non-empty string');
+    }
+
+    const match = url.trim().match(this.STATUS_URL_PATTERN);
+    if (!match) {
+      throw new Error(`Invalid tweet URL: Could not extract a status ID from "${url}"`);
+    }
+
+    const username = match[1] && match[1] !== 'i' && this.isValidUsername(match[1]) ? match[1] : null;
+    return { statusId: match[2], username };
+  }
+
+  /**
+   * Extract the tweet ID from a tweet URL or a bare numeric ID
+   * @param urlOrId - Tweet URL or status ID
+   * @returns The status ID
+   * @throws Error if no status ID can be found
+   */
+  static extractStatusId(urlOrId: string): string {
+    const value = (urlOrId || '').trim();
+    if (/^\d+$/.test(value)) {
+      return value;
+    }
+    return this.parseStatusUrl(value).statusId;
+  }
+
+  /**
+   * Check if a URL is a tweet URL
+   * @param url - The URL to check
+   * @returns True if a status ID can be extracted
+   */
+  static isStatusUrl(url: string): boolean {
+    try {
+      this.parseStatusUrl(url);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
   /**
    * Extract username from a Twitter profile URL
    * @param url - The Twitter profile URL or username
@@ -110,4 +164,17 @@ export class TwitterUrlParser {
     const username = this.extractUsername(url);
     return `https://twitter.com/${username}`;
   }
-}
\ No newline at end of file
+
+  /**
+   * Replace t.co links with the display URLs from their entities
+   * @param text - Text as returned by the API
+   * @param urls - URL entities for the text
+   * @returns Text with shortened links expanded
+   */
+  static expandUrls(text: string, urls: UrlEntity[] = []): string {
+    return urls.reduce((expanded, entity) => {
+      const display = entity.display_url || (entity.expanded_url || '').replace(/^https?:\/\/(www\.)?/, '');
+      return entity.url && display ? expanded.split(entity.url).join(display) : expanded;
+    }, text);
+  }
+}
@@ -0,0 +1,170 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { TwitterProfileData } from './types';
+import { TwitterUrlParser } from './urlParser';
+import { FolderManager } from './folderManager';
+import { CSVExporter } from './csvExporter';
+
+/**
+ * vCard 4.0 (RFC 6350) exporter for Twitter profile contacts
+ */
+export class VCardExporter {
+  private readonly outputDir: string;
+
+  constructor(outputDir: string = './downloads') {
+    this.outputDir = outputDir;
+  }
+
+  /**
+   * Export a profile as a vCard file in the user directory
+   * @param profileData - The Twitter profile data
+   * @param userDir - User directory path
+   * @param profileImagePath - Downloaded profile image to embed as PHOTO
+   * @returns Promise<string> - Path to the created .vcf file
+   */
+  async exportProfileVCard(
+    profileData: TwitterProfileData,
+    userDir: string,
+    profileImagePath?: string
+  ): Promise<string> {
+    const vcfPath = path.join(userDir, `${profileData.username}.vcf`);
+    const vcard = await this.createVCard(profileData, profileImagePath);
+
+    await fs.writeFile(vcfPath, vcard, 'utf8');
+
+    return vcfPath;
+  }
+
+  /**
+   * Create a single multi-contact vCard file for every user directory
+   * @returns Promise<string> - Path to the combined .vcf file
+   */
+  async createCombinedVCard(): Promise<string> {
+    const combinedPath = path.join(this.outputDir, 'all_contacts.vcf');
+    const folderManager = new FolderManager(this.outputDir);
+    const csvExporter = new CSVExporter();
+    const vcards: string[] = [];
+
+    try {
+      const usernames = await folderManager.getAllUserDirectories();
+
+      for (const username of usernames) {
+        try {
+          const userDir = folderManager.getUserDirectory(username);
+          const csvContent = await fs.readFile(path.join(userDir, `${username}_data.csv`), 'utf8');
+          const [row] = csvExporter.parseCSVContent(csvContent);
+          if (!row) {
+            throw new Error('no data row');
+          }
+
+          const profileImagePath = path.join(userDir, 'profile_image.jpg');
+          const hasImage = await fs.pathExists(profileImagePath);
+          vcards.push(await this.createVCard(TwitterProfileData.fromCSVRow(row), hasImage ? profileImagePath : undefined));
+        } catch (error) {
+          console.warn(`Skipping @${username} in combined vCard: ${error}`);
+        }
+      }
+
+      await fs.writeFile(combinedPath, vcards.join(''), 'utf8');
+
+      return combinedPath;
+    } catch (error) {
+      throw new Error(`Failed to create combined vCard: ${error}`);
+    }
+  }
+
+  /**
+   * Create vCard content for a profile
+   * @param profileData - The Twitter profile data
+   * @param profileImagePath - Image to embed as PHOTO
+   * @returns Promise<string> - vCard text with CRLF line endings
+   */
+  async createVCard(profileData: TwitterProfileData, profileImagePath?: string): Promise<string> {
+    const profileUrl = TwitterUrlParser.normalizeUrl(profileData.username);
+    const properties: string[] = [
+      'BEGIN:VCARD',
+      'VERSION:4.0',
+      'KIND:individual',
+      `FN:${this.escapeValue(profileData.name || profileData.username)}`,
+      `NICKNAME:${this.escapeValue(profileData.username)}`,
+      `UID:urn:x-twitter:${this.escapeValue(profileData.id)}`
+    ];
+
+    if (profileData.description) {
+      properties.push(`NOTE:${this.escapeValue(profileData.description)}`);
+    }
+
+    properties.push(`URL:${profileUrl}`);
+    properties.push(`X-SOCIALPROFILE;TYPE=twitter;X-USER=${profileData.username}:${profileUrl}`);
+
+    if (profileImagePath && await fs.pathExists(profileImagePath)) {
+      const image = await fs.readFile(profileImagePath);
+      properties.push(`PHOTO:data:${this.getImageMimeType(image)};base64,${image.toString('base64')}`);
+    }
+
+    properties.push(`REV:${new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')}`);
+    properties.push('END:VCARD');
+
+    return properties.map(line => this.foldLine(line)).join('\r\n') + '\r\n';
+  }
+
+  /**
+   * Escape a property value (RFC 6350 section 3.4)
+   * @param value - Value to escape
+   * @returns Escaped value
+   */
+  private escapeValue(value: string): string {
+    return String(value)
+      .replace(/\\/g, '\\\\')
+      .replace(/,/g, '\\,')
+      .replace(/;/g, '\\;')
+      .replace(/\r\n|\r|\n/g, '\\n');
+  }
+
+  /**
+   * Fold a content line to at most 75 octets per line without splitting
+   * multi-byte UTF-8 characters (RFC 6350 section 3.2)
+   * @param line - Unfolded content line
+   * @returns Folded line
+   */
+  private foldLine(line: string): string {
+    const parts: string[] = [];
+    let current = '';
+    let currentBytes = 0;
+    let limit = 75;
+
+    for (const char of line) {
+      const charBytes = Buffer.byteLength(char, 'utf8');
+      if (currentBytes + charBytes > limit) {
+        parts.push(current);
+        current = '';
+        currentBytes = 0;
+        // Continuation lines start with a space, which counts toward the limit
+        limit = 74;
+      }
+      current += char;
+      currentBytes += charBytes;
+    }
+    parts.push(current);
+
+    return parts.join('\r\n ');
+  }
+
+  /**
+   * Detect the image MIME type from its magic bytes
+   * @param image - Image data
+   * @returns MIME type
+   */
+  private getImageMimeType(image: Buffer): string {
+    if (image[0] === 0x89 && image[1] === 0x50) {
+      return 'image/png';
+    }
+    if (image[0] === 0x47 && image[1] === 0x49) {
+      return 'image/gif';
+    }
+    if (image.slice(0, 4).toString() === 'RIFF') {
+      return 'image/webp';
+    }
+    return 'image/jpeg';
+  }
+}
@@ -0,0 +1,136 @@
+import { TwitterProfileData } from './types';
+import { TextFitter, TextFitOptions } from './textFit';
+import { FontManager } from './fontManager';
+import { CardRenderingContext } from './renderingContext';
+
+/**
+ * Verification badge kinds shown next to a name
+ */
+export type VerificationBadgeType = 'blue' | 'business' | 'government' | 'none';
+
+/**
+ * Badge fill colors
+ */
+export const VERIFICATION_BADGE_COLORS: Record<Exclude<VerificationBadgeType, 'none'>, string> = {
+  blue: '#1d9bf0',
+  business: '#e2b719',
+  government: '#829aab'
+};
+
+/**
+ * Picks and draws X-style verification badges as vector paths
+ */
+export class VerificationBadge {
+  /**
+   * Get the badge for a profile from `verifiedType`: verified organizations get
+   * the gold badge, government accounts the grey one and other verified accounts
+   * the blue one. Profiles saved without a verified type fall back to `verified`.
+   * @param profileData - Profile to check
+   * @returns Badge type, "none" for unverified profiles
+   */
+  static getType(profileData: TwitterProfileData): VerificationBadgeType {
+    const verifiedType = profileData.verifiedType.toLowerCase();
+    if (verifiedType === 'business' || verifiedType === 'government') {
+      return verifiedType;
+    }
+    if (verifiedType === 'none') {
+      return 'none';
+    }
+    return profileData.verified || verifiedType === 'blue' ? 'blue' : 'none';
+  }
+
+  /**
+   * Draw a badge: a scalloped rosette with a check mark
+   * @param ctx - Canvas context
+   * @param type - Badge type; nothing is drawn for "none"
+   * @param x - Left edge
+   * @param y - Top edge
+   * @param size - Badge width and height
+   * @param color - Fill color overriding the badge type color
+   */
+  static draw(
+    ctx: CardRenderingContext,
+    type: VerificationBadgeType,
+    x: number,
+    y: number,
+    size: number,
+    color?: string
+  ): void {
+    if (type === 'none') {
+      return;
+    }
+
+    const radius = size / 2;
+    const cx = x + radius;
+    const cy = y + radius;
+    const lobes = 8;
+    const steps = 96;
+
+    ctx.save();
+
+    // Rosette outline: a circle with eight rounded lobes
+    ctx.fillStyle = color || VERIFICATION_BADGE_COLORS[type];
+    ctx.beginPath();
+    for (let i = 0; i <= steps; i++) {
+      const angle = (i / steps) * Math.PI * 2 - Math.PI / 2;
+      const r = radius * (0.9 + 0.1 * Math.cos(lobes * angle));
+      const px = cx + r * Math.cos(angle);
+      const py = cy + r * Math.sin(angle);
+      if (i === 0) {
+        ctx.moveTo(px, py);
+      } else {
+        ctx.lineTo(px, py);
+      }
+    }
+    ctx.closePath();
+    ctx.fill();
+
+    ctx.strokeStyle = '#ffffff';
+    ctx.lineWidth = Math.max(1, size * 0.11);
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(cx - radius * 0.4, cy + radius * 0.02);
+    ctx.lineTo(cx - radius * 0.12, cy + radius * 0.3);
+    ctx.lineTo(cx + radius * 0.42, cy - radius * 0.28);
+    ctx.stroke();
+
+    ctx.restore();
+  }
+
+  /**
+   * Draw a single-line name shrunk to fit, followed by its badge. Supports left
+   * and center alignment; centered names are centered together with the badge.
+   * @param ctx - Canvas context with fill style and alignment set
+   * @param name - Name to draw
+   * @param type - Badge type; "none" draws only the name
+   * @param x - Anchor x, as for fillText
+   * @param y - Top of the text
+   * @param fit - Font and box for the name; the badge is kept inside maxWidth
+   */
+  static drawNameWithBadge(
+    ctx: CardRenderingContext,
+    name: string,
+    type: VerificationBadgeType,
+    x: number,
+    y: number,
+    fit: TextFitOptions
+  ): void {
+    const reserved = type === 'none' ? 0 : fit.fontSize * 1.1;
+    const fitted = TextFitter.fit(ctx, name, { ...fit, maxWidth: fit.maxWidth - reserved, maxLines: 1 });
+    const line = fitted.lines[0] || '';
+    const badgeSize = Math.round(fitted.fontSize * 0.85);
+    const gap = fitted.fontSize * 0.25;
+    const nameWidth = ctx.measureText(line).width;
+
+    let nameX = x;
+    if (type !== 'none' && ctx.textAlign === 'center') {
+      nameX -= (badgeSize + gap) / 2;
+    }
+    FontManager.fillText(ctx, line, nameX, y);
+
+    // Badge after the name, centered on the em box
+    const nameRight = ctx.textAlign === 'center' ? nameX + nameWidth / 2 : nameX + nameWidth;
+    this.draw(ctx, type, nameRight + gap, y + (fitted.fontSize - badgeSize) / 2, badgeSize);
+  }
+}
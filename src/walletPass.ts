@@ -0,0 +1,313 @@
+import { createCanvas, Image } from 'canvas';
+import * as crypto from 'crypto';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import JSZip from 'jszip';
+import forge from 'node-forge';
+import { CardAssets } from './types';
+import { loadImageSafely } from './cardLayouts';
+import { TwitterUrlParser } from './urlParser';
+
+/**
+ * PEM encoded certificates used to sign a pass
+ */
+export interface WalletPassCertificates {
+  /** Pass Type ID certificate issued by Apple */
+  signerCertificate: string;
+  /** Private key of the Pass Type ID certificate */
+  signerKey: string;
+  /** Passphrase of the private key, if encrypted */
+  signerKeyPassphrase?: string;
+  /** Apple Worldwide Developer Relations intermediate certificate */
+  wwdrCertificate: string;
+}
+
+/**
+ * Apple Wallet pass options
+ */
+export interface WalletPassOptions {
+  passTypeIdentifier: string;
+  teamIdentifier: string;
+  certificates: WalletPassCertificates;
+  organizationName?: string;
+  description?: string;
+  /** Defaults to the profile username */
+  serialNumber?: string;
+  /** Link encoded in the pass QR code; defaults to the profile URL */
+  url?: string;
+  backgroundColor?: string;
+  foregroundColor?: string;
+  labelColor?: string;
+}
+
+/**
+ * Image sizes at 1x for the pass images Apple Wallet shows on a store card
+ */
+const PASS_IMAGE_SIZES = {
+  icon: { width: 29, height: 29 },
+  logo: { width: 50, height: 50 },
+  strip: { width: 375, height: 123 }
+};
+
+const PASS_IMAGE_SCALES = [1, 2, 3];
+
+/**
+ * Builds signed Apple Wallet (.pkpass) business cards from profile assets
+ */
+export class WalletPassBuilder {
+  private readonly options: WalletPassOptions;
+
+  constructor(options: WalletPassOptions) {
+    if (!options.passTypeIdentifier) {
+      throw new Error('Pass type identifier is required');
+    }
+    if (!options.teamIdentifier) {
+      throw new Error('Team identifier is required');
+    }
+    this.options = options;
+  }
+
+  /**
+   * Load signing certificates from PEM files
+   * @param certificatePath - Pass Type ID certificate
+   * @param keyPath - Private key of the certificate
+   * @param wwdrPath - Apple WWDR intermediate certificate
+   * @param passphrase - Private key passphrase
+   * @returns Promise<WalletPassCertificates> - Loaded certificates
+   */
+  static async loadCertificates(
+    certificatePath: string,
+    keyPath: string,
+    wwdrPath: string,
+    passphrase?: string
+  ): Promise<WalletPassCertificates> {
+    const [signerCertificate, signerKey, wwdrCertificate] = await Promise.all([
+      fs.readFile(certificatePath, 'utf8'),
+      fs.readFile(keyPath, 'utf8'),
+      fs.readFile(wwdrPath, 'utf8')
+    ]).catch(error => {
+      throw new Error(`Failed to read pass certificates: ${error}`);
+    });
+
+    return { signerCertificate, signerKey, signerKeyPassphrase: passphrase, wwdrCertificate };
+  }
+
+  /**
+   * Build a signed .pkpass bundle
+   * @param assets - Profile assets and data
+   * @returns Promise<Buffer> - The zipped pass
+   */
+  async build(assets: CardAssets): Promise<Buffer> {
+    const files: Record<string, Buffer> = {
+      'pass.json': Buffer.from(JSON.stringify(this.createPassJson(assets), null, 2), 'utf8'),
+      ...(await this.createImages(assets))
+    };
+
+    const manifest = this.createManifest(files);
+    files['manifest.json'] = manifest;
+    files['signature'] = this.sign(manifest);
+
+    const zip = new JSZip();
+    for (const [name, data] of Object.entries(files)) {
+      zip.file(name, data);
+    }
+
+    return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+  }
+
+  /**
+   * Build a signed .pkpass bundle and write it to disk
+   * @param assets - Profile assets and data
+   * @param outputPath - Output file path; defaults to the user's download directory
+   * @returns Promise<string> - Path to the written pass
+   */
+  async buildToFile(assets: CardAssets, outputPath?: string): Promise<string> {
+    const buffer = await this.build(assets);
+
+    if (!outputPath) {
+      const username = assets.profileData.username;
+      outputPath = path.join(process.cwd(), 'downloads', username, `${username}.pkpass`);
+    }
+
+    await fs.ensureDir(path.dirname(outputPath));
+    await fs.writeFile(outputPath, buffer);
+    return outputPath;
+  }
+
+  /**
+   * Create pass.json for a store card showing the profile
+   */
+  createPassJson(assets: CardAssets): Record<string, any> {
+    const profile = assets.profileData;
+    const url = this.options.url || TwitterUrlParser.normalizeUrl(profile.username);
+
+    return {
+      formatVersion: 1,
+      passTypeIdentifier: this.options.passTypeIdentifier,
+      teamIdentifier: this.options.teamIdentifier,
+      serialNumber: this.options.serialNumber || profile.username,
+      organizationName: this.options.organizationName || profile.name,
+      description: this.options.description || `${profile.name} business card`,
+      logoText: profile.name,
+      backgroundColor: this.toRgb(this.options.backgroundColor || '#000000'),
+      foregroundColor: this.toRgb(this.options.foregroundColor || '#ffffff'),
+      labelColor: this.toRgb(this.options.labelColor || '#71767b'),
+      sharingProhibited: false,
+      barcodes: [
+        {
+          format: 'PKBarcodeFormatQR',
+          message: url,
+          messageEncoding: 'iso-8859-1',
+          altText: `@${profile.username}`
+        }
+      ],
+      storeCard: {
+        primaryFields: [
+          { key: 'name', label: `@${profile.username}`, value: profile.name }
+        ],
+        secondaryFields: [
+          { key: 'followers', label: 'FOLLOWERS', value: profile.getFormattedFollowersCount() },
+          { key: 'following', label: 'FOLLOWING', value: profile.getFormattedFollowingCount() }
+        ],
+        auxiliaryFields: [
+          { key: 'tweets', label: 'TWEETS', value: profile.getFormattedTweetCount() }
+        ],
+        backFields: [
+          { key: 'bio', label: 'Bio', value: profile.description || '' },
+          { key: 'profile', label: 'Profile', value: url, attributedValue: `<a href="${url}">${url}</a>` }
+        ]
+      }
+    };
+  }
+
+  /**
+   * Render icon, logo and strip images at 1x, 2x and 3x
+   */
+  private async createImages(assets: CardAssets): Promise<Record<string, Buffer>> {
+    const images: Record<string, Buffer> = {};
+    const avatar = assets.profileImagePath ? await loadImageSafely(assets.profileImagePath, 'pass avatar') : null;
+    const banner = assets.bannerImagePath ? await loadImageSafely(assets.bannerImagePath, 'pass banner') : null;
+    const background = this.options.backgroundColor || '#000000';
+
+    for (const scale of PASS_IMAGE_SCALES) {
+      const suffix = scale === 1 ? '' : `@${scale}x`;
+
+      // Wallet requires an icon, so fall back to a plain tile without an avatar
+      images[`icon${suffix}.png`] = this.renderImage(PASS_IMAGE_SIZES.icon, scale, avatar, background, true);
+
+      if (avatar) {
+        images[`logo${suffix}.png`] = this.renderImage(PASS_IMAGE_SIZES.logo, scale, avatar, background, true);
+      }
+
+      if (banner) {
+        images[`strip${suffix}.png`] = this.renderImage(PASS_IMAGE_SIZES.strip, scale, banner, background, false);
+      }
+    }
+
+    return images;
+  }
+
+  private renderImage(
+    size: { width: number; height: number },
+    scale: number,
+    image: Image | null,
+    background: string,
+    circular: boolean
+  ): Buffer {
+    const width = size.width * scale;
+    const height = size.height * scale;
+    const canvas = createCanvas(width, height);
+    const ctx = canvas.getContext('2d');
+
+    if (!image) {
+      ctx.fillStyle = background;
+      ctx.fillRect(0, 0, width, height);
+      return canvas.toBuffer('image/png');
+    }
+
+    if (circular) {
+      ctx.beginPath();
+      ctx.arc(width / 2, height / 2, Math.min(width, height) / 2, 0, Math.PI * 2);
+      ctx.clip();
+    }
+
+    // Cover-crop around the center
+    const coverScale = Math.max(width / image.width, height / image.height);
+    const drawWidth = image.width * coverScale;
+    const drawHeight = image.height * coverScale;
+    ctx.drawImage(image, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+
+    return canvas.toBuffer('image/png');
+  }
+
+  /**
+   * manifest.json maps every file in the pass to its SHA-1 hash
+   */
+  private createManifest(files: Record<string, Buffer>): Buffer {
+    const manifest: Record<string, string> = {};
+    for (const [name, data] of Object.entries(files)) {
+      manifest[name] = crypto.createHash('sha1').update(data).digest('hex');
+    }
+    return Buffer.from(JSON.stringify(manifest, null, 2), 'utf8');
+  }
+
+  /**
+   * Create a detached PKCS#7 signature of the manifest
+   */
+  private sign(manifest: Buffer): Buffer {
+    const { certificates } = this.options;
+
+    let signerCertificate: forge.pki.Certificate;
+    let wwdrCertificate: forge.pki.Certificate;
+    let signerKey: forge.pki.PrivateKey | null;
+
+    try {
+      signerCertificate = forge.pki.certificateFromPem(certificates.signerCertificate);
+      wwdrCertificate = forge.pki.certificateFromPem(certificates.wwdrCertificate);
+      signerKey = certificates.signerKeyPassphrase
+        ? forge.pki.decryptRsaPrivateKey(certificates.signerKey, certificates.signerKeyPassphrase)
+        : forge.pki.privateKeyFromPem(certificates.signerKey);
+    } catch (error) {
+      throw new Error(`Invalid pass certificate or key: ${error instanceof Error ? error.message : error}`);
+    }
+
+    if (!signerKey) {
+      throw new Error('Failed to decrypt pass signing key: wrong passphrase?');
+    }
+
+    const signedData = forge.pkcs7.createSignedData();
+    signedData.content = forge.util.createBuffer(manifest.toString('binary'));
+    signedData.addCertificate(signerCertificate);
+    signedData.addCertificate(wwdrCertificate);
+    signedData.addSigner({
+      key: signerKey,
+      certificate: signerCertificate,
+      digestAlgorithm: forge.pki.oids.sha256,
+      authenticatedAttributes: [
+        { type: forge.pki.oids.contentType, value: forge.pki.oids.data },
+        // forge fills in the manifest digest and the current time
+        { type: forge.pki.oids.messageDigest },
+        { type: forge.pki.oids.signingTime }
+      ]
+    });
+    signedData.sign({ detached: true });
+
+    return Buffer.from(forge.asn1.toDer(signedData.toAsn1()).getBytes(), 'binary');
+  }
+
+  /**
+   * Convert a hex color to the rgb() form pass.json expects
+   */
+  private toRgb(color: string): string {
+    const match = color.trim().match(/^#?([0-9a-f]{3}|[0-9a-f]{6})$/i);
+    if (!match) {
+      return color;
+    }
+    let hex = match[1];
+    if (hex.length === 3) {
+      hex = hex.split('').map(c => c + c).join('');
+    }
+    const value = parseInt(hex, 16);
+    return `rgb(${(value >> 16) & 255}, ${(value >> 8) & 255}, ${value & 255})`;
+  }
+}